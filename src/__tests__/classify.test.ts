@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test";
+import type { Chunk } from "../schemas/chunk.js";
+import { classifyFile } from "../classify.js";
+
+function makeChunks(texts: string[], fileId = "file.md"): Chunk[] {
+  return texts.map((text, i) => ({
+    chunk_id: `c${i}`,
+    file_id: fileId,
+    text,
+    source_ref: { file_id: fileId, line_start: i + 1 },
+  }));
+}
+
+describe("classifyFile", () => {
+  test("returns other with low confidence when nothing matches", () => {
+    const result = classifyFile("/course/hw3.md", makeChunks(["Hello there."]));
+    expect(result.tag).toBe("other");
+    expect(result.confidence).toBeLessThan(0.5);
+    expect(result.evidence).toEqual(["no path or content signals"]);
+  });
+
+  test("classifies an unhelpfully named spec from requirement language and points", () => {
+    const result = classifyFile("/course/hw3.md", makeChunks([
+      "# Part 1 (20 points)\nYour program must read from stdin and must not crash.",
+      "# Part 2 (30 points)\nYou will implement a heap allocator. It is due on Friday.",
+    ]));
+    expect(result.tag).toBe("spec");
+    expect(result.confidence).toBeGreaterThan(0.7);
+    expect(result.evidence).toContain("2 point value(s)");
+    expect(result.evidence).toContain("2 requirement phrase(s) (must/shall/required)");
+  });
+
+  test("recognizes rubric tables", () => {
+    const result = classifyFile("/course/week4.md", makeChunks([
+      "| Criterion | Points |\n|---|---|\n| Correctness | 50 |\n| Style | 10 |",
+    ]));
+    expect(result.tag).toBe("spec");
+    expect(result.evidence[0]).toBe("rubric table");
+  });
+
+  test("classifies short bullet-heavy sections as slides", () => {
+    const result = classifyFile("/course/week2.md", makeChunks([
+      "# Paging\n- Virtual pages\n- Physical frames\n- Page tables",
+      "# TLB\n- Caches translations\n- Small and fast",
+      "# Faults\n- Trap to OS\n- Load page\n- Retry",
+    ]));
+    expect(result.tag).toBe("slides");
+    expect(result.evidence[0]).toMatch(/^short bullet-heavy sections/);
+  });
+
+  test("classifies short PDF pages as slides", () => {
+    const chunks = Array.from({ length: 6 }, (_, i) => ({
+      chunk_id: `c${i}`,
+      file_id: "week5.pdf",
+      text: `Scheduling idea ${i}`,
+      source_ref: { file_id: "week5.pdf", page: i + 1 },
+    }));
+    expect(classifyFile("/course/week5.pdf", chunks).tag).toBe("slides");
+  });
+
+  test("classifies code-like text as code", () => {
+    const result = classifyFile("/course/helpers.txt", makeChunks([
+      "int add(int a, int b) {\n    return a + b;\n}\nstatic int counter = 0;",
+    ]));
+    expect(result.tag).toBe("code");
+  });
+
+  test("path keywords still decide when content is neutral", () => {
+    expect(classifyFile("/course/readme.md", makeChunks(["Hello there."])).tag).toBe("notes");
+    expect(classifyFile("/course/lecture-notes.md", makeChunks(["Hello there."])).tag).toBe("slides");
+    expect(classifyFile("/course/piazza-digest.txt", makeChunks(["Hello there."])).tag).toBe("clarification");
+  });
+
+  test("strong content evidence outweighs a misleading name", () => {
+    const result = classifyFile("/course/notes.md", makeChunks([
+      "| Criterion | Points |\n|---|---|\n| Tests | 40 |",
+      "You must submit by the deadline. Each part must compile. 10 points each; 5 pts for style.",
+    ]));
+    expect(result.tag).toBe("spec");
+    expect(result.evidence).toContain("outweighed: notes (3)");
+  });
+
+  test("format fallback applies only without stronger signals", () => {
+    const fallback = { tag: "spec" as const, evidence: "format default for .tex" };
+    expect(classifyFile("/course/pset.tex", makeChunks(["Hello there."]), fallback).tag).toBe("spec");
+    expect(classifyFile("/course/readme.tex", makeChunks(["Hello there."]), fallback).tag).toBe("notes");
+  });
+});
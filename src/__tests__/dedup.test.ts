@@ -0,0 +1,142 @@
+import { describe, test, expect } from "bun:test";
+import { mergeDuplicates, stripBoilerplate } from "../dedup.js";
+import type { Chunk } from "../schemas/chunk.js";
+
+function lineChunk(id: string, fileId: string, text: string, lineStart = 1): Chunk {
+  return {
+    chunk_id: id,
+    file_id: fileId,
+    text,
+    source_ref: { file_id: fileId, line_start: lineStart, line_end: lineStart + text.split("\n").length - 1 },
+  };
+}
+
+function pageChunk(id: string, fileId: string, page: number, text: string): Chunk {
+  return { chunk_id: id, file_id: fileId, text, source_ref: { file_id: fileId, page } };
+}
+
+const SPEC = [
+  "Implement a dynamic memory allocator with malloc, free and realloc.",
+  "Your allocator must keep an explicit free list and coalesce adjacent",
+  "free blocks immediately. Submissions are due Friday at midnight and",
+  "are graded on throughput and space utilization across all traces.",
+].join("\n");
+
+describe("mergeDuplicates", () => {
+  test("merges exact copies across files and keeps every location", () => {
+    const chunks = [
+      lineChunk("a", "README.md", SPEC),
+      lineChunk("b", "notes.md", "Unrelated lecture notes about caches."),
+      lineChunk("c", "spec.txt", SPEC, 10),
+    ];
+
+    const merged = mergeDuplicates(chunks);
+    expect(merged.map((c) => c.chunk_id)).toEqual(["a", "b"]);
+    expect(merged[0]!.duplicates).toEqual([{ file_id: "spec.txt", line_start: 10, line_end: 13 }]);
+    expect(merged[1]!.duplicates).toBeUndefined();
+  });
+
+  test("merges copies that differ only in layout, case or punctuation", () => {
+    const reflowed = SPEC.replace(/\n/g, " ").replace(/[.,]/g, "").toUpperCase();
+    const merged = mergeDuplicates([
+      lineChunk("a", "README.md", SPEC),
+      lineChunk("b", "spec.txt", reflowed),
+    ]);
+    expect(merged.map((c) => c.chunk_id)).toEqual(["a"]);
+    expect(merged[0]!.duplicates!.map((r) => r.file_id)).toEqual(["spec.txt"]);
+  });
+
+  test("merges a copy that only adds a title line", () => {
+    const merged = mergeDuplicates([
+      lineChunk("a", "README.md", `# Malloc Lab\n${SPEC}`),
+      lineChunk("b", "spec.txt", SPEC),
+    ]);
+    expect(merged.map((c) => c.chunk_id)).toEqual(["a"]);
+    expect(merged[0]!.duplicates!.map((r) => r.file_id)).toEqual(["spec.txt"]);
+  });
+
+  test("keeps both versions when one line was edited", () => {
+    const long = Array.from({ length: 30 }, (_, i) => `Rule ${i}: the allocator must handle case number ${i} correctly.`);
+    const edited = [...long];
+    edited[15] = "Rule 15: the heap may grow to at most 20 MB.";
+    const merged = mergeDuplicates([lineChunk("a", "v1.md", long.join("\n")), lineChunk("b", "v2.md", edited.join("\n"))]);
+    expect(merged.map((c) => c.chunk_id)).toEqual(["a", "b"]);
+  });
+
+  test("near duplicates within one file are kept", () => {
+    const merged = mergeDuplicates([
+      lineChunk("a", "spec.md", SPEC),
+      lineChunk("b", "spec.md", `# Summary\n${SPEC}`, 10),
+    ]);
+    expect(merged.length).toBe(2);
+  });
+
+  test("keeps chunks that only share some sentences", () => {
+    const other = `${SPEC.split("\n").slice(0, 2).join("\n")}\nThis part describes an entirely different grading scheme for the lab.`;
+    const merged = mergeDuplicates([lineChunk("a", "hw1.md", SPEC), lineChunk("b", "hw2.md", other)]);
+    expect(merged.length).toBe(2);
+  });
+
+  test("short chunks only merge with word-for-word copies", () => {
+    const merged = mergeDuplicates([
+      lineChunk("a", "s1.md", "Questions?"),
+      lineChunk("b", "s2.md", "questions"),
+      lineChunk("c", "s3.md", "Any questions?"),
+    ]);
+    expect(merged.map((c) => c.chunk_id)).toEqual(["a", "c"]);
+  });
+
+  test("short chunks repeated within one file are kept", () => {
+    const merged = mergeDuplicates([lineChunk("a", "slides.md", "Questions?"), lineChunk("b", "slides.md", "Questions?", 20)]);
+    expect(merged.length).toBe(2);
+  });
+
+  test("keeps the copy from the best-ranked file as the survivor", () => {
+    const merged = mergeDuplicates(
+      [lineChunk("a", "README.md", SPEC), lineChunk("b", "spec.txt", SPEC), lineChunk("c", "slides.txt", SPEC)],
+      (fileId) => ({ "README.md": 2, "spec.txt": 0, "slides.txt": 0 })[fileId] ?? 9,
+    );
+    expect(merged.map((c) => c.chunk_id)).toEqual(["b"]);
+    expect(merged[0]!.duplicates!.map((r) => r.file_id)).toEqual(["README.md", "slides.txt"]);
+  });
+
+  test("does not merge chunks without words", () => {
+    const merged = mergeDuplicates([lineChunk("a", "a.c", "}"), lineChunk("b", "b.c", "}")]);
+    expect(merged.length).toBe(2);
+  });
+});
+
+describe("stripBoilerplate", () => {
+  test("removes headers and footers repeated across pages", () => {
+    const chunks = [1, 2, 3, 4].map((page) =>
+      pageChunk(`p${page}`, "lecture.pdf", page, `CS 101 Fall 2024\nTopic ${page} body text\nPage ${page} of 4`),
+    );
+
+    const stripped = stripBoilerplate(chunks);
+    expect(stripped.map((c) => c.text)).toEqual([
+      "Topic 1 body text",
+      "Topic 2 body text",
+      "Topic 3 body text",
+      "Topic 4 body text",
+    ]);
+  });
+
+  test("drops pages that held only boilerplate", () => {
+    const chunks = [
+      ...[1, 2, 3].map((page) => pageChunk(`p${page}`, "slides.pdf", page, `Course Title\nSlide ${page} content`)),
+      pageChunk("p4", "slides.pdf", 4, "Course Title"),
+    ];
+    expect(stripBoilerplate(chunks).map((c) => c.chunk_id)).toEqual(["p1", "p2", "p3"]);
+  });
+
+  test("leaves line-located chunks and files with few pages alone", () => {
+    const chunks = [
+      lineChunk("l1", "notes.md", "Header\nbody one"),
+      lineChunk("l2", "notes.md", "Header\nbody two", 3),
+      lineChunk("l3", "notes.md", "Header\nbody three", 5),
+      pageChunk("p1", "short.pdf", 1, "Header\nbody"),
+      pageChunk("p2", "short.pdf", 2, "Header\nmore"),
+    ];
+    expect(stripBoilerplate(chunks)).toEqual(chunks);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+import { parseIgnoreFile, findIgnoreRule } from "../ignore.js";
+
+function ignored(patterns: string, path: string, isDir = false, base = ""): boolean {
+  const rules = parseIgnoreFile(patterns, base, ".gitignore");
+  return findIgnoreRule(rules, path, isDir) !== undefined;
+}
+
+describe("parseIgnoreFile", () => {
+  test("skips blank lines and comments", () => {
+    const rules = parseIgnoreFile("# build output\n\n  \nbuild/\n", "", ".gitignore");
+    expect(rules.length).toBe(1);
+    expect(rules[0]!.source).toBe(".gitignore: build/");
+  });
+
+  test("escaped # and ! are literal", () => {
+    expect(ignored("\\#notes.md", "#notes.md")).toBe(true);
+    expect(ignored("\\!important.md", "!important.md")).toBe(true);
+  });
+});
+
+describe("findIgnoreRule", () => {
+  test("unanchored patterns match names at any depth", () => {
+    expect(ignored("*.log", "debug.log")).toBe(true);
+    expect(ignored("*.log", "a/b/debug.log")).toBe(true);
+    expect(ignored("*.log", "debug.log.md")).toBe(false);
+  });
+
+  test("patterns with a slash are anchored to the ignore file's directory", () => {
+    expect(ignored("/build", "build", true)).toBe(true);
+    expect(ignored("/build", "src/build", true)).toBe(false);
+    expect(ignored("docs/*.md", "docs/a.md")).toBe(true);
+    expect(ignored("docs/*.md", "x/docs/a.md")).toBe(false);
+  });
+
+  test("trailing slash only matches directories", () => {
+    expect(ignored("out/", "out", true)).toBe(true);
+    expect(ignored("out/", "out", false)).toBe(false);
+  });
+
+  test("files inside an ignored directory are ignored", () => {
+    expect(ignored("node_modules/", "node_modules/lib/index.js")).toBe(true);
+  });
+
+  test("double-star matches across directories", () => {
+    expect(ignored("**/fixtures", "a/b/fixtures", true)).toBe(true);
+    expect(ignored("docs/**/*.md", "docs/a/b/c.md")).toBe(true);
+    expect(ignored("docs/**/*.md", "docs/c.md")).toBe(true);
+    expect(ignored("vendor/**", "vendor/x/y.c")).toBe(true);
+  });
+
+  test("? and character classes match a single character", () => {
+    expect(ignored("hw?.md", "hw1.md")).toBe(true);
+    expect(ignored("hw?.md", "hw10.md")).toBe(false);
+    expect(ignored("hw[0-2].md", "hw2.md")).toBe(true);
+    expect(ignored("hw[!0-2].md", "hw3.md")).toBe(true);
+    expect(ignored("hw[!0-2].md", "hw1.md")).toBe(false);
+  });
+
+  test("negation re-includes a file and the last match wins", () => {
+    expect(ignored("*.md\n!spec.md", "spec.md")).toBe(false);
+    expect(ignored("*.md\n!spec.md", "notes.md")).toBe(true);
+    expect(ignored("!spec.md\n*.md", "spec.md")).toBe(true);
+  });
+
+  test("negation cannot re-include a file inside an ignored directory", () => {
+    expect(ignored("build/\n!build/spec.md", "build/spec.md")).toBe(true);
+  });
+
+  test("rules from a nested ignore file only apply beneath its directory", () => {
+    expect(ignored("*.txt", "sub/a.txt", false, "sub")).toBe(true);
+    expect(ignored("*.txt", "a.txt", false, "sub")).toBe(false);
+    expect(ignored("/data", "sub/data", true, "sub")).toBe(true);
+  });
+
+  test("returns the rule that excluded the path", () => {
+    const rules = [
+      ...parseIgnoreFile("dist/", "", "built-in defaults"),
+      ...parseIgnoreFile("*.bak", "", ".workpacketignore"),
+    ];
+    expect(findIgnoreRule(rules, "dist/a.md", false)!.source).toBe("built-in defaults: dist/");
+    expect(findIgnoreRule(rules, "old.bak", false)!.source).toBe(".workpacketignore: *.bak");
+    expect(findIgnoreRule(rules, "spec.md", false)).toBeUndefined();
+  });
+});
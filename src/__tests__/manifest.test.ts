@@ -0,0 +1,83 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { loadManifest } from "../manifest.js";
+
+let tempDir: string;
+
+function makeTempDir(): string {
+  tempDir = mkdtempSync(join(tmpdir(), "manifest-test-"));
+  return tempDir;
+}
+
+afterEach(() => {
+  if (tempDir) {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+describe("loadManifest", () => {
+  test("returns undefined when there is no manifest", () => {
+    expect(loadManifest(makeTempDir())).toBeUndefined();
+  });
+
+  test("loads a JSON manifest", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({ title: "Malloc Lab" }));
+
+    const loaded = loadManifest(dir)!;
+    expect(loaded.filename).toBe("workpacket.json");
+    expect(loaded.manifest).toEqual({ title: "Malloc Lab", files: [] });
+  });
+
+  test("loads a YAML manifest", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.yml"), "title: Shell Lab\nfiles:\n  - match: tsh.c\n    tag: code\n");
+
+    const loaded = loadManifest(dir)!;
+    expect(loaded.manifest.title).toBe("Shell Lab");
+    expect(loaded.lookup("tsh.c").tag).toBe("code");
+  });
+
+  test("throws on unparseable content", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), "{ title: ");
+    expect(() => loadManifest(dir)).toThrow(/Could not parse workpacket\.json/);
+  });
+
+  test("throws when more than one manifest is present", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), "{}");
+    writeFileSync(join(dir, "workpacket.yaml"), "title: x\n");
+    expect(() => loadManifest(dir)).toThrow(/Multiple manifests/);
+  });
+});
+
+describe("lookup", () => {
+  test("the last rule setting a field wins, independently per field", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [
+        { match: "*.md", tag: "notes", authoritative: true },
+        { match: "specs/", tag: "spec" },
+        { match: "specs/old.md", exclude: true },
+        { match: "specs/old.md", exclude: false },
+      ],
+    }));
+    const { lookup } = loadManifest(dir)!;
+
+    expect(lookup("readme.md")).toEqual({ tag: "notes", authoritative: true });
+    expect(lookup("specs/hw.md")).toEqual({ tag: "spec", authoritative: true });
+    expect(lookup("specs/old.md").excludedBy).toBeUndefined();
+    expect(lookup("main.c")).toEqual({ authoritative: false });
+  });
+
+  test("reports the rule that excluded a file", () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [{ match: "drafts/**", exclude: true }],
+    }));
+    expect(loadManifest(dir)!.lookup("drafts/a/b.md").excludedBy).toBe("workpacket.json: drafts/**");
+  });
+});
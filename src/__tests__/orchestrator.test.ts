@@ -441,6 +441,27 @@ describe("runPipeline", () => {
     expect(existsSync(join(outputDir, DB_FILENAME))).toBe(true);
   });
 
+  test("stages log to run.log under their own name", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "orch-test-"));
+    const outputDir = join(tempDir, "output");
+    const config = makeConfig(outputDir);
+
+    const stage: PipelineStage = {
+      name: "map_concepts",
+      outputFilename: "concepts.json",
+      outputSchema: z.object({ ok: z.boolean() }),
+      run: async (_input, ctx) => {
+        ctx.log?.("Context: 900 of 1000 tokens (90%) in 3 chunks");
+        return { ok: true };
+      },
+    };
+
+    await runPipeline(config, [stage]);
+
+    const log = readFileSync(join(outputDir, "run.log"), "utf-8");
+    expect(log).toContain("Stage 'map_concepts': Context: 900 of 1000 tokens (90%) in 3 chunks");
+  });
+
   test("storage is closed on pipeline completion", async () => {
     tempDir = mkdtempSync(join(tmpdir(), "orch-test-"));
     const outputDir = join(tempDir, "output");
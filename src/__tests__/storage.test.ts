@@ -1,10 +1,14 @@
 import { describe, test, expect, afterEach } from "bun:test";
-import { mkdtempSync, rmSync, existsSync } from "node:fs";
+import { mkdtempSync, rmSync, existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
+import { Database } from "bun:sqlite";
 import type { Chunk } from "../schemas/chunk.js";
 import type { FileTag } from "../schemas/file-tag.js";
-import { createStorage, openStorage, DB_FILENAME } from "../storage.js";
+import {
+  createStorage, openStorage, resolveTagWeights, formatTagWeights, DB_FILENAME, DEFAULT_TAG_WEIGHTS,
+} from "../storage.js";
+import { VECTORS_FILENAME } from "../vectors.js";
 
 let tempDir: string;
 
@@ -104,10 +108,10 @@ describe("retrieve — basic", () => {
   });
 });
 
-// ── retrieve — bias ──────────────────────────────────────────────
+// ── retrieve — tag weights ───────────────────────────────────────
 
-describe("retrieve — bias", () => {
-  test("bias boosts chunks from files with matching tag", () => {
+describe("retrieve — tag weights", () => {
+  test("a higher weight ranks a tag's chunks above an equally good match", () => {
     const dir = makeTempDir();
     const chunks = [
       makeChunk("c1", "notes.md", "introduction to algorithms"),
@@ -119,26 +123,173 @@ describe("retrieve — bias", () => {
     ]);
 
     const reader = createStorage(dir, chunks, tags);
+    const weighted = reader.retrieve({ query: "introduction", weights: { spec: 1.5, notes: 0.6 } });
+    reader.close();
+
+    expect(weighted.map((c) => c.file_id)).toEqual(["spec.md", "notes.md"]);
+  });
 
-    // With spec bias, the spec chunk should come first
-    const biased = reader.retrieve({ query: "introduction", bias: "spec" });
-    expect(biased.length).toBe(2);
-    expect(biased[0]!.file_id).toBe("spec.md");
+  test("a modest weight does not outrank a much better match", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("c1", "notes.md", "the heap allocator splits and coalesces heap blocks"),
+      makeChunk("c2", "spec.md", "submit your work before the deadline; see the heap section of the textbook for background", 10),
+    ];
+    const tags = makeFileTags([
+      ["notes.md", "notes"],
+      ["spec.md", "spec"],
+    ]);
+
+    const reader = createStorage(dir, chunks, tags);
+    const results = reader.retrieve({ query: "heap OR allocator", weights: { spec: 1.2 } });
+    reader.close();
+
+    expect(results.map((c) => c.chunk_id)).toEqual(["c1", "c2"]);
+  });
+
+  test("weight 0 sinks a tag to the bottom", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("c1", "main.c", "malloc malloc malloc"),
+      makeChunk("c2", "notes.md", "how malloc finds a free block in the list"),
+    ];
+    const tags = makeFileTags([
+      ["main.c", "code"],
+      ["notes.md", "notes"],
+    ]);
+
+    const reader = createStorage(dir, chunks, tags);
+    const results = reader.retrieve({ query: "malloc", weights: { code: 0 } });
+    reader.close();
+
+    expect(results.map((c) => c.chunk_id)).toEqual(["c2", "c1"]);
+  });
+
+  test("a chunk's own tag overrides its file's tag for weighting", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("c1", "notes.md", "grading policy"),
+      { ...makeChunk("c2", "course.zip", "grading policy details", 10), tag: "spec" as const },
+    ];
+    const tags = makeFileTags([
+      ["notes.md", "notes"],
+      ["course.zip", "other"],
+    ]);
 
+    const reader = createStorage(dir, chunks, tags);
+    const results = reader.retrieve({ query: "grading", weights: { spec: 2, other: 0 } });
     reader.close();
+
+    expect(results.map((c) => c.chunk_id)).toEqual(["c2", "c1"]);
   });
 
-  test("bias with no matching files still returns results", () => {
+  test("unlisted tags weigh 1.0", () => {
     const dir = makeTempDir();
     const chunks = [makeChunk("c1", "f1.md", "hello world")];
     const tags = makeFileTags([["f1.md", "notes"]]);
 
     const reader = createStorage(dir, chunks, tags);
-    const results = reader.retrieve({ query: "hello", bias: "spec" });
+    const results = reader.retrieve({ query: "hello", weights: { spec: 2 } });
     reader.close();
 
-    expect(results.length).toBe(1);
-    expect(results[0]!.chunk_id).toBe("c1");
+    expect(results.map((c) => c.chunk_id)).toEqual(["c1"]);
+  });
+});
+
+// ── retrieve — hybrid ────────────────────────────────────────────
+
+describe("retrieve — hybrid", () => {
+  /** Allocator slides that say "available blocks", never "free list", plus unrelated shell notes. */
+  function paraphraseCorpus(): { chunks: Chunk[]; tags: Map<string, FileTag> } {
+    const texts = [
+      "The allocator keeps a free list of available blocks.",
+      "Each free list entry points to the next available block.",
+      "Coalescing merges adjacent available blocks in the free list.",
+      "Available blocks are found by scanning the list.",
+      "The shell forks a child process and waits for it.",
+      "Signals interrupt the child process; the shell reaps zombies.",
+      "A pipeline connects processes with pipes in the shell.",
+    ];
+    const chunks = texts.map((text, i) => makeChunk(`n${i}`, "notes.md", text, i * 10 + 1));
+    chunks.push(makeChunk("s1", "slides.md", "Placement searches available blocks by first fit or best fit."));
+    return { chunks, tags: makeFileTags([["notes.md", "notes"], ["slides.md", "slides"]]) };
+  }
+
+  test("finds a paraphrase that keyword search misses", () => {
+    const dir = makeTempDir();
+    const { chunks, tags } = paraphraseCorpus();
+    const reader = createStorage(dir, chunks, tags);
+
+    const keyword = reader.retrieve({ query: "free" }).map((c) => c.chunk_id);
+    const hybrid = reader.retrieve({ query: "free", mode: "hybrid" }).map((c) => c.chunk_id);
+    reader.close();
+
+    expect(keyword).not.toContain("s1");
+    expect(hybrid).toContain("s1");
+    expect(hybrid).not.toContain("n4");
+  });
+
+  test("chunks found by both rankings come first", () => {
+    const dir = makeTempDir();
+    const { chunks, tags } = paraphraseCorpus();
+    const reader = createStorage(dir, chunks, tags);
+
+    const hybrid = reader.retrieve({ query: "free OR list", mode: "hybrid" }).map((c) => c.chunk_id);
+    reader.close();
+
+    expect(hybrid.slice(0, 3).sort()).toEqual(["n0", "n1", "n2"]);
+    expect(hybrid.indexOf("s1")).toBeGreaterThan(2);
+  });
+
+  test("tag weights scale the fused score", () => {
+    const dir = makeTempDir();
+    const { chunks, tags } = paraphraseCorpus();
+    const reader = createStorage(dir, chunks, tags);
+
+    const results = reader.retrieve({ query: "free", mode: "hybrid", weights: { slides: 10 } });
+    reader.close();
+
+    expect(results[0]!.chunk_id).toBe("s1");
+  });
+
+  test("falls back to keyword ranking without a vector index", () => {
+    const dir = makeTempDir();
+    const { chunks, tags } = paraphraseCorpus();
+    createStorage(dir, chunks, tags).close();
+    rmSync(join(dir, VECTORS_FILENAME));
+
+    const reader = openStorage(dir);
+    const hybrid = reader.retrieve({ query: "free", mode: "hybrid" }).map((c) => c.chunk_id);
+    const keyword = reader.retrieve({ query: "free" }).map((c) => c.chunk_id);
+    reader.close();
+
+    expect(hybrid).toEqual(keyword);
+  });
+
+  test("the vector index is rebuilt only when the chunks change", () => {
+    const dir = makeTempDir();
+    const { chunks, tags } = paraphraseCorpus();
+    const vectorsPath = join(dir, VECTORS_FILENAME);
+    createStorage(dir, chunks, tags).close();
+    writeFileSync(vectorsPath, Buffer.concat([readFileSync(vectorsPath), Buffer.from("marker")]));
+
+    createStorage(dir, chunks, tags).close();
+    expect(readFileSync(vectorsPath).subarray(-6).toString()).toBe("marker");
+
+    createStorage(dir, chunks.slice(1), tags).close();
+    expect(readFileSync(vectorsPath).subarray(-6).toString()).not.toBe("marker");
+  });
+});
+
+describe("resolveTagWeights", () => {
+  test("applies overrides on top of the defaults", () => {
+    const weights = resolveTagWeights({ code: 0, slides: 1 });
+    expect(weights).toEqual({ ...DEFAULT_TAG_WEIGHTS, code: 0, slides: 1 });
+    expect(resolveTagWeights()).toEqual(DEFAULT_TAG_WEIGHTS);
+  });
+
+  test("formatTagWeights lists tag and weight pairs", () => {
+    expect(formatTagWeights({ spec: 1, clarification: 1.5 })).toBe("spec 1, clarification 1.5");
   });
 });
 
@@ -172,6 +323,228 @@ describe("retrieve — limit", () => {
   });
 });
 
+// ── retrieve — neighbors ─────────────────────────────────────────
+
+describe("retrieve — neighbors", () => {
+  /** Consecutive sections of one file at lines 1-10, 11-20, ... */
+  function sections(fileId: string, texts: string[]): Chunk[] {
+    return texts.map((text, i) => ({
+      ...makeChunk(`${fileId}#${i}`, fileId, text, i * 10 + 1),
+      source_ref: { file_id: fileId, section: `Part ${i}`, line_start: i * 10 + 1, line_end: i * 10 + 10 },
+    }));
+  }
+
+  test("merges a match with the chunks around it into one block", () => {
+    const dir = makeTempDir();
+    const chunks = sections("spec.md", ["Intro", "## Heap checker", "- walk every block", "- check coalescing", "Outro"]);
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"]]));
+
+    const results = reader.retrieve({ query: "checker", neighbors: 1 });
+    reader.close();
+
+    expect(results).toEqual([{
+      chunk_id: "spec.md#1",
+      file_id: "spec.md",
+      text: "Intro\n\n## Heap checker\n\n- walk every block",
+      source_ref: { file_id: "spec.md", section: "Part 0", line_start: 1, line_end: 30 },
+    }]);
+  });
+
+  test("matches with touching ranges share one block at the better rank", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      ...sections("spec.md", ["alpha", "beta", "gamma", "delta", "epsilon", "zeta", "eta"]),
+      ...sections("notes.md", ["beta beta beta"]),
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"], ["notes.md", "notes"]]));
+
+    const results = reader.retrieve({ query: "beta OR delta OR eta", neighbors: 1 });
+    reader.close();
+
+    // delta (rows 2-4) is the rarest term and ranks first; beta's range
+    // (rows 0-2) and eta's (rows 5-6) touch it, so all three are one block
+    expect(results.map((c) => c.chunk_id)).toEqual(["spec.md#3", "notes.md#0"]);
+    expect(results[0]!.source_ref).toMatchObject({ line_start: 1, line_end: 70 });
+  });
+
+  test("never crosses into another file", () => {
+    const dir = makeTempDir();
+    const chunks = [...sections("a.md", ["one", "two"]), ...sections("b.md", ["target", "three"])];
+    const reader = createStorage(dir, chunks, makeFileTags([["a.md", "notes"], ["b.md", "notes"]]));
+
+    const results = reader.retrieve({ query: "target", neighbors: 2 });
+    reader.close();
+
+    expect(results.map((c) => c.text)).toEqual(["target\n\nthree"]);
+  });
+
+  test("text shared by overlapping pieces appears once", () => {
+    const dir = makeTempDir();
+    const chunks: Chunk[] = [
+      { ...makeChunk("p1", "spec.md", "Line one.\nLine two.\nLine three."), source_ref: { file_id: "spec.md", line_start: 1, line_end: 3 } },
+      { ...makeChunk("p2", "spec.md", "Line three.\nLine four about malloc."), source_ref: { file_id: "spec.md", line_start: 3, line_end: 4 } },
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"]]));
+
+    const results = reader.retrieve({ query: "malloc", neighbors: 1 });
+    reader.close();
+
+    expect(results[0]!.text).toBe("Line one.\nLine two.\nLine three.\nLine four about malloc.");
+    expect(results[0]!.source_ref).toMatchObject({ line_start: 1, line_end: 4 });
+  });
+
+  test("keeps kind only when every member shares it", () => {
+    const dir = makeTempDir();
+    const chunks: Chunk[] = [
+      { ...sections("spec.md", ["| a | b |"])[0]!, kind: "table" },
+      { ...sections("spec.md", ["", "rubric points"])[1]!, kind: "prose" },
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"]]));
+
+    const [alone] = reader.retrieve({ query: "rubric" });
+    const [block] = reader.retrieve({ query: "rubric", neighbors: 1 });
+    reader.close();
+
+    expect(alone!.kind).toBe("prose");
+    expect(block!.kind).toBeUndefined();
+  });
+
+  test("keeps the matched post's author, role and date", () => {
+    const dir = makeTempDir();
+    const [question, answer, followUp] = sections("forum.md", ["When is it due?", "The deadline is Friday.", "Thanks!"]);
+    const chunks: Chunk[] = [
+      { ...question!, post: { author: "Sam", role: "student" } },
+      { ...answer!, post: { author: "Prof", role: "instructor", date: "2024-02-04" } },
+      { ...followUp!, post: { author: "Sam", role: "student" } },
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["forum.md", "clarification"]]));
+
+    const [block] = reader.retrieve({ query: "deadline", neighbors: 1 });
+    reader.close();
+
+    expect(block!.text).toBe("When is it due?\n\nThe deadline is Friday.\n\nThanks!");
+    expect(block!.post).toEqual({ author: "Prof", role: "instructor", date: "2024-02-04" });
+  });
+
+  test("takes the first member's post when the match has none", () => {
+    const dir = makeTempDir();
+    const [intro, answer] = sections("forum.md", ["Deadline thread", "The deadline is Friday."]);
+    const chunks: Chunk[] = [intro!, { ...answer!, post: { author: "Kim", role: "ta" } }];
+    const reader = createStorage(dir, chunks, makeFileTags([["forum.md", "clarification"]]));
+
+    const [block] = reader.retrieve({ query: "thread", neighbors: 1 });
+    reader.close();
+
+    expect(block!.chunk_id).toBe("forum.md#0");
+    expect(block!.post).toEqual({ author: "Kim", role: "ta" });
+  });
+});
+
+// ── retrieve — diversity ─────────────────────────────────────────
+
+describe("retrieve — diversity", () => {
+  function inSection(chunk: Chunk, section: string): Chunk {
+    return { ...chunk, source_ref: { ...chunk.source_ref, section } };
+  }
+
+  test("max_per_file leaves room for other files", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      ...[1, 2, 3, 4].map((i) => makeChunk(`spec${i}`, "spec.md", `heap heap heap part ${i}`, i * 10)),
+      makeChunk("slide1", "slides.pdf", "heap overview"),
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"], ["slides.pdf", "slides"]]));
+
+    const plain = reader.retrieve({ query: "heap", limit: 3 });
+    const capped = reader.retrieve({ query: "heap", limit: 3, diversity: { max_per_file: 2 } });
+    reader.close();
+
+    expect(plain.every((c) => c.file_id === "spec.md")).toBe(true);
+    expect(capped.filter((c) => c.file_id === "spec.md").length).toBe(2);
+    expect(capped.map((c) => c.chunk_id)).toContain("slide1");
+  });
+
+  test("max_per_section caps chunks from one section", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      inSection(makeChunk("a1", "spec.md", "malloc malloc details one", 1), "Allocator"),
+      inSection(makeChunk("a2", "spec.md", "malloc malloc details two", 10), "Allocator"),
+      inSection(makeChunk("a3", "spec.md", "malloc malloc details three", 20), "Allocator"),
+      inSection(makeChunk("b1", "spec.md", "malloc in the grading section", 30), "Grading"),
+    ];
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"]]));
+
+    const results = reader.retrieve({ query: "malloc", diversity: { max_per_section: 1 } });
+    reader.close();
+
+    expect(results.length).toBe(2);
+    expect(results.filter((c) => c.source_ref.section === "Allocator").length).toBe(1);
+    expect(results.map((c) => c.chunk_id)).toContain("b1");
+  });
+
+  test("a lower lambda moves a near-duplicate below a distinct chunk", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("first", "spec.md", "coalesce coalesce free blocks after every call", 1),
+      makeChunk("copy", "notes.md", "coalesce coalesce free blocks after each call"),
+      makeChunk("other", "slides.pdf", "coalesce adjacent neighbours using boundary tags"),
+    ];
+    const tags = makeFileTags([["spec.md", "spec"], ["notes.md", "spec"], ["slides.pdf", "spec"]]);
+    const reader = createStorage(dir, chunks, tags);
+
+    const relevant = reader.retrieve({ query: "coalesce", diversity: { lambda: 1 } });
+    const varied = reader.retrieve({ query: "coalesce", diversity: { lambda: 0.3 } });
+    reader.close();
+
+    expect(relevant.map((c) => c.chunk_id)).toEqual(["first", "copy", "other"]);
+    expect(varied.map((c) => c.chunk_id)).toEqual(["first", "other", "copy"]);
+  });
+
+  test("lambda 1 without caps keeps the relevance order", () => {
+    const dir = makeTempDir();
+    const chunks = [1, 2, 3].map((i) => makeChunk(`c${i}`, "spec.md", `${"stack ".repeat(4 - i)}frame ${i}`, i * 10));
+    const reader = createStorage(dir, chunks, makeFileTags([["spec.md", "spec"]]));
+
+    const plain = reader.retrieve({ query: "stack" });
+    const neutral = reader.retrieve({ query: "stack", diversity: { lambda: 1 } });
+    reader.close();
+
+    expect(neutral.map((c) => c.chunk_id)).toEqual(plain.map((c) => c.chunk_id));
+  });
+});
+
+// ── retrieve — token budget ──────────────────────────────────────
+
+describe("retrieve — token budget", () => {
+  test("packs the best matches into maxTokens", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("best", "f1.md", `heap heap heap ${"x".repeat(380)}`),
+      makeChunk("long", "f1.md", `heap heap ${"x".repeat(2000)}`, 20),
+      makeChunk("short", "f1.md", `heap ${"x".repeat(180)}`, 40),
+    ];
+    const tags = makeFileTags([["f1.md", "spec"]]);
+
+    const reader = createStorage(dir, chunks, tags);
+    const results = reader.retrieve({ query: "heap", maxTokens: 200 });
+    reader.close();
+
+    // "long" ranks second but does not fit; "short" still does
+    expect(results.map((c) => c.chunk_id)).toEqual(["best", "short"]);
+  });
+
+  test("considers more candidates than the default limit when only a budget is given", () => {
+    const dir = makeTempDir();
+    const chunks = Array.from({ length: 30 }, (_, i) => makeChunk(`c${i}`, "f1.md", `topic ${i}`, i * 10 + 1));
+    const tags = makeFileTags([["f1.md", "spec"]]);
+
+    const reader = createStorage(dir, chunks, tags);
+    expect(reader.retrieve({ query: "topic", maxTokens: 10_000 }).length).toBe(30);
+    expect(reader.retrieve({ query: "topic", maxTokens: 10_000, limit: 5 }).length).toBe(5);
+    reader.close();
+  });
+});
+
 // ── retrieve — empty/no match ────────────────────────────────────
 
 describe("retrieve — edge cases", () => {
@@ -346,6 +719,67 @@ describe("retrieveByTag", () => {
     expect(results.length).toBe(1);
     expect(results[0]!.chunk_id).toBe("c2");
   });
+
+  test("returns chunks from authoritative files first", () => {
+    const dir = makeTempDir();
+    const chunks = [
+      makeChunk("c1", "spec-old.md", "old spec"),
+      makeChunk("c2", "hw3.md", "current spec", 10),
+    ];
+    const tags = makeFileTags([
+      ["spec-old.md", "spec"],
+      ["hw3.md", "spec"],
+    ]);
+
+    const reader = createStorage(dir, chunks, tags, new Set(["hw3.md"]));
+    const results = reader.retrieveByTag("spec");
+    const authoritative = reader.authoritativeFiles();
+    reader.close();
+
+    expect(results.map((r) => r.chunk_id)).toEqual(["c2", "c1"]);
+    expect([...authoritative]).toEqual(["hw3.md"]);
+  });
+
+  test("chunk-level tag overrides the file tag", () => {
+    const dir = makeTempDir();
+    const chunks: Chunk[] = [
+      makeChunk("c1", "hw.ipynb", "implement the loader"),
+      { ...makeChunk("c2", "hw.ipynb", "def load(): pass", 10), tag: "code" },
+    ];
+    const tags = makeFileTags([["hw.ipynb", "spec"]]);
+
+    const reader = createStorage(dir, chunks, tags);
+    const specs = reader.retrieveByTag("spec");
+    const code = reader.retrieveByTag("code");
+    reader.close();
+
+    expect(specs.map((r) => r.chunk_id)).toEqual(["c1"]);
+    expect(code.map((r) => r.chunk_id)).toEqual(["c2"]);
+    expect(code[0]!.tag).toBe("code");
+  });
+});
+
+describe("retrieveByTag — kind", () => {
+  test("filters by chunk kind and round-trips the language", () => {
+    const dir = makeTempDir();
+    const reader = createStorage(
+      dir,
+      [
+        { ...makeChunk("c1", "spec.md", "Submit by Friday"), kind: "prose" },
+        { ...makeChunk("c2", "spec.md", "| Tests | 50 |", 10), kind: "table" },
+        { ...makeChunk("c3", "spec.md", "void mm_free(void *ptr);", 20), kind: "code", language: "c" },
+        makeChunk("c4", "old.md", "| Style | 10 |"),
+      ],
+      makeFileTags([["spec.md", "spec"], ["old.md", "spec"]]),
+    );
+
+    expect(reader.retrieveByTag("spec", 10, "table").map((c) => c.chunk_id)).toEqual(["c2"]);
+    expect(reader.retrieveByTag("spec", 10, "code")).toEqual([
+      { ...makeChunk("c3", "spec.md", "void mm_free(void *ptr);", 20), kind: "code", language: "c" },
+    ]);
+    expect(reader.retrieveByTag("spec", 10).length).toBe(4);
+    reader.close();
+  });
 });
 
 // ── round-trip ───────────────────────────────────────────────────
@@ -398,6 +832,35 @@ describe("round-trip", () => {
     expect(results[0]!.source_ref).toEqual({ file_id: "slides.md", page: 3 });
   });
 
+  test("merged duplicate locations survive round-trip", () => {
+    const dir = makeTempDir();
+    const original: Chunk = {
+      ...makeChunk("c1", "README.md", "heap allocator spec"),
+      duplicates: [{ file_id: "spec.txt", line_start: 1, line_end: 4 }],
+    };
+    const tags = makeFileTags([["README.md", "spec"], ["spec.txt", "spec"]]);
+
+    const reader = createStorage(dir, [original], tags);
+    const results = reader.retrieve({ query: "allocator" });
+    reader.close();
+
+    expect(results[0]!.duplicates).toEqual([{ file_id: "spec.txt", line_start: 1, line_end: 4 }]);
+  });
+
+  test("forum post metadata survives round-trip", () => {
+    const dir = makeTempDir();
+    const post = { author: "Prof. Lee", role: "instructor" as const, date: "2024-02-04" };
+    const reader = createStorage(
+      dir,
+      [{ ...makeChunk("c1", "forum.json", "Yes, realloc is allowed."), post }],
+      makeFileTags([["forum.json", "clarification"]]),
+    );
+    const results = reader.retrieveByTag("clarification");
+    reader.close();
+
+    expect(results[0]!.post).toEqual(post);
+  });
+
   test("multiple chunks from multiple files round-trip correctly", () => {
     const dir = makeTempDir();
     const chunks: Chunk[] = [
@@ -420,3 +883,126 @@ describe("round-trip", () => {
     expect(ids).toContain("c3");
   });
 });
+
+// ── incremental sync ─────────────────────────────────────────────
+
+describe("createStorage — existing database", () => {
+  const fingerprint = { sha256: "a".repeat(64), mtime_ms: 1000, size: 42, chunk_count: 1 };
+
+  test("re-indexes changed files and drops removed ones", () => {
+    const dir = makeTempDir();
+    const first = createStorage(
+      dir,
+      [
+        makeChunk("a1", "a.md", "stack frames and calling conventions"),
+        makeChunk("b1", "b.md", "virtual memory paging"),
+        makeChunk("c1", "c.md", "obsolete topic: floppy disks"),
+      ],
+      makeFileTags([["a.md", "spec"], ["b.md", "slides"], ["c.md", "slides"]]),
+    );
+    first.close();
+
+    const reader = createStorage(
+      dir,
+      [
+        makeChunk("a1", "a.md", "stack frames and calling conventions"),
+        makeChunk("b1", "b.md", "virtual memory with translation lookaside buffers"),
+      ],
+      makeFileTags([["a.md", "spec"], ["b.md", "slides"]]),
+    );
+    expect(reader.retrieve({ query: "paging" })).toEqual([]);
+    expect(reader.retrieve({ query: "lookaside" }).map((c) => c.chunk_id)).toEqual(["b1"]);
+    expect(reader.retrieve({ query: "floppy" })).toEqual([]);
+    expect(reader.retrieve({ query: "stack" }).map((c) => c.chunk_id)).toEqual(["a1"]);
+    reader.close();
+
+    const db = new Database(join(dir, DB_FILENAME));
+    // Throws if the FTS index no longer matches the chunks table
+    db.run("INSERT INTO chunks_fts(chunks_fts) VALUES ('integrity-check')");
+    const files = db.query("SELECT file_id FROM files ORDER BY file_id").all() as { file_id: string }[];
+    db.close();
+    expect(files.map((f) => f.file_id)).toEqual(["a.md", "b.md"]);
+  });
+
+  test("keeps unchanged files' rows and re-inserts a changed file's chunks in ingest order", () => {
+    const dir = makeTempDir();
+    const tags = makeFileTags([["a.md", "spec"], ["b.md", "spec"]]);
+    createStorage(dir, [
+      makeChunk("a1", "a.md", "part one"),
+      makeChunk("a2", "a.md", "part two", 10),
+      makeChunk("b1", "b.md", "other file"),
+    ], tags).close();
+
+    const reader = createStorage(dir, [
+      makeChunk("a1", "a.md", "part one revised"),
+      makeChunk("a2", "a.md", "part two", 10),
+      makeChunk("a3", "a.md", "part three", 20),
+      makeChunk("b1", "b.md", "other file"),
+    ], tags);
+    // b.md's row is kept but moved after a.md's new chunk
+    expect(reader.retrieveByTag("spec").map((c) => c.chunk_id)).toEqual(["a1", "a2", "a3", "b1"]);
+    reader.close();
+  });
+
+  test("returns the same results as a fresh build after a file changes", () => {
+    const tags = makeFileTags([["a.md", "slides"], ["b.md", "slides"]]);
+    const before = [
+      makeChunk("a1", "a.md", "paging basics"),
+      makeChunk("b1", "b.md", "paging basics"),
+      makeChunk("b2", "b.md", "page tables", 10),
+    ];
+    const after = [
+      makeChunk("a1", "a.md", "paging basics, revised"),
+      makeChunk("a2", "a.md", "page faults", 10),
+      makeChunk("b1", "b.md", "paging basics"),
+      makeChunk("b2", "b.md", "page tables", 10),
+    ];
+    const incrementalDir = makeTempDir();
+    createStorage(incrementalDir, before, tags).close();
+    const incremental = createStorage(incrementalDir, after, tags);
+    const fresh = createStorage(makeTempDir(), after, tags);
+
+    for (const reader of [incremental, fresh]) {
+      expect(reader.retrieveByTag("slides").map((c) => c.chunk_id)).toEqual(["a1", "a2", "b1", "b2"]);
+    }
+    for (const options of [{ query: "paging" }, { query: "paging", neighbors: 1 }]) {
+      expect(incremental.retrieve(options)).toEqual(fresh.retrieve(options));
+    }
+    incremental.close();
+    fresh.close();
+  });
+
+  test("stores file fingerprints and updates tags", () => {
+    const dir = makeTempDir();
+    const chunks = [makeChunk("a1", "a.md", "hello world")];
+    createStorage(dir, chunks, makeFileTags([["a.md", "slides"]])).close();
+
+    const reader = createStorage(
+      dir,
+      chunks,
+      makeFileTags([["a.md", "spec"]]),
+      new Set(["a.md"]),
+      new Map([["a.md", fingerprint]]),
+    );
+    expect(reader.retrieveByTag("spec").map((c) => c.chunk_id)).toEqual(["a1"]);
+    expect(reader.authoritativeFiles()).toEqual(new Set(["a.md"]));
+    reader.close();
+
+    const db = new Database(join(dir, DB_FILENAME));
+    const row = db.query("SELECT sha256, mtime_ms, size FROM files").get();
+    db.close();
+    expect(row).toEqual({ sha256: fingerprint.sha256, mtime_ms: 1000, size: 42 });
+  });
+
+  test("rebuilds a database with an older table layout", () => {
+    const dir = makeTempDir();
+    const db = new Database(join(dir, DB_FILENAME));
+    db.run("CREATE TABLE files (file_id TEXT PRIMARY KEY, tag TEXT NOT NULL)");
+    db.run("CREATE TABLE chunks (chunk_id TEXT PRIMARY KEY, file_id TEXT NOT NULL, text TEXT NOT NULL)");
+    db.close();
+
+    const reader = createStorage(dir, [makeChunk("c1", "a.md", "hello world")], makeFileTags([["a.md", "spec"]]));
+    expect(reader.retrieve({ query: "hello" }).map((c) => c.chunk_id)).toEqual(["c1"]);
+    reader.close();
+  });
+});
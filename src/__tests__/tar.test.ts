@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test";
+import { gzipSync } from "node:zlib";
+import { openTar } from "../tar.js";
+
+/** Build one 512-byte ustar header with a valid checksum. */
+function tarHeader(name: string, size: number, type = "0", prefix = ""): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, "utf-8");
+  header.write("0000644\0", 100, "ascii");
+  header.write(`${size.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+  header.write(type, 156, "ascii");
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+  header.write(prefix, 345, 155, "utf-8");
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+  return header;
+}
+
+function tarEntry(name: string, content: string, type = "0", prefix = ""): Buffer {
+  const body = Buffer.from(content, "utf-8");
+  const padding = Buffer.alloc((512 - (body.length % 512)) % 512);
+  return Buffer.concat([tarHeader(name, body.length, type, prefix), body, padding]);
+}
+
+/** Build a tar archive in memory from regular-file entries. */
+function makeTar(entries: Record<string, string>): Buffer {
+  const blocks = Object.entries(entries).map(([name, content]) => tarEntry(name, content));
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+describe("openTar", () => {
+  test("lists regular files in archive order", () => {
+    const tar = openTar(makeTar({ "b.txt": "B", "a/c.txt": "C" }));
+    expect(tar.entries).toEqual(["b.txt", "a/c.txt"]);
+    expect(tar.read("a/c.txt")?.toString("utf-8")).toBe("C");
+  });
+
+  test("reads gzip-compressed archives", () => {
+    const tar = openTar(gzipSync(makeTar({ "src/main.c": "int main(void) { return 0; }" })));
+    expect(tar.read("src/main.c")?.toString("utf-8")).toBe("int main(void) { return 0; }");
+  });
+
+  test("skips directory entries and strips a leading ./", () => {
+    const data = Buffer.concat([
+      tarEntry("./src/", "", "5"),
+      tarEntry("./src/main.c", "x"),
+      Buffer.alloc(1024),
+    ]);
+    expect(openTar(data).entries).toEqual(["src/main.c"]);
+  });
+
+  test("joins the ustar prefix field onto the name", () => {
+    const data = Buffer.concat([tarEntry("main.c", "x", "0", "deep/path"), Buffer.alloc(1024)]);
+    expect(openTar(data).entries).toEqual(["deep/path/main.c"]);
+  });
+
+  test("uses GNU long names and pax paths", () => {
+    const long = `${"d/".repeat(60)}file.md`;
+    const record = ` path=pax/name.md\n`;
+    const paxRecord = `${record.length + String(record.length + 2).length}${record}`;
+    const data = Buffer.concat([
+      tarEntry("././@LongLink", `${long}\0`, "L"),
+      tarEntry("truncated", "long"),
+      tarEntry("PaxHeader", paxRecord, "x"),
+      tarEntry("short", "pax"),
+      Buffer.alloc(1024),
+    ]);
+    const tar = openTar(data);
+    expect(tar.entries).toEqual([long, "pax/name.md"]);
+    expect(tar.read("pax/name.md")?.toString("utf-8")).toBe("pax");
+  });
+
+  test("returns undefined for missing entries", () => {
+    expect(openTar(makeTar({ "a.txt": "A" })).read("missing.txt")).toBeUndefined();
+  });
+
+  test("stops gunzipping past maxBytes", () => {
+    const data = gzipSync(makeTar({ "big.txt": "x".repeat(100_000) }));
+    expect(openTar(data, 200_000).size("big.txt")).toBe(100_000);
+    expect(() => openTar(data, 10_000)).toThrow(expect.objectContaining({ code: "ERR_BUFFER_TOO_LARGE" }));
+  });
+
+  test("throws on data that is not a tar archive", () => {
+    expect(() => openTar(Buffer.alloc(1024, 0x41))).toThrow(/Not a tar archive/);
+    expect(() => openTar(Buffer.from("short"))).toThrow(/Not a tar archive/);
+  });
+
+  test("throws on a truncated entry", () => {
+    const data = tarEntry("a.txt", "x".repeat(600)).subarray(0, 700);
+    expect(() => openTar(data)).toThrow(/Corrupt tar archive/);
+  });
+});
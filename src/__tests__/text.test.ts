@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test";
+import { decodeText, normalizeText, sniffBinary } from "../text.js";
+
+describe("decodeText", () => {
+  test("decodes plain UTF-8", () => {
+    expect(decodeText(Buffer.from("naïve café", "utf-8"))).toEqual({ text: "naïve café", encoding: "utf-8" });
+  });
+
+  test("strips a UTF-8 byte-order mark", () => {
+    const data = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("# Spec", "utf-8")]);
+    expect(decodeText(data).text).toBe("# Spec");
+  });
+
+  test("decodes UTF-16 with and without a BOM", () => {
+    const le = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("Due Friday", "utf16le")]);
+    expect(decodeText(le)).toEqual({ text: "Due Friday", encoding: "utf-16le" });
+
+    const be = Buffer.from("Due Friday", "utf16le").swap16();
+    expect(decodeText(be)).toEqual({ text: "Due Friday", encoding: "utf-16be" });
+  });
+
+  test("falls back to Windows-1252 for invalid UTF-8", () => {
+    const data = Buffer.from([0x93, 0x63, 0x61, 0x66, 0xe9, 0x94]); // “café” in Windows-1252
+    expect(decodeText(data)).toEqual({ text: "“café”", encoding: "windows-1252" });
+  });
+});
+
+describe("sniffBinary", () => {
+  test("accepts text, including UTF-16", () => {
+    expect(sniffBinary(Buffer.from("line one\n\tline two\r\n", "utf-8"))).toBeUndefined();
+    expect(sniffBinary(Buffer.from("UTF-16 text", "utf16le"))).toBeUndefined();
+    expect(sniffBinary(Buffer.alloc(0))).toBeUndefined();
+  });
+
+  test("recognizes binary signatures", () => {
+    expect(sniffBinary(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]))).toBe("PNG image signature");
+    expect(sniffBinary(Buffer.from("%PDF-1.7\n", "latin1"))).toBe("PDF document signature");
+  });
+
+  test("rejects NUL bytes and control-character noise", () => {
+    expect(sniffBinary(Buffer.from([0x41, 0x42, 0x00, 0x43, 0x44, 0x45, 0x46, 0x47]))).toBe("contains NUL bytes");
+    expect(sniffBinary(Buffer.from([0x41, 0x01, 0x02, 0x03, 0x42, 0x43]))).toBe("50% control characters");
+  });
+});
+
+describe("normalizeText", () => {
+  test("expands ligatures and straightens smart quotes", () => {
+    expect(normalizeText("the ﬁrst “eﬃcient” solution’s")).toBe('the first "efficient" solution\'s');
+  });
+
+  test("removes soft hyphens and zero-width spaces", () => {
+    expect(normalizeText("allo\u00ADcator\u200B")).toBe("allocator");
+  });
+
+  test("composes to NFC and makes non-breaking spaces plain", () => {
+    expect(normalizeText("cafe\u0301\u00A0bar")).toBe("caf\u00E9 bar");
+  });
+
+  test("keeps line structure, converting CRLF to LF", () => {
+    expect(normalizeText("a\r\nb\n\nc")).toBe("a\nb\n\nc");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, test, expect } from "bun:test";
+import { estimateTokens, formatBudgetUse, packToBudget } from "../tokens.js";
+import type { Chunk } from "../schemas/chunk.js";
+
+function chunk(id: string, text: string): Chunk {
+  return { chunk_id: id, file_id: "spec.md", text, source_ref: { file_id: "spec.md", line_start: 1 } };
+}
+
+describe("estimateTokens", () => {
+  test("counts about four characters per token of prose", () => {
+    expect(estimateTokens("Implement malloc, free and realloc for the heap.")).toBe(12);
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  test("counts each word and symbol run when that is higher", () => {
+    // 7 characters, but six word and symbol pieces: a [ i ]= b ;
+    expect(estimateTokens("a[i]=b;")).toBe(6);
+    expect(estimateTokens("| a | b |")).toBe(5);
+  });
+});
+
+describe("packToBudget", () => {
+  test("keeps chunks in order until the budget is spent", () => {
+    const chunks = [chunk("a", "x".repeat(40)), chunk("b", "x".repeat(40)), chunk("c", "x".repeat(40))];
+    const packed = packToBudget(chunks, 25);
+    expect(packed.chunks.map((c) => c.chunk_id)).toEqual(["a", "b"]);
+    expect(packed.tokens).toBe(20);
+  });
+
+  test("skips a chunk that does not fit and tries the next", () => {
+    const chunks = [chunk("a", "x".repeat(40)), chunk("big", "x".repeat(400)), chunk("c", "x".repeat(20))];
+    expect(packToBudget(chunks, 20).chunks.map((c) => c.chunk_id)).toEqual(["a", "c"]);
+  });
+});
+
+describe("formatBudgetUse", () => {
+  test("reports tokens used, the budget and the chunk count", () => {
+    const chunks = [chunk("a", "x".repeat(400)), chunk("b", "x".repeat(420))];
+    expect(formatBudgetUse(chunks, 1000)).toBe("205 of 1000 tokens (21%) in 2 chunks");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  buildVectorIndex,
+  corpusFingerprint,
+  loadVectorIndex,
+  saveVectorIndex,
+  searchVectorIndex,
+} from "../vectors.js";
+
+let tempDir: string | undefined;
+
+afterEach(() => {
+  if (tempDir) {
+    rmSync(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+  }
+});
+
+/** Two topics; the last allocator chunk never says "free" or "list". */
+const CORPUS = [
+  "The allocator keeps a free list of available blocks.",
+  "Each free list entry points to the next available block.",
+  "Coalescing merges adjacent available blocks in the free list.",
+  "Available blocks are found by scanning the list.",
+  "The shell forks a child process and waits for it.",
+  "Signals interrupt the child process; the shell reaps zombies.",
+  "A pipeline connects processes with pipes in the shell.",
+  "Placement searches available blocks by first fit or best fit.",
+].map((text, i) => ({ chunk_id: `c${i}`, text }));
+
+describe("buildVectorIndex", () => {
+  test("finds chunks that paraphrase the query without sharing its words", () => {
+    const index = buildVectorIndex(CORPUS);
+    const results = searchVectorIndex(index, "free", 10);
+    expect(results).toContain("c7");
+    expect(results).not.toContain("c4");
+  });
+
+  test("ranks chunks on the query's topic first", () => {
+    const index = buildVectorIndex(CORPUS);
+    const results = searchVectorIndex(index, "shell child processes", 3);
+    expect([...results].sort()).toEqual(["c4", "c5", "c6"]);
+  });
+
+  test("returns nothing for a query with no indexed terms", () => {
+    const index = buildVectorIndex(CORPUS);
+    expect(searchVectorIndex(index, "xylophone", 10)).toEqual([]);
+  });
+
+  test("builds an empty index when no term appears in two chunks", () => {
+    const index = buildVectorIndex([{ chunk_id: "a", text: "hello world" }]);
+    expect(index.dims).toBe(0);
+    expect(searchVectorIndex(index, "hello", 10)).toEqual([]);
+  });
+
+  test("is deterministic for the same chunks", () => {
+    const a = buildVectorIndex(CORPUS);
+    const b = buildVectorIndex(CORPUS);
+    expect(a.fingerprint).toBe(b.fingerprint);
+    expect([...a.vectors]).toEqual([...b.vectors]);
+  });
+});
+
+describe("corpusFingerprint", () => {
+  test("changes when a chunk's text changes", () => {
+    const edited = CORPUS.map((c) => (c.chunk_id === "c3" ? { ...c, text: "Edited." } : c));
+    expect(corpusFingerprint(edited)).not.toBe(corpusFingerprint(CORPUS));
+  });
+});
+
+describe("saveVectorIndex / loadVectorIndex", () => {
+  test("round-trips an index", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "vectors-test-"));
+    const path = join(tempDir, "vectors.bin");
+    const index = buildVectorIndex(CORPUS);
+    saveVectorIndex(path, index);
+
+    const loaded = loadVectorIndex(path)!;
+    expect(loaded.fingerprint).toBe(index.fingerprint);
+    expect(loaded.terms).toEqual(index.terms);
+    expect(searchVectorIndex(loaded, "free", 10)).toEqual(searchVectorIndex(index, "free", 10));
+  });
+
+  test("returns undefined for a missing or corrupt file", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "vectors-test-"));
+    expect(loadVectorIndex(join(tempDir, "missing.bin"))).toBeUndefined();
+
+    const path = join(tempDir, "vectors.bin");
+    saveVectorIndex(path, buildVectorIndex(CORPUS));
+    writeFileSync(path, readFileSync(path).subarray(0, 40));
+    expect(loadVectorIndex(path)).toBeUndefined();
+  });
+});
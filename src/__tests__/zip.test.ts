@@ -0,0 +1,110 @@
+import { describe, test, expect } from "bun:test";
+import { deflateRawSync } from "node:zlib";
+import { openZip } from "../zip.js";
+
+/**
+ * Build a ZIP archive in memory. Entries are deflated unless `store` is set.
+ */
+function makeZip(
+  entries: Record<string, string | Buffer>,
+  options: { store?: boolean; comment?: string } = {},
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, "utf-8");
+    const data = options.store ? raw : deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, "utf-8");
+    const crc = Bun.hash.crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(options.store ? 0 : 8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(options.store ? 0 : 8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const comment = Buffer.from(options.comment ?? "", "utf-8");
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(entries).length, 8);
+  eocd.writeUInt16LE(Object.keys(entries).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  eocd.writeUInt16LE(comment.length, 20);
+
+  return Buffer.concat([...locals, directory, eocd, comment]);
+}
+
+describe("openZip", () => {
+  test("lists entries in central-directory order", () => {
+    const zip = openZip(makeZip({ "b.txt": "B", "a/c.txt": "C" }));
+    expect(zip.entries).toEqual(["b.txt", "a/c.txt"]);
+  });
+
+  test("reads deflated entries", () => {
+    const zip = openZip(makeZip({ "doc.xml": "<root>hello</root>" }));
+    expect(zip.read("doc.xml")?.toString("utf-8")).toBe("<root>hello</root>");
+  });
+
+  test("reads stored entries", () => {
+    const zip = openZip(makeZip({ "doc.txt": "plain" }, { store: true }));
+    expect(zip.read("doc.txt")?.toString("utf-8")).toBe("plain");
+  });
+
+  test("excludes directory entries", () => {
+    const zip = openZip(makeZip({ "dir/": "", "dir/file.txt": "x" }, { store: true }));
+    expect(zip.entries).toEqual(["dir/file.txt"]);
+  });
+
+  test("returns undefined for missing entries", () => {
+    const zip = openZip(makeZip({ "a.txt": "A" }));
+    expect(zip.read("missing.txt")).toBeUndefined();
+  });
+
+  test("finds the central directory behind an archive comment", () => {
+    const zip = openZip(makeZip({ "a.txt": "A" }, { comment: "course bundle" }));
+    expect(zip.read("a.txt")?.toString("utf-8")).toBe("A");
+  });
+
+  test("reports each entry's recorded size", () => {
+    const zip = openZip(makeZip({ "a.txt": "x".repeat(5000) }));
+    expect(zip.size("a.txt")).toBe(5000);
+    expect(zip.size("missing.txt")).toBeUndefined();
+  });
+
+  test("throws when an entry inflates past its recorded size", () => {
+    const data = makeZip({ "a.txt": "x".repeat(5000) });
+    data.writeUInt32LE(100, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+    expect(() => openZip(data).read("a.txt")).toThrow(/a\.txt is larger than its recorded size/);
+  });
+
+  test("throws on data that is not a zip archive", () => {
+    expect(() => openZip(Buffer.from("definitely not a zip file"))).toThrow(
+      /Not a zip archive/,
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import type { Chunk } from "./schemas/chunk.js";
+import type { FileTag } from "./schemas/file-tag.js";
+
+/**
+ * Evidence-based file classification.
+ *
+ * Path keywords and content signals each add weight to a candidate tag;
+ * the tag with the most weight wins. Path keywords are a strong signal,
+ * but course folders rarely follow a naming scheme, so content alone
+ * (requirement language, point values, rubric tables, bullet-heavy short
+ * sections, ...) can classify a file and can outvote a misleading name.
+ */
+export interface Classification {
+  readonly tag: FileTag;
+  /** 0–1: how clearly the winning tag beat the alternatives */
+  readonly confidence: number;
+  /** Human-readable signals behind the decision, strongest first */
+  readonly evidence: string[];
+}
+
+interface Signal {
+  readonly tag: FileTag;
+  readonly weight: number;
+  readonly evidence: string;
+}
+
+/** Weight of a filename/directory keyword match. */
+const PATH_WEIGHT = 3;
+
+/** Weight of a format default (e.g. notebooks are usually handouts). */
+const FALLBACK_WEIGHT = 0.5;
+
+/** Tie-break order, matching the historical path-rule precedence. */
+const TAG_PRECEDENCE: readonly FileTag[] = ["spec", "clarification", "slides", "code", "notes", "other"];
+
+const PATH_RULES: readonly { tag: FileTag; pattern: RegExp; keyword: string }[] = [
+  { tag: "spec", pattern: /(?:^|[/\\])(spec|requirement|assignment)/, keyword: "spec/requirement/assignment" },
+  { tag: "clarification", pattern: /(?:^|[/\\])(forum|piazza|clarification|faq)/, keyword: "forum/piazza/clarification/faq" },
+  { tag: "slides", pattern: /(?:^|[/\\])(slide|lecture|presentation)/, keyword: "slide/lecture/presentation" },
+  { tag: "code", pattern: /(?:^|[/\\])(starter|skeleton|template)/, keyword: "starter/skeleton/template" },
+  { tag: "notes", pattern: /(?:^|[/\\])(note|readme)/, keyword: "note/readme" },
+];
+
+const REQUIREMENT_PHRASE = /\b(?:must|shall|is required|are required|required to|must not|may not|should not)\b/gi;
+const POINT_VALUE = /\b\d+(?:\.\d+)?\s*(?:points?|pts?|marks?)\b/gi;
+const SUBMISSION_PHRASE = /\b(?:due (?:date|by|on|at)|deadline|submit|submission|late penalty|hand in|turn in)\b/gi;
+const TASK_PHRASE = /\b(?:you (?:will|must|should|need to) (?:implement|write|build|create|submit)|your (?:task|job|program|implementation|solution))\b/gi;
+const RUBRIC_HEADER = /\b(?:points?|pts|criteri(?:a|on)|rubric|grade|grading|score|weight)\b/i;
+const TEACHING_PHRASE = /\b(?:definition|theorem|lemma|proof|for example|recall|in this lecture|today we)\b/gi;
+const BULLET_LINE = /^\s*(?:[-*+•▪◦‣]|\d+[.)])\s+\S/;
+const CODE_LINE = /(?:[;{}]\s*$)|^\s*(?:def|class|return|import|from \S+ import|#include|public|private|static|void|int|fn|func|let|const|var)\b/;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/** A table row: at least two cell separators ("a | b | c"). */
+function isTableRow(line: string): boolean {
+  return (line.match(/\|/g)?.length ?? 0) >= 2;
+}
+
+function pathSignals(filePath: string): Signal[] {
+  const lower = filePath.toLowerCase();
+  const signals: Signal[] = [];
+  for (const rule of PATH_RULES) {
+    const match = rule.pattern.exec(lower);
+    if (match) {
+      signals.push({ tag: rule.tag, weight: PATH_WEIGHT, evidence: `path contains "${match[1]}"` });
+    }
+  }
+  return signals;
+}
+
+/** Whether a path has a keyword for `tag`, e.g. "piazza" for clarification. */
+export function pathSuggestsTag(filePath: string, tag: FileTag): boolean {
+  return pathSignals(filePath).some((signal) => signal.tag === tag);
+}
+
+function contentSignals(chunks: readonly Chunk[]): Signal[] {
+  const text = chunks.map((c) => c.text).join("\n");
+  const lines = text.split("\n").filter((l) => l.trim() !== "");
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const signals: Signal[] = [];
+  if (lines.length === 0) return signals;
+
+  // ── spec ──
+  const requirements = countMatches(text, REQUIREMENT_PHRASE);
+  if (requirements > 0) {
+    signals.push({
+      tag: "spec",
+      weight: Math.min(2, requirements * 0.25),
+      evidence: `${requirements} requirement phrase(s) (must/shall/required)`,
+    });
+  }
+  const points = countMatches(text, POINT_VALUE);
+  if (points > 0) {
+    signals.push({ tag: "spec", weight: Math.min(2, points * 0.5), evidence: `${points} point value(s)` });
+  }
+  const rubric = lines.some((l) => isTableRow(l) && RUBRIC_HEADER.test(l));
+  if (rubric) {
+    signals.push({ tag: "spec", weight: 2, evidence: "rubric table" });
+  }
+  const submission = countMatches(text, SUBMISSION_PHRASE);
+  if (submission > 0) {
+    signals.push({
+      tag: "spec",
+      weight: Math.min(1, submission * 0.25),
+      evidence: `${submission} submission/deadline phrase(s)`,
+    });
+  }
+  const tasks = countMatches(text, TASK_PHRASE);
+  if (tasks > 0) {
+    signals.push({ tag: "spec", weight: Math.min(1, tasks * 0.5), evidence: `${tasks} task statement(s)` });
+  }
+
+  // ── slides ──
+  const bulletShare = lines.filter((l) => BULLET_LINE.test(l)).length / lines.length;
+  const wordsPerChunk = wordCount / chunks.length;
+  if (bulletShare >= 0.4 && chunks.length >= 3 && wordsPerChunk <= 60) {
+    signals.push({
+      tag: "slides",
+      weight: 2,
+      evidence: `short bullet-heavy sections (${Math.round(bulletShare * 100)}% bullets, ~${Math.round(wordsPerChunk)} words each)`,
+    });
+  }
+  const pages = new Set(chunks.map((c) => c.source_ref.page).filter((p) => p !== undefined));
+  if (pages.size >= 5 && wordCount / pages.size <= 50) {
+    signals.push({
+      tag: "slides",
+      weight: 1.5,
+      evidence: `${pages.size} short pages (~${Math.round(wordCount / pages.size)} words each)`,
+    });
+  }
+
+  // ── notes ──
+  const teaching = countMatches(text, TEACHING_PHRASE);
+  if (teaching > 0) {
+    signals.push({
+      tag: "notes",
+      weight: Math.min(1.5, teaching * 0.25),
+      evidence: `${teaching} explanatory phrase(s) (definition/theorem/example)`,
+    });
+  }
+
+  // ── code ──
+  const codeShare = lines.filter((l) => CODE_LINE.test(l)).length / lines.length;
+  if (codeShare >= 0.25 && lines.length >= 3) {
+    signals.push({
+      tag: "code",
+      weight: codeShare >= 0.5 ? 2.5 : 1,
+      evidence: `${Math.round(codeShare * 100)}% of lines look like code`,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Classify a file from its path and chunked content. `fallback` is the
+ * format's default tag (e.g. "spec" for notebooks) and only carries a
+ * small weight; with no signals at all the file is "other".
+ */
+export function classifyFile(
+  filePath: string,
+  chunks: readonly Chunk[],
+  fallback?: { tag: FileTag; evidence: string },
+): Classification {
+  const signals = [...pathSignals(filePath), ...contentSignals(chunks)];
+  if (fallback) {
+    signals.push({ tag: fallback.tag, weight: FALLBACK_WEIGHT, evidence: fallback.evidence });
+  }
+  if (signals.length === 0) {
+    return { tag: "other", confidence: 0.2, evidence: ["no path or content signals"] };
+  }
+
+  const scores = new Map<FileTag, number>();
+  for (const signal of signals) {
+    scores.set(signal.tag, (scores.get(signal.tag) ?? 0) + signal.weight);
+  }
+  const ranked = [...scores.entries()].sort(
+    (a, b) => b[1] - a[1] || TAG_PRECEDENCE.indexOf(a[0]) - TAG_PRECEDENCE.indexOf(b[0]),
+  );
+  const [tag, top] = ranked[0]!;
+  const runnerUp = ranked[1]?.[1] ?? 0;
+
+  // Approaches 1 as the winner's margin grows; the +1 keeps a lone weak
+  // signal from looking certain
+  const confidence = Math.round((top / (top + runnerUp + 1)) * 100) / 100;
+
+  const evidence = signals
+    .filter((s) => s.tag === tag)
+    .sort((a, b) => b.weight - a.weight)
+    .map((s) => s.evidence);
+  for (const [other, score] of ranked.slice(1)) {
+    evidence.push(`outweighed: ${other} (${Math.round(score * 100) / 100})`);
+  }
+
+  return { tag, confidence, evidence };
+}
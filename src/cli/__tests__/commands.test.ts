@@ -9,7 +9,7 @@ import {
 } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { runIngest, runBuild } from "../commands.js";
+import { runIngest, runBuild, runPacket } from "../commands.js";
 
 /**
  * Integration tests for CLI commands.
@@ -20,6 +20,47 @@ import { runIngest, runBuild } from "../commands.js";
  * orchestrator and parse-args unit tests.
  */
 
+/** A packet that passes generate_packet's validation. */
+const MOCK_PACKET = `## What You Are Building
+
+Build the widget as specified in the requirements. [spec.md, Requirements]
+
+## Acceptance Criteria
+
+- Widget is fully functional and passes all tests
+- REQ-001 is satisfied
+
+## Requirements Checklist
+
+| ID | Type | Requirement |
+|----|------|-------------|
+| REQ-001 | functional | Build the widget |
+
+## Required Concepts
+
+- Widget Construction: Understanding how to build the widget
+
+## System / Component Breakdown
+
+The system consists of a single widget module.
+
+## Execution Plan
+
+1. Set up the project structure
+2. Implement the widget
+
+## Common Pitfalls and Edge Cases
+
+- Forgetting to handle edge cases in widget initialization
+
+## Validation and Testing Plan
+
+- Unit test the widget module
+
+## Open Questions
+
+None identified.`;
+
 describe("runIngest", () => {
   let tempDir: string;
 
@@ -98,6 +139,30 @@ describe("runIngest", () => {
     expect(fileIds.has("spec.md")).toBe(true);
     expect(fileIds.has("notes.txt")).toBe(true);
   });
+
+  test("summary reports skipped files and why", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "cmd-ingest-"));
+    const inputDir = join(tempDir, "assignment");
+    const outputDir = join(tempDir, "output");
+    mkdirSync(join(inputDir, "node_modules"), { recursive: true });
+
+    writeFileSync(join(inputDir, "spec.md"), "# Spec\n\nSpec content.\n");
+    writeFileSync(join(inputDir, "logo.png"), "fake png");
+    writeFileSync(join(inputDir, "node_modules", "readme.md"), "# Dependency\n");
+
+    const lines: string[] = [];
+    const originalLog = console.log;
+    console.log = (...args: unknown[]) => { lines.push(args.join(" ")); };
+    try {
+      await runIngest({ command: "ingest", assignmentDir: inputDir, outputDir });
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(lines).toContain("Skipped 2 path(s):");
+    expect(lines).toContain("  1 ignored (built-in defaults: node_modules/)");
+    expect(lines).toContain("  1 unsupported file type");
+  });
 });
 
 describe("runBuild", () => {
@@ -137,52 +202,13 @@ describe("runBuild", () => {
     const mockPrimer = `## Widget Construction
 
 The widget is constructed by... [spec.md, Requirements]`;
-    const mockPacket = `## What You Are Building
-
-Build the widget as specified in the requirements. [spec.md, Requirements]
-
-## Acceptance Criteria
-
-- Widget is fully functional and passes all tests
-- REQ-001 is satisfied
-
-## Requirements Checklist
-
-| ID | Type | Requirement |
-|----|------|-------------|
-| REQ-001 | functional | Build the widget |
-
-## Required Concepts
-
-- Widget Construction: Understanding how to build the widget
-
-## System / Component Breakdown
-
-The system consists of a single widget module.
-
-## Execution Plan
-
-1. Set up the project structure
-2. Implement the widget
-
-## Common Pitfalls and Edge Cases
-
-- Forgetting to handle edge cases in widget initialization
-
-## Validation and Testing Plan
-
-- Unit test the widget module
-
-## Open Questions
-
-None identified.`;
     let llmCallCount = 0;
     mock.module("../../llm.js", () => ({
       callLLM: async () => {
         llmCallCount++;
-        const responses = [mockRequirements, mockConcepts, mockPrimer, mockPacket];
+        const responses = [mockRequirements, mockConcepts, mockPrimer, MOCK_PACKET];
         return {
-          text: responses[llmCallCount - 1] ?? mockPacket,
+          text: responses[llmCallCount - 1] ?? MOCK_PACKET,
           inputTokens: 100,
           outputTokens: 50,
         };
@@ -240,3 +266,57 @@ None identified.`;
     expect(existsSync(join(outputDir, "run.log"))).toBe(true);
   });
 });
+
+describe("runPacket", () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("reuses the title recorded by the previous run", async () => {
+    let prompt = "";
+    mock.module("../../llm.js", () => ({
+      callLLM: async (request: { user: string }) => {
+        prompt = request.user;
+        return { text: MOCK_PACKET, inputTokens: 100, outputTokens: 50 };
+      },
+    }));
+
+    tempDir = mkdtempSync(join(tmpdir(), "cmd-packet-"));
+    const outputDir = join(tempDir, "output");
+    mkdirSync(outputDir);
+    const sourceRef = { file_id: "spec.md", section: "Requirements" };
+    writeFileSync(join(outputDir, "requirements.json"), JSON.stringify({
+      requirements: [{ id: "REQ-001", text: "Build the widget", type: "functional", source_ref: sourceRef }],
+    }));
+    writeFileSync(join(outputDir, "concepts.json"), JSON.stringify({
+      concepts: [{
+        id: "CON-001",
+        name: "Widget Construction",
+        description: "Understanding how to build the widget",
+        requirement_ids: ["REQ-001"],
+        source_refs: [sourceRef],
+      }],
+    }));
+    writeFileSync(join(outputDir, "primer.md"), "## Widget Construction\n\nThe widget is constructed by...\n");
+    writeFileSync(join(outputDir, "run.json"), JSON.stringify({
+      run_id: "previous",
+      assignment_id: "widget",
+      title: "Widget Lab",
+      started_at: "2024-01-01T00:00:00.000Z",
+      stages_completed: ["generate_packet"],
+      status: "completed",
+    }));
+
+    await runPacket({ command: "packet", assignmentId: "widget", outputDir });
+
+    expect(prompt).toContain("Assignment: Widget Lab");
+    // Recorded again, so the next packet run keeps it too
+    const runJson = JSON.parse(readFileSync(join(outputDir, "run.json"), "utf-8"));
+    expect(runJson.title).toBe("Widget Lab");
+    expect(runJson.status).toBe("completed");
+  });
+});
@@ -1,15 +1,85 @@
-import { existsSync, readFileSync, rmSync } from "node:fs";
+import { existsSync, readdirSync, readFileSync, rmSync } from "node:fs";
 import { resolve, basename, join } from "node:path";
-import { RunConfigSchema } from "../schemas/run-config.js";
-import { runPipeline } from "../orchestrator.js";
+import { RunConfigSchema, type Manifest } from "../schemas/run-config.js";
+import { RunMetadataSchema, type RunMetadata } from "../schemas/run-metadata.js";
+import { formatIngestChanges, runPipeline } from "../orchestrator.js";
 import { ingestStage } from "../stages/ingest.js";
 import { extractRequirementsStage } from "../stages/extract-requirements.js";
 import { mapConceptsStage } from "../stages/map-concepts.js";
 import { explainConceptsStage } from "../stages/explain-concepts.js";
 import { generatePacketStage } from "../stages/generate-packet.js";
 import { login } from "../oauth.js";
+import { loadManifest } from "../manifest.js";
+import type { IngestChanges, SkippedFile } from "../schemas/ingest-output.js";
+import { DB_FILENAME } from "../storage.js";
+import { VECTORS_FILENAME } from "../vectors.js";
 import type { BuildArgs, IngestArgs, PacketArgs } from "./parse-args.js";
 
+/**
+ * Outputs kept between runs: ingest reuses chunks.json for files that have
+ * not changed, chunks.db is synced instead of rebuilt, and vectors.bin is
+ * rebuilt only if the chunks changed.
+ */
+const INGEST_CACHE_FILES = new Set([
+  ingestStage.outputFilename,
+  DB_FILENAME,
+  `${DB_FILENAME}-wal`,
+  `${DB_FILENAME}-shm`,
+  VECTORS_FILENAME,
+]);
+
+/**
+ * Remove the previous run's artifacts from the output directory, except
+ * the ingest cache, so stale stage outputs never outlive a failed re-run.
+ */
+function clearPreviousRun(outputDir: string): void {
+  if (!existsSync(outputDir)) return;
+  for (const entry of readdirSync(outputDir)) {
+    if (!INGEST_CACHE_FILES.has(entry)) {
+      rmSync(join(outputDir, entry), { recursive: true, force: true });
+    }
+  }
+}
+
+/** The previous run's metadata from run.json, if it exists and is valid. */
+function readPreviousRun(outputDir: string): RunMetadata | undefined {
+  const runPath = join(outputDir, "run.json");
+  if (!existsSync(runPath)) return undefined;
+  try {
+    const result = RunMetadataSchema.safeParse(JSON.parse(readFileSync(runPath, "utf-8")));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Print which input files changed since the previous ingest, if any did. */
+function printChangeSummary(changes: IngestChanges | undefined): void {
+  if (!changes) return;
+  console.log(`Files: ${formatIngestChanges(changes)}`);
+}
+
+/**
+ * Print how many paths ingest passed over and why, one line per distinct
+ * reason (e.g. each ignore rule that matched).
+ */
+function printSkippedSummary(skipped: readonly SkippedFile[]): void {
+  if (skipped.length === 0) return;
+
+  const counts = new Map<string, number>();
+  for (const entry of skipped) {
+    const why = entry.reason === "unsupported"
+      ? "unsupported file type"
+      : `${entry.reason} (${entry.detail ?? "no rule recorded"})`;
+    counts.set(why, (counts.get(why) ?? 0) + 1);
+  }
+
+  console.log(`Skipped ${skipped.length} path(s):`);
+  for (const [why, count] of counts) {
+    console.log(`  ${count} ${why}`);
+  }
+}
+
 export async function runBuild(args: BuildArgs): Promise<void> {
   const assignmentDir = resolve(args.assignmentDir);
 
@@ -25,10 +95,22 @@ export async function runBuild(args: BuildArgs): Promise<void> {
     ? resolve(args.outputDir)
     : resolve("workpacket_runs", assignmentId);
 
+  let manifest: Manifest | undefined;
+  try {
+    manifest = loadManifest(assignmentDir)?.manifest;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
   const configResult = RunConfigSchema.safeParse({
     assignment_id: assignmentId,
     input_paths: [assignmentDir],
     output_dir: outputDir,
+    title: manifest?.title,
+    ingest_limits: manifest?.limits,
+    tag_weights: manifest?.weights,
+    diversity: manifest?.diversity,
   });
 
   if (!configResult.success) {
@@ -43,14 +125,12 @@ export async function runBuild(args: BuildArgs): Promise<void> {
 
   console.log(`[workpacket] build`);
   console.log(`  assignment_id:  ${config.assignment_id}`);
+  if (config.title) console.log(`  title:          ${config.title}`);
   console.log(`  input_paths:    ${config.input_paths.join(", ")}`);
   console.log(`  output_dir:     ${config.output_dir}`);
   console.log();
 
-  // Clean previous run artifacts so re-runs don't collide (e.g. SQLite tables)
-  if (existsSync(config.output_dir)) {
-    rmSync(config.output_dir, { recursive: true });
-  }
+  clearPreviousRun(config.output_dir);
 
   const stages = [ingestStage, extractRequirementsStage, mapConceptsStage, explainConceptsStage, generatePacketStage];
   const metadata = await runPipeline(config, stages);
@@ -81,10 +161,22 @@ export async function runIngest(args: IngestArgs): Promise<void> {
     ? resolve(args.outputDir)
     : resolve("workpacket_runs", assignmentId);
 
+  let manifest: Manifest | undefined;
+  try {
+    manifest = loadManifest(assignmentDir)?.manifest;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
   const configResult = RunConfigSchema.safeParse({
     assignment_id: assignmentId,
     input_paths: [assignmentDir],
     output_dir: outputDir,
+    title: manifest?.title,
+    ingest_limits: manifest?.limits,
+    tag_weights: manifest?.weights,
+    diversity: manifest?.diversity,
   });
 
   if (!configResult.success) {
@@ -99,14 +191,12 @@ export async function runIngest(args: IngestArgs): Promise<void> {
 
   console.log(`[workpacket] ingest`);
   console.log(`  assignment_id:  ${config.assignment_id}`);
+  if (config.title) console.log(`  title:          ${config.title}`);
   console.log(`  input_paths:    ${config.input_paths.join(", ")}`);
   console.log(`  output_dir:     ${config.output_dir}`);
   console.log();
 
-  // Clean previous run artifacts so re-runs don't collide (e.g. SQLite tables)
-  if (existsSync(config.output_dir)) {
-    rmSync(config.output_dir, { recursive: true });
-  }
+  clearPreviousRun(config.output_dir);
 
   const metadata = await runPipeline(config, [ingestStage]);
 
@@ -115,12 +205,18 @@ export async function runIngest(args: IngestArgs): Promise<void> {
     process.exit(1);
   }
 
-  const chunksPath = join(config.output_dir, "chunks.json");
+  const chunksPath = join(config.output_dir, ingestStage.outputFilename);
   const chunks = JSON.parse(readFileSync(chunksPath, "utf-8")) as {
-    chunks: unknown[];
+    chunks: { duplicates?: unknown[] }[];
+    skipped?: SkippedFile[];
+    changes?: IngestChanges;
   };
 
   console.log(`Done. ${chunks.chunks.length} chunks written to ${chunksPath}`);
+  const merged = chunks.chunks.reduce((n, c) => n + (c.duplicates?.length ?? 0), 0);
+  if (merged > 0) console.log(`Merged ${merged} duplicate chunk(s) into the chunks they repeat`);
+  printChangeSummary(chunks.changes);
+  printSkippedSummary(chunks.skipped ?? []);
 }
 
 export async function runPacket(args: PacketArgs): Promise<void> {
@@ -129,10 +225,12 @@ export async function runPacket(args: PacketArgs): Promise<void> {
     ? resolve(args.outputDir)
     : resolve("workpacket_runs", assignmentId);
 
+  // The manifest is not read here; the build recorded its title in run.json
   const configResult = RunConfigSchema.safeParse({
     assignment_id: assignmentId,
     input_paths: [outputDir],
     output_dir: outputDir,
+    title: readPreviousRun(outputDir)?.title,
   });
 
   if (!configResult.success) {
@@ -147,6 +245,7 @@ export async function runPacket(args: PacketArgs): Promise<void> {
 
   console.log(`[workpacket] packet`);
   console.log(`  assignment_id:  ${config.assignment_id}`);
+  if (config.title) console.log(`  title:          ${config.title}`);
   console.log(`  output_dir:     ${config.output_dir}`);
   console.log();
 
@@ -0,0 +1,260 @@
+import type { Chunk } from "./schemas/chunk.js";
+import type { SourceRef } from "./schemas/source-ref.js";
+
+/**
+ * Post-chunking cleanup of repeated content.
+ *
+ * Course folders often hold the same document twice (README.md and
+ * spec.txt), and paged formats repeat headers and footers on every page.
+ * Both waste retrieval slots, so repeated page edges are stripped and
+ * exact or near-duplicate chunks are merged into one survivor that keeps
+ * every original location in `duplicates`. Near duplicates differ only at
+ * their edges; two versions of a document with an edited line both stay.
+ */
+
+/** Words per shingle for near-duplicate detection. */
+const SHINGLE_WORDS = 5;
+
+/** MinHash signature length; split into LSH bands of BAND_ROWS values. */
+const MINHASH_SIZE = 32;
+const BAND_ROWS = 4;
+
+/** Shingle-set Jaccard similarity at or above which chunks are compared word by word. */
+const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+/** Most words a near duplicate may add at its start or end: about a title, header or footer line. */
+const NEAR_DUPLICATE_EDGE_WORDS = 12;
+
+/** A page-edge line is boilerplate when it repeats on this share of pages... */
+const BOILERPLATE_PAGE_SHARE = 0.6;
+/** ...and on at least this many pages. */
+const BOILERPLATE_MIN_PAGES = 3;
+
+/** Lines at each end of a page checked for headers and footers. */
+const BOILERPLATE_EDGE_LINES = 2;
+
+/** Fixed seeds so signatures, and therefore survivors, are reproducible. */
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+
+/** 32-bit FNV-1a hash of a string. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Murmur3 finalizer: spreads one hash into an independent-looking one per seed. */
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/** Lowercased words, ignoring punctuation and layout. */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Word shingles of a chunk's words. Text shorter than one shingle becomes a
+ * single shingle, so short chunks only match exact (word-level) copies.
+ */
+function shingles(tokens: readonly string[]): Set<string> {
+  if (tokens.length <= SHINGLE_WORDS) return new Set([tokens.join(" ")]);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_WORDS).join(" "));
+  }
+  return result;
+}
+
+function minhash(set: ReadonlySet<string>): number[] {
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of set) {
+    const hash = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = mix(hash, MINHASH_SEEDS[i]!);
+      if (value < signature[i]!) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function jaccard(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Whether two chunks hold the same text. Word-for-word copies are, except
+ * that texts no longer than one shingle (a "Questions?" slide) must come
+ * from different files. A near copy must come from another file and be
+ * the other chunk's words with at most NEAR_DUPLICATE_EDGE_WORDS more
+ * before or after them; any difference inside the body keeps both.
+ */
+function isDuplicate(a: Chunk, aWords: readonly string[], b: Chunk, bWords: readonly string[]): boolean {
+  const sameFile = a.file_id === b.file_id;
+  const [shorter, longer] = aWords.length <= bWords.length ? [aWords, bWords] : [bWords, aWords];
+  const extra = longer.length - shorter.length;
+  if (extra === 0) {
+    return (!sameFile || shorter.length > SHINGLE_WORDS) && shorter.every((word, i) => longer[i] === word);
+  }
+  if (sameFile || extra > NEAR_DUPLICATE_EDGE_WORDS || shorter.length <= SHINGLE_WORDS) return false;
+  for (let offset = 0; offset <= extra; offset++) {
+    if (shorter.every((word, i) => longer[offset + i] === word)) return true;
+  }
+  return false;
+}
+
+/** A bare page number line: "7", "Page 7", "7 of 20", "Slide 7 / 20". */
+const PAGE_NUMBER_LINE = /^(?:page|slide|p\.)?\s*\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+/** Header/footer comparison key; page numbers differ per page, so they share one key. */
+function boilerplateKey(line: string): string {
+  const trimmed = line.trim();
+  return PAGE_NUMBER_LINE.test(trimmed) ? "<page number>" : trimmed.toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Remove header and footer lines that repeat across the pages of a paged
+ * file (PDF pages, slides). Only chunks with a page locator and no line
+ * locator are touched, so line-based citations stay exact. Chunks left
+ * empty are dropped.
+ */
+export function stripBoilerplate(chunks: readonly Chunk[]): Chunk[] {
+  const pagesByFile = new Map<string, Chunk[]>();
+  for (const chunk of chunks) {
+    if (chunk.source_ref.page === undefined || chunk.source_ref.line_start !== undefined) continue;
+    const pages = pagesByFile.get(chunk.file_id) ?? [];
+    pages.push(chunk);
+    pagesByFile.set(chunk.file_id, pages);
+  }
+
+  const boilerplate = new Map<string, Set<string>>();
+  for (const [fileId, pages] of pagesByFile) {
+    if (pages.length < BOILERPLATE_MIN_PAGES) continue;
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+      const lines = page.text.split("\n").filter((l) => l.trim() !== "");
+      const edges = new Set([
+        ...lines.slice(0, BOILERPLATE_EDGE_LINES),
+        ...lines.slice(-BOILERPLATE_EDGE_LINES),
+      ].map(boilerplateKey));
+      for (const key of edges) counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    const needed = Math.max(BOILERPLATE_MIN_PAGES, Math.ceil(pages.length * BOILERPLATE_PAGE_SHARE));
+    const keys = new Set([...counts].filter(([, n]) => n >= needed).map(([key]) => key));
+    if (keys.size > 0) boilerplate.set(fileId, keys);
+  }
+  if (boilerplate.size === 0) return [...chunks];
+
+  const result: Chunk[] = [];
+  for (const chunk of chunks) {
+    const keys = boilerplate.get(chunk.file_id);
+    if (!keys || chunk.source_ref.line_start !== undefined) {
+      result.push(chunk);
+      continue;
+    }
+    const lines = chunk.text.split("\n");
+    const isEdgeNoise = (line: string) => line.trim() === "" || keys.has(boilerplateKey(line));
+    while (lines.length > 0 && isEdgeNoise(lines[0]!)) lines.shift();
+    while (lines.length > 0 && isEdgeNoise(lines[lines.length - 1]!)) lines.pop();
+    if (lines.length > 0) result.push({ ...chunk, text: lines.join("\n") });
+  }
+  return result;
+}
+
+/**
+ * Merge exact and near-duplicate chunks. Candidates come from MinHash
+ * banding over word shingles, are filtered by exact Jaccard similarity
+ * and confirmed word by word (see isDuplicate). In each group of duplicates the survivor is the chunk
+ * whose file has the lowest `fileRank` (e.g. an authoritative spec over a
+ * README that repeats it), the first in input order among equals; it
+ * records the other chunks' source refs in `duplicates`. Order of
+ * survivors is preserved.
+ */
+export function mergeDuplicates(
+  chunks: readonly Chunk[],
+  fileRank: (fileId: string) => number = () => 0,
+): Chunk[] {
+  const tokens = chunks.map((chunk) => words(chunk.text));
+  const sets = tokens.map(shingles);
+
+  // Union-find over chunk indices
+  const parent = chunks.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  const buckets = new Map<string, number[]>();
+  sets.forEach((set, i) => {
+    if (set.size === 1 && set.has("")) return; // no words at all (e.g. "}" or "---")
+    const signature = minhash(set);
+    for (let band = 0; band < MINHASH_SIZE; band += BAND_ROWS) {
+      const key = `${band}:${signature.slice(band, band + BAND_ROWS).join(",")}`;
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(i);
+      buckets.set(key, bucket);
+    }
+  });
+
+  const checked = new Set<string>();
+  for (const bucket of buckets.values()) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const i = bucket[a]!;
+        const j = bucket[b]!;
+        const pair = `${i},${j}`;
+        if (checked.has(pair)) continue;
+        checked.add(pair);
+        if (
+          find(i) !== find(j) &&
+          jaccard(sets[i]!, sets[j]!) >= NEAR_DUPLICATE_THRESHOLD &&
+          isDuplicate(chunks[i]!, tokens[i]!, chunks[j]!, tokens[j]!)
+        ) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  chunks.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(i);
+    groups.set(root, group);
+  });
+
+  const survivorOf = new Map<number, { survivor: number; others: number[] }>();
+  for (const group of groups.values()) {
+    const rank = (i: number) => fileRank(chunks[i]!.file_id);
+    const survivor = group.reduce((best, i) => (rank(i) < rank(best) ? i : best));
+    survivorOf.set(survivor, { survivor, others: group.filter((i) => i !== survivor) });
+  }
+
+  const result: Chunk[] = [];
+  chunks.forEach((chunk, i) => {
+    const entry = survivorOf.get(i);
+    if (!entry) return;
+    if (entry.others.length === 0) {
+      result.push(chunk);
+      return;
+    }
+    const duplicates: SourceRef[] = [...(chunk.duplicates ?? [])];
+    for (const other of entry.others) {
+      duplicates.push(chunks[other]!.source_ref, ...(chunks[other]!.duplicates ?? []));
+    }
+    result.push({ ...chunk, duplicates });
+  });
+  return result;
+}
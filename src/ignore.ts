@@ -0,0 +1,148 @@
+/**
+ * Gitignore-style path matching for file discovery.
+ *
+ * Supports the everyday subset of gitignore semantics: comments, "!"
+ * negation, trailing "/" for directories only, patterns anchored by a
+ * slash vs. matching at any depth, and the "*", "?", "[...]" and "**"
+ * wildcards. Rules are evaluated in order and the last match wins, so
+ * later files (and deeper directories) override earlier ones.
+ */
+export interface IgnoreRule {
+  /** Directory the rule's file lives in, relative to the walk root ("" for the root) */
+  readonly base: string;
+  readonly negated: boolean;
+  readonly dirOnly: boolean;
+  readonly regex: RegExp;
+  /** Where the rule came from, for skip reports (e.g. ".gitignore: build/") */
+  readonly source: string;
+}
+
+/**
+ * Translate a gitignore glob (without leading "!" or trailing "/") to a
+ * regular expression source matching a slash-separated relative path.
+ */
+function globToRegExpSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === "\\" && i + 1 < glob.length) {
+      out += escapeRegExp(glob[++i]!);
+    } else if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        const atStart = i === 0 || glob[i - 1] === "/";
+        const atEnd = i + 2 === glob.length;
+        if (atStart && glob[i + 2] === "/") {
+          // "**/" — zero or more leading directories
+          out += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atStart && atEnd) {
+          // trailing "/**" — everything inside
+          out += ".*";
+          i += 1;
+          continue;
+        }
+      }
+      out += "[^/]*";
+      while (glob[i + 1] === "*") i++;
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        out += "\\[";
+      } else {
+        const body = glob.slice(i + 1, close);
+        out += body.startsWith("!")
+          ? `[^/${body.slice(1).replace(/\\/g, "\\\\")}]`
+          : `[${body.replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+  return out;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Parse the contents of an ignore file into rules.
+ * `base` is the directory containing the file relative to the walk root,
+ * and `origin` names the file in skip reports.
+ */
+export function parseIgnoreFile(content: string, base: string, origin: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are insignificant unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (line === "" || line.startsWith("#")) continue;
+
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    if (line.startsWith("\\#") || line.startsWith("\\!")) line = line.slice(1);
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (line === "") continue;
+
+    // A slash anywhere but the end anchors the pattern to `base`;
+    // otherwise it matches a name at any depth
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+    const source = globToRegExpSource(line);
+
+    rules.push({
+      base,
+      negated,
+      dirOnly,
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      source: `${origin}: ${rawLine.trim()}`,
+    });
+  }
+
+  return rules;
+}
+
+/** The last rule matching exactly this path, ignoring its ancestors. */
+function lastMatchingRule(
+  rules: readonly IgnoreRule[],
+  path: string,
+  isDir: boolean,
+): IgnoreRule | undefined {
+  let match: IgnoreRule | undefined;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    let relative = path;
+    if (rule.base !== "") {
+      if (!path.startsWith(`${rule.base}/`)) continue;
+      relative = path.slice(rule.base.length + 1);
+    }
+    if (rule.regex.test(relative)) match = rule;
+  }
+  return match;
+}
+
+/**
+ * Return the rule that excludes `path` (slash-separated, relative to the
+ * walk root), or undefined if it is not ignored. As in git, a path inside
+ * an ignored directory is ignored even if a later rule re-includes it.
+ */
+export function findIgnoreRule(
+  rules: readonly IgnoreRule[],
+  path: string,
+  isDir: boolean,
+): IgnoreRule | undefined {
+  const parts = path.split("/");
+  for (let i = 1; i <= parts.length; i++) {
+    const prefix = parts.slice(0, i).join("/");
+    const rule = lastMatchingRule(rules, prefix, i < parts.length || isDir);
+    if (rule && !rule.negated) return rule;
+  }
+  return undefined;
+}
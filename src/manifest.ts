@@ -0,0 +1,84 @@
+import { readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { ManifestSchema, type Manifest } from "./schemas/run-config.js";
+import type { FileTag } from "./schemas/file-tag.js";
+import { parseIgnoreFile, findIgnoreRule, type IgnoreRule } from "./ignore.js";
+
+/** Manifest filenames looked up in the assignment directory. */
+export const MANIFEST_FILENAMES = ["workpacket.json", "workpacket.yaml", "workpacket.yml"];
+
+/** What the manifest says about one file. */
+export interface ManifestEntry {
+  readonly tag?: FileTag;
+  /** The rule that excluded the file (e.g. "workpacket.yaml: drafts/**"), if any */
+  readonly excludedBy?: string;
+  readonly authoritative: boolean;
+}
+
+export interface LoadedManifest {
+  readonly filename: string;
+  readonly manifest: Manifest;
+  /** Resolve the rules for a file_id (slash-separated, relative to the directory). */
+  lookup(fileId: string): ManifestEntry;
+}
+
+/**
+ * Load and validate the manifest in `dir`, if there is one.
+ * Throws if the file cannot be parsed, fails schema validation, or if
+ * more than one manifest file is present.
+ */
+export function loadManifest(dir: string): LoadedManifest | undefined {
+  const present = MANIFEST_FILENAMES.filter(
+    (name) => statSync(join(dir, name), { throwIfNoEntry: false })?.isFile(),
+  );
+  if (present.length === 0) return undefined;
+  if (present.length > 1) {
+    throw new Error(`Multiple manifests found in ${dir} (${present.join(", ")}); keep only one`);
+  }
+
+  const filename = present[0]!;
+  const raw = readFileSync(join(dir, filename), "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = filename.endsWith(".json") ? JSON.parse(raw) : Bun.YAML.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${filename}: ${message}`);
+  }
+
+  const result = ManifestSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join(".")}: ${i.message}`)
+      .join("; ");
+    throw new Error(`Invalid ${filename}: ${issues}`);
+  }
+
+  const manifest = result.data;
+  const compiled = manifest.files.map((rule) => ({
+    rule,
+    matchers: parseIgnoreFile(rule.match, "", filename) as readonly IgnoreRule[],
+  }));
+
+  return {
+    filename,
+    manifest,
+
+    lookup(fileId: string): ManifestEntry {
+      let tag: FileTag | undefined;
+      let excludedBy: string | undefined;
+      let authoritative = false;
+      for (const { rule, matchers } of compiled) {
+        if (!findIgnoreRule(matchers, fileId, false)) continue;
+        if (rule.tag !== undefined) tag = rule.tag;
+        if (rule.exclude !== undefined) excludedBy = rule.exclude ? `${filename}: ${rule.match}` : undefined;
+        if (rule.authoritative !== undefined) authoritative = rule.authoritative;
+      }
+      return {
+        ...(tag !== undefined ? { tag } : {}),
+        ...(excludedBy !== undefined ? { excludedBy } : {}),
+        authoritative,
+      };
+    },
+  };
+}
@@ -8,6 +8,7 @@ import type { RunContext } from "./schemas/stage.js";
 import { createRunLogger } from "./logger.js";
 import type { Chunk } from "./schemas/chunk.js";
 import type { FileTag } from "./schemas/file-tag.js";
+import type { IngestChanges, IngestedFile } from "./schemas/ingest-output.js";
 import { createStorage } from "./storage.js";
 
 /**
@@ -24,10 +25,17 @@ export interface PipelineStage {
 
 const MAX_RETRIES = 2; // 3 total attempts (1 initial + 2 retries)
 
+/** "2 added, 1 modified, 0 removed, 14 unchanged" */
+export function formatIngestChanges(changes: IngestChanges): string {
+  return `${changes.added.length} added, ${changes.modified.length} modified, ` +
+    `${changes.removed.length} removed, ${changes.unchanged} unchanged`;
+}
+
 /** Mutable working copy — avoids casting readonly arrays from Zod-inferred types. */
 interface MutableRunMetadata {
   run_id: string;
   assignment_id: string;
+  title?: string;
   started_at: string;
   completed_at?: string;
   stages_completed: StageName[];
@@ -53,6 +61,7 @@ export async function runPipeline(
   const metadata: MutableRunMetadata = {
     run_id,
     assignment_id: config.assignment_id,
+    ...(config.title ? { title: config.title } : {}),
     started_at: new Date().toISOString(),
     stages_completed: [],
     status: "running",
@@ -80,7 +89,10 @@ export async function runPipeline(
 
         let output: unknown;
         try {
-          output = await stage.run(currentInput, ctx);
+          output = await stage.run(currentInput, {
+            ...ctx,
+            log: (message) => logger.log(`Stage '${stage.name}': ${message}`),
+          });
         } catch (error) {
           const message =
             error instanceof Error ? error.message : String(error);
@@ -148,17 +160,25 @@ export async function runPipeline(
         const ingestOutput = validatedOutput as {
           chunks?: Chunk[];
           file_tags?: Record<string, FileTag>;
+          authoritative_files?: string[];
+          files?: Record<string, IngestedFile>;
+          changes?: IngestChanges;
         };
         if (ingestOutput.chunks && ingestOutput.file_tags) {
           const reader = createStorage(
             config.output_dir,
             ingestOutput.chunks,
             new Map(Object.entries(ingestOutput.file_tags)),
+            new Set(ingestOutput.authoritative_files ?? []),
+            new Map(Object.entries(ingestOutput.files ?? {})),
           );
           ctx = { ...ctx, storage: reader };
           logger.log(
             `Storage created: ${ingestOutput.chunks.length} chunks indexed`,
           );
+          if (ingestOutput.changes) {
+            logger.log(`Files: ${formatIngestChanges(ingestOutput.changes)}`);
+          }
         }
       }
     }
@@ -2,7 +2,7 @@
  * English stop words to exclude from dynamic FTS5 queries.
  * Kept minimal — only words that add noise without signaling relevance.
  */
-const STOP_WORDS = new Set([
+export const STOP_WORDS: ReadonlySet<string> = new Set([
   "a", "an", "the", "and", "or", "but", "in", "on", "at", "to", "for",
   "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
   "been", "being", "have", "has", "had", "do", "does", "did", "will",
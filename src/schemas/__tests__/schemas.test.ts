@@ -7,6 +7,7 @@ import {
   ConceptSchema,
   ConceptsOutputSchema,
   RunConfigSchema,
+  ManifestSchema,
   RunMetadataSchema,
 } from "../index.js";
 
@@ -33,6 +34,16 @@ describe("SourceRefSchema", () => {
     expect(result.section).toBeUndefined();
   });
 
+  test("accepts source ref with only cell", () => {
+    const result = SourceRefSchema.parse({ file_id: "hw.ipynb", cell: 3 });
+    expect(result.cell).toBe(3);
+  });
+
+  test("accepts an html anchor alongside the section", () => {
+    const result = SourceRefSchema.parse({ file_id: "lab.html", section: "Lab 3 > Part A", anchor: "part-a" });
+    expect(result.anchor).toBe("part-a");
+  });
+
   test("accepts source ref with only section", () => {
     const result = SourceRefSchema.parse({
       file_id: "spec.pdf",
@@ -191,6 +202,50 @@ describe("RunConfigSchema", () => {
   });
 });
 
+describe("ManifestSchema", () => {
+  test("accepts title and file rules", () => {
+    const result = ManifestSchema.parse({
+      title: "Malloc Lab",
+      files: [
+        { match: "hw3.md", tag: "spec", authoritative: true },
+        { match: "drafts/", exclude: true },
+      ],
+    });
+    expect(result.files.length).toBe(2);
+  });
+
+  test("defaults files to an empty list", () => {
+    expect(ManifestSchema.parse({ title: "Lab 1" }).files).toEqual([]);
+  });
+
+  test("rejects unknown tags and unknown keys", () => {
+    expect(() => ManifestSchema.parse({ files: [{ match: "*.md", tag: "rubric" }] })).toThrow();
+    expect(() => ManifestSchema.parse({ files: [{ match: "*.md", role: "spec" }] })).toThrow();
+    expect(() => ManifestSchema.parse({ name: "Lab 1" })).toThrow();
+  });
+  test("accepts ingest limits and rejects invalid ones", () => {
+    expect(ManifestSchema.parse({ limits: { max_bytes: 1024 } }).limits).toEqual({ max_bytes: 1024 });
+    expect(() => ManifestSchema.parse({ limits: { max_files: 0 } })).toThrow();
+    expect(() => ManifestSchema.parse({ limits: { max_depth: 2.5 } })).toThrow();
+    expect(() => ManifestSchema.parse({ limits: { max_size: 10 } })).toThrow();
+  });
+
+  test("accepts tag weights and rejects unknown tags or negative weights", () => {
+    expect(ManifestSchema.parse({ weights: { clarification: 2, code: 0 } }).weights)
+      .toEqual({ clarification: 2, code: 0 });
+    expect(() => ManifestSchema.parse({ weights: { rubric: 1 } })).toThrow();
+    expect(() => ManifestSchema.parse({ weights: { spec: -1 } })).toThrow();
+  });
+
+  test("accepts per-stage diversity and rejects unknown stages or lambdas above 1", () => {
+    expect(ManifestSchema.parse({ diversity: { map_concepts: { max_per_file: 4 } } }).diversity)
+      .toEqual({ map_concepts: { max_per_file: 4 } });
+    expect(() => ManifestSchema.parse({ diversity: { summarize: { lambda: 0.5 } } })).toThrow();
+    expect(() => ManifestSchema.parse({ diversity: { map_concepts: { lambda: 1.5 } } })).toThrow();
+    expect(() => ManifestSchema.parse({ diversity: { map_concepts: { max_per_file: 0 } } })).toThrow();
+  });
+});
+
 describe("RunMetadataSchema", () => {
   const validMeta = {
     run_id: "run-abc123",
@@ -1,11 +1,51 @@
 import { z } from "zod";
 import { SourceRefSchema } from "./source-ref.js";
+import { FileTagSchema } from "./file-tag.js";
+
+/**
+ * What a chunk's text is, so stages can ask for e.g. the tables in spec
+ * files (grading rubrics) or the code blocks (interface signatures).
+ */
+export const ChunkKindSchema = z.enum(["prose", "table", "code", "list"]);
+
+export type ChunkKind = z.infer<typeof ChunkKindSchema>;
+
+/** Forum roles; instructor and TA answers clarify or override the spec. */
+export const ForumRoleSchema = z.enum(["instructor", "ta", "student"]);
+
+export type ForumRole = z.infer<typeof ForumRoleSchema>;
+
+/** Who posted a forum chunk, and when. */
+export const ForumPostSchema = z.object({
+  author: z.string().min(1).optional(),
+  role: ForumRoleSchema,
+  /** As written in the export, e.g. "2024-02-04" */
+  date: z.string().min(1).optional(),
+});
+
+export type ForumPost = z.infer<typeof ForumPostSchema>;
 
 export const ChunkSchema = z.object({
   chunk_id: z.string().min(1),
   file_id: z.string().min(1),
   text: z.string().min(1),
   source_ref: SourceRefSchema,
+  /**
+   * Per-chunk tag override for files that mix content kinds (e.g. notebook
+   * code cells). When absent, the file's tag from file_tags applies.
+   */
+  tag: FileTagSchema.optional(),
+  /** Absent for formats whose chunker does not distinguish kinds */
+  kind: ChunkKindSchema.optional(),
+  /** Programming language of a code chunk, e.g. "c" from a fence or a file extension */
+  language: z.string().min(1).optional(),
+  /** Set for posts from a forum Q&A export */
+  post: ForumPostSchema.optional(),
+  /**
+   * Other locations with the same or nearly the same text, merged into
+   * this chunk at ingest so retrieval returns the content once.
+   */
+  duplicates: z.array(SourceRefSchema).optional(),
 });
 
 export type Chunk = z.infer<typeof ChunkSchema>;
@@ -1,4 +1,8 @@
 import { z } from "zod";
 
-export const FileTagSchema = z.enum(["spec", "slides", "code", "notes", "other"]);
+/**
+ * What a file is for. "clarification" is a course forum export: answers
+ * posted after the spec was published that refine or correct it.
+ */
+export const FileTagSchema = z.enum(["spec", "clarification", "slides", "code", "notes", "other"]);
 export type FileTag = z.infer<typeof FileTagSchema>;
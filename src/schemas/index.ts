@@ -1,6 +1,26 @@
 export { SourceRefSchema, type SourceRef } from "./source-ref.js";
-export { ChunkSchema, type Chunk } from "./chunk.js";
-export { IngestOutputSchema, type IngestOutput } from "./ingest-output.js";
+export {
+  ChunkKindSchema,
+  type ChunkKind,
+  ForumRoleSchema,
+  type ForumRole,
+  ForumPostSchema,
+  type ForumPost,
+  ChunkSchema,
+  type Chunk,
+} from "./chunk.js";
+export {
+  SkippedFileSchema,
+  type SkippedFile,
+  FileClassificationSchema,
+  type FileClassification,
+  IngestedFileSchema,
+  type IngestedFile,
+  IngestChangesSchema,
+  type IngestChanges,
+  IngestOutputSchema,
+  type IngestOutput,
+} from "./ingest-output.js";
 export {
   RequirementTypeSchema,
   type RequirementType,
@@ -15,7 +35,20 @@ export {
   ConceptsOutputSchema,
   type ConceptsOutput,
 } from "./concept.js";
-export { RunConfigSchema, type RunConfig } from "./run-config.js";
+export {
+  IngestLimitsSchema,
+  type IngestLimits,
+  TagWeightsSchema,
+  type TagWeights,
+  DiversitySchema,
+  type Diversity,
+  RunConfigSchema,
+  type RunConfig,
+  ManifestFileRuleSchema,
+  type ManifestFileRule,
+  ManifestSchema,
+  type Manifest,
+} from "./run-config.js";
 export {
   StageNameSchema,
   type StageName,
@@ -2,9 +2,71 @@ import { z } from "zod";
 import { ChunkSchema } from "./chunk.js";
 import { FileTagSchema } from "./file-tag.js";
 
+/**
+ * A path that file discovery passed over. Ignored directories are
+ * reported once (with a trailing "/") rather than file by file.
+ */
+export const SkippedFileSchema = z.object({
+  path: z.string().min(1),
+  reason: z.enum(["ignored", "excluded", "unsupported", "binary", "symlink", "unreadable"]),
+  /**
+   * e.g. the ignore or manifest rule that matched (".gitignore: build/"),
+   * why content looked binary, where a symlinked directory was already
+   * walked, or why a file could not be parsed
+   */
+  detail: z.string().optional(),
+});
+
+export type SkippedFile = z.infer<typeof SkippedFileSchema>;
+
+/** How a file's tag was decided, for auditing misclassified inputs. */
+export const FileClassificationSchema = z.object({
+  confidence: z.number().min(0).max(1),
+  evidence: z.array(z.string()),
+});
+
+export type FileClassification = z.infer<typeof FileClassificationSchema>;
+
+/**
+ * Content fingerprint of an ingested file. A rebuild into the same output
+ * directory reuses a file's chunks while its content hash is unchanged.
+ */
+export const IngestedFileSchema = z.object({
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  /** Modification time in ms; for archive members, the archive's */
+  mtime_ms: z.number().nonnegative(),
+  size: z.number().int().nonnegative(),
+  /** Chunks the file produced before deduplication */
+  chunk_count: z.number().int().nonnegative(),
+  /** Tag the manifest declared when the file was chunked, which decides how some files are chunked */
+  declared_tag: FileTagSchema.optional(),
+});
+
+export type IngestedFile = z.infer<typeof IngestedFileSchema>;
+
+/** Files that changed since the previous ingest into the same output directory. */
+export const IngestChangesSchema = z.object({
+  added: z.array(z.string()),
+  modified: z.array(z.string()),
+  removed: z.array(z.string()),
+  unchanged: z.number().int().nonnegative(),
+});
+
+export type IngestChanges = z.infer<typeof IngestChangesSchema>;
+
 export const IngestOutputSchema = z.object({
   chunks: z.array(ChunkSchema).min(1),
   file_tags: z.record(z.string(), FileTagSchema),
+  file_classifications: z.record(z.string(), FileClassificationSchema).optional(),
+  skipped: z.array(SkippedFileSchema).optional(),
+  /** file_ids the manifest marks as the definitive source */
+  authoritative_files: z.array(z.string().min(1)).optional(),
+  /** Chunker version that produced the chunks; cached chunks from another version are discarded */
+  chunker_version: z.number().int().optional(),
+  files: z.record(z.string(), IngestedFileSchema).optional(),
+  /** Chunks folded into another chunk's `duplicates`, kept so a rebuild can redo deduplication */
+  merged_chunks: z.array(ChunkSchema).optional(),
+  changes: IngestChangesSchema.optional(),
 });
 
 export type IngestOutput = z.infer<typeof IngestOutputSchema>;
@@ -1,9 +1,90 @@
 import { z } from "zod";
+import { FileTagSchema } from "./file-tag.js";
+import { StageNameSchema } from "./run-metadata.js";
+
+/**
+ * Caps on what ingest will read, so an input with vendored dependencies
+ * or a huge data directory fails with a clear error instead of exhausting
+ * memory. Unset fields use the ingest stage's defaults.
+ */
+export const IngestLimitsSchema = z.object({
+  /** Files found while walking inputs, including archive members */
+  max_files: z.number().int().positive().optional(),
+  /** Total size of the files ingest reads */
+  max_bytes: z.number().int().positive().optional(),
+  /** Directory nesting below an input directory */
+  max_depth: z.number().int().positive().optional(),
+}).strict();
+
+export type IngestLimits = z.infer<typeof IngestLimitsSchema>;
+
+/**
+ * Multipliers on keyword relevance by file tag, so a clarification can
+ * outrank a slide that matches the query equally well. 0 sinks a tag to
+ * the bottom of the results. Unset tags use the storage defaults.
+ */
+export const TagWeightsSchema = z.record(FileTagSchema, z.number().nonnegative());
+
+export type TagWeights = z.infer<typeof TagWeightsSchema>;
+
+/**
+ * How a stage balances relevance against variety when it retrieves
+ * chunks, so one long document cannot fill the whole context.
+ */
+export const DiversitySchema = z.object({
+  /** 1 ranks by relevance alone; lower values favor chunks unlike those already picked */
+  lambda: z.number().min(0).max(1).optional(),
+  /** Most chunks taken from any one file */
+  max_per_file: z.number().int().positive().optional(),
+  /** Most chunks taken from any one section of a file */
+  max_per_section: z.number().int().positive().optional(),
+}).strict();
+
+export type Diversity = z.infer<typeof DiversitySchema>;
 
 export const RunConfigSchema = z.object({
   assignment_id: z.string().min(1),
   input_paths: z.array(z.string().min(1)).min(1),
   output_dir: z.string().min(1),
+  /** Human-readable assignment title, from the manifest when one is present */
+  title: z.string().min(1).optional(),
+  /** From the manifest's `limits` when one is present */
+  ingest_limits: IngestLimitsSchema.optional(),
+  /** From the manifest's `weights` when one is present */
+  tag_weights: TagWeightsSchema.optional(),
+  /** Per-stage overrides of retrieval diversity, from the manifest's `diversity` */
+  diversity: z.record(StageNameSchema, DiversitySchema).optional(),
 });
 
 export type RunConfig = z.infer<typeof RunConfigSchema>;
+
+/**
+ * One manifest rule. `match` is a gitignore-style glob relative to the
+ * assignment directory; when several rules match a file, the last rule
+ * that sets a field wins for that field.
+ */
+export const ManifestFileRuleSchema = z.object({
+  match: z.string().min(1),
+  /** Tag to use instead of the inferred one */
+  tag: FileTagSchema.optional(),
+  /** Leave matching files out of ingest entirely */
+  exclude: z.boolean().optional(),
+  /** Matching files are the definitive source when materials disagree */
+  authoritative: z.boolean().optional(),
+}).strict();
+
+export type ManifestFileRule = z.infer<typeof ManifestFileRuleSchema>;
+
+/**
+ * Assignment manifest (workpacket.json / workpacket.yaml) placed in the
+ * assignment directory to declare file roles explicitly.
+ */
+export const ManifestSchema = z.object({
+  title: z.string().min(1).optional(),
+  limits: IngestLimitsSchema.optional(),
+  weights: TagWeightsSchema.optional(),
+  diversity: z.record(StageNameSchema, DiversitySchema).optional(),
+  files: z.array(ManifestFileRuleSchema).default([]),
+}).strict();
+
+export type Manifest = z.infer<typeof ManifestSchema>;
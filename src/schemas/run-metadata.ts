@@ -21,6 +21,8 @@ export type RunStatus = z.infer<typeof RunStatusSchema>;
 export const RunMetadataSchema = z.object({
   run_id: z.string().min(1),
   assignment_id: z.string().min(1),
+  /** The run config's title, kept so later commands can reuse it */
+  title: z.string().min(1).optional(),
   started_at: z.string().datetime(),
   completed_at: z.string().datetime().optional(),
   stages_completed: z.array(StageNameSchema),
@@ -4,18 +4,23 @@ export const SourceRefSchema = z
   .object({
     file_id: z.string().min(1),
     page: z.number().int().positive().optional(),
+    /** 1-based cell number within a Jupyter notebook */
+    cell: z.number().int().positive().optional(),
     section: z.string().optional(),
+    /** Fragment id of the section's heading in an HTML page (without "#") */
+    anchor: z.string().optional(),
     line_start: z.number().int().positive().optional(),
     line_end: z.number().int().positive().optional(),
   })
   .refine(
     (ref) =>
       ref.page !== undefined ||
+      ref.cell !== undefined ||
       ref.section !== undefined ||
       ref.line_start !== undefined,
     {
       message:
-        "SourceRef must include at least one locator (page, section, or line_start)",
+        "SourceRef must include at least one locator (page, cell, section, or line_start)",
     }
   );
 
@@ -11,6 +11,8 @@ export interface RunContext {
   readonly config: RunConfig;
   readonly run_id: string;
   readonly storage?: StorageReader;
+  /** Append a line to run.log, prefixed with the stage name. */
+  readonly log?: (message: string) => void;
 }
 
 /**
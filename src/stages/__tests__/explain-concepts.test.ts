@@ -4,7 +4,7 @@ import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { RunContext } from "../../schemas/stage.js";
 import type { Chunk } from "../../schemas/chunk.js";
-import type { StorageReader, RetrievalOptions } from "../../storage.js";
+import { createStorage, type StorageReader, type RetrievalOptions } from "../../storage.js";
 import type { ConceptsOutput } from "../../schemas/concept.js";
 import { PrimerOutputSchema } from "../../schemas/primer-output.js";
 
@@ -19,6 +19,9 @@ function makeStorage(chunks: Chunk[]): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return chunks;
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -34,6 +37,9 @@ function makeFallbackStorage(chunks: Chunk[]): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return chunks;
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -47,6 +53,9 @@ function makeEmptyStorage(): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return [];
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -293,6 +302,9 @@ describe("explain-concepts retrieval fallback", () => {
       retrieveByTag(_tag: string, _limit?: number): Chunk[] {
         return [makeChunk("c1", "spec.md", "BST content")];
       },
+      authoritativeFiles(): Set<string> {
+        return new Set();
+      },
       close(): void {},
     };
 
@@ -326,6 +338,9 @@ describe("explain-concepts retrieval fallback", () => {
         retrieveByTagCalled = true;
         return [makeChunk("c1", "spec.md", "BST content")];
       },
+      authoritativeFiles(): Set<string> {
+        return new Set();
+      },
       close(): void {},
     };
 
@@ -443,3 +458,59 @@ describe("explain-concepts with mocked LLM", () => {
   });
 });
 
+// ── Retrieval Weight Tests ──────────────────────────────────────────
+
+describe("explain-concepts retrieval weights", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+  });
+
+  test("ranks slides above an equally relevant spec chunk", async () => {
+    let prompt = "";
+    mock.module("../../llm.js", () => ({
+      callLLM: async (request: { user: string }) => {
+        prompt = request.user;
+        return { text: "## Binary Search Tree\n\nOrdered nodes. [lecture.pdf, Test Section]\n\n## Memory Management\n\nUse malloc and free. [lecture.pdf, Test Section]", inputTokens: 100, outputTokens: 50 };
+      },
+    }));
+    const mod = await import("../explain-concepts.js");
+
+    tempDir = mkdtempSync(join(tmpdir(), "explain-concepts-test-"));
+    const text = "A binary search tree keeps ordered nodes; memory allocation uses malloc.";
+    const storage = createStorage(
+      tempDir,
+      [makeChunk("c1", "spec.md", text), makeChunk("c2", "lecture.pdf", text)],
+      new Map([["spec.md", "spec"], ["lecture.pdf", "slides"]]),
+    );
+    const logged: string[] = [];
+    await mod.explainConceptsStage.run(makeConcepts(), { ...makeCtx(storage), log: (message: string) => logged.push(message) });
+    storage.close();
+
+    expect(prompt.indexOf("lecture.pdf")).toBeGreaterThan(-1);
+    expect(prompt.indexOf("lecture.pdf")).toBeLessThan(prompt.indexOf("spec.md"));
+    expect(logged[0]).toMatch(/^Retrieval weights: spec [\d.]+, .*slides 1\.5/);
+  });
+
+  test("manifest weights apply on top of the stage defaults", async () => {
+    mock.module("../../llm.js", () => ({
+      callLLM: async () => ({ text: "## Binary Search Tree\n\nOrdered nodes. [lecture.pdf, Test Section]\n\n## Memory Management\n\nUse malloc and free. [lecture.pdf, Test Section]", inputTokens: 100, outputTokens: 50 }),
+    }));
+    const mod = await import("../explain-concepts.js");
+
+    let weights: RetrievalOptions["weights"];
+    const storage: StorageReader = {
+      ...makeStorage([makeChunk("c1", "lecture.pdf", "A binary search tree keeps ordered nodes; memory allocation uses malloc.")]),
+      retrieve(options: RetrievalOptions): Chunk[] {
+        weights = options.weights;
+        return [makeChunk("c1", "lecture.pdf", "A binary search tree keeps ordered nodes; memory allocation uses malloc.")];
+      },
+    };
+    const ctx = makeCtx(storage);
+    await mod.explainConceptsStage.run(makeConcepts(), { ...ctx, config: { ...ctx.config, tag_weights: { slides: 0.2 } } });
+
+    expect(weights).toMatchObject({ spec: 0.8, slides: 0.2 });
+  });
+});
@@ -15,6 +15,9 @@ function makeStorage(chunks: Chunk[]): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return chunks;
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -147,6 +150,44 @@ describe("buildUserMessage", () => {
     const msg = buildUserMessage(chunks);
     expect(msg).toContain("lines: 5-5");
   });
+
+  test("marks chunks from authoritative files", async () => {
+    const { buildUserMessage } = await import("../extract-requirements.js");
+    const chunks: Chunk[] = [
+      makeChunk("c1", "hw3.md", "Due Friday"),
+      makeChunk("c2", "notes.md", "Due Thursday"),
+    ];
+    const msg = buildUserMessage(chunks, new Set(["hw3.md"]));
+    expect(msg).toContain("(file: hw3.md, section: Test Section, authoritative)");
+    expect(msg).toContain("(file: notes.md, section: Test Section)");
+  });
+
+  test("labels table and code chunks", async () => {
+    const { buildUserMessage } = await import("../extract-requirements.js");
+    const chunks: Chunk[] = [
+      { ...makeChunk("c1", "spec.md", "| Tests | 50 |"), kind: "table" },
+      { ...makeChunk("c2", "spec.md", "void *mm_malloc(size_t size);"), kind: "code", language: "c" },
+      { ...makeChunk("c3", "spec.md", "Submit by Friday."), kind: "prose" },
+    ];
+    const msg = buildUserMessage(chunks);
+    expect(msg).toContain("(file: spec.md, section: Test Section, table)");
+    expect(msg).toContain("(file: spec.md, section: Test Section, code: c)");
+    expect(msg).toContain("--- Chunk 3 (file: spec.md, section: Test Section) ---");
+  });
+
+  test("shows who posted forum chunks and when", async () => {
+    const { buildUserMessage } = await import("../extract-requirements.js");
+    const chunks: Chunk[] = [
+      { ...makeChunk("c1", "forum.json", "Can we use realloc?"), post: { author: "Sam", role: "student" } },
+      {
+        ...makeChunk("c2", "forum.json", "Yes."),
+        post: { author: "Prof. Lee", role: "instructor", date: "2024-02-04" },
+      },
+    ];
+    const msg = buildUserMessage(chunks);
+    expect(msg).toContain("(file: forum.json, section: Test Section, post by Sam (student))");
+    expect(msg).toContain("(file: forum.json, section: Test Section, post by Prof. Lee (instructor) on 2024-02-04)");
+  });
 });
 
 // ── Stage Metadata Tests ────────────────────────────────────────────
@@ -280,5 +321,59 @@ describe("extract-requirements with mocked LLM", () => {
 
     expect(result).toEqual(JSON.parse(validResponse));
   });
-});
 
+  test("packs spec chunks into the context budget and logs its use", async () => {
+    let prompt = "";
+    mock.module("../../llm.js", () => ({
+      callLLM: async (request: { user: string }) => {
+        prompt = request.user;
+        return { text: validResponse, inputTokens: 100, outputTokens: 50 };
+      },
+    }));
+
+    const mod = await import("../extract-requirements.js");
+
+    // 40 chunks of about 750 estimated tokens each, far over the budget
+    const chunks = Array.from({ length: 40 }, (_, i) => makeChunk(`c${i}`, "spec.md", `part${i} ${"x".repeat(3000)}`));
+    const logged: string[] = [];
+    const ctx = { ...makeCtx(makeStorage(chunks)), log: (message: string) => logged.push(message) };
+
+    await mod.extractRequirementsStage.run(undefined, ctx);
+
+    expect(prompt).toContain("part0 ");
+    expect(prompt).toContain("part20 ");
+    expect(prompt).not.toContain("part21 ");
+    expect(logged).toEqual([
+      "Retrieval weights: spec 1, clarification 1.5, slides 0.6, notes 0.6, code 0.3, other 0.5",
+      "Context: 15792 of 16000 tokens (99%) in 21 chunks",
+    ]);
+  });
+
+  test("keeps forum answers when the spec alone is over the budget", async () => {
+    let prompt = "";
+    mock.module("../../llm.js", () => ({
+      callLLM: async (request: { user: string }) => {
+        prompt = request.user;
+        return { text: validResponse, inputTokens: 100, outputTokens: 50 };
+      },
+    }));
+
+    const mod = await import("../extract-requirements.js");
+
+    const spec = Array.from({ length: 40 }, (_, i) => makeChunk(`s${i}`, "spec.md", `part${i} ${"x".repeat(3000)}`));
+    const answer: Chunk = {
+      ...makeChunk("f0", "forum.md", `Staff answer: submit a zip file instead. ${"y".repeat(1000)}`),
+      post: { author: "Prof", role: "instructor" },
+    };
+    const storage: StorageReader = {
+      ...makeStorage(spec),
+      retrieveByTag: (tag: string) => (tag === "clarification" ? [answer] : spec),
+    };
+
+    await mod.extractRequirementsStage.run(undefined, makeCtx(storage));
+
+    expect(prompt).toContain("Staff answer: submit a zip file instead.");
+    expect(prompt).toContain("part19 ");
+    expect(prompt).not.toContain("part20 ");
+  });
+});
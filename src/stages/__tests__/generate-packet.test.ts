@@ -175,6 +175,15 @@ describe("buildPacketUserMessage", () => {
     expect(msg).toContain("=== CONCEPTS ===");
     expect(msg).toContain("=== REQUIREMENTS ===");
   });
+
+  test("names the assignment when a title is given", async () => {
+    const { buildPacketUserMessage } = await import("../generate-packet.js");
+    const withTitle = buildPacketUserMessage(makeRequirements(), makeConcepts(), makePrimer(), "Malloc Lab");
+    const without = buildPacketUserMessage(makeRequirements(), makeConcepts(), makePrimer());
+
+    expect(withTitle).toContain("Assignment: Malloc Lab");
+    expect(without).not.toContain("Assignment:");
+  });
 });
 
 // ── validatePacketInvariants Tests ───────────────────────────────────
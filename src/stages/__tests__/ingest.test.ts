@@ -1,15 +1,16 @@
 import { describe, test, expect, afterEach } from "bun:test";
 import {
   mkdtempSync, mkdirSync, writeFileSync, rmSync,
-  readFileSync, existsSync, symlinkSync,
+  readFileSync, existsSync, symlinkSync, utimesSync, statSync,
 } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
+import { deflateSync, deflateRawSync, gzipSync } from "node:zlib";
 import { ingestStage } from "../ingest.js";
 import { IngestOutputSchema } from "../../schemas/ingest-output.js";
 import { ChunkSchema } from "../../schemas/chunk.js";
 import { runPipeline } from "../../orchestrator.js";
-import type { RunConfig } from "../../schemas/run-config.js";
+import type { IngestLimits, RunConfig } from "../../schemas/run-config.js";
 import type { Chunk } from "../../schemas/chunk.js";
 import type { FileTag } from "../../schemas/file-tag.js";
 import type { IngestOutput } from "../../schemas/ingest-output.js";
@@ -21,13 +22,13 @@ function makeTempDir(): string {
   return tempDir;
 }
 
-function makeCtx(inputPaths: string[]) {
+function makeCtx(inputPaths: string[], ingestLimits?: IngestLimits) {
   return {
     config: {
       assignment_id: "test",
       input_paths: inputPaths,
       output_dir: join(tempDir, "output"),
-
+      ...(ingestLimits ? { ingest_limits: ingestLimits } : {}),
     },
     run_id: "test-run",
   };
@@ -39,6 +40,190 @@ afterEach(() => {
   }
 });
 
+/**
+ * Build a minimal but well-formed PDF with one page per content stream.
+ * Uses the standard Helvetica font (no ToUnicode) unless a CMap is given,
+ * in which case the font is a Type0 font with that ToUnicode stream.
+ */
+function makePdf(
+  pageContents: string[],
+  options: { compress?: boolean; toUnicode?: string } = {},
+): Buffer {
+  const objects: string[] = [];
+  const add = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+  const stream = (data: string): string => {
+    if (!options.compress) {
+      return `<< /Length ${data.length} >>\nstream\n${data}\nendstream`;
+    }
+    const packed = deflateSync(Buffer.from(data, "latin1")).toString("latin1");
+    return `<< /Length ${packed.length} /Filter /FlateDecode >>\nstream\n${packed}\nendstream`;
+  };
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(""); // Pages placeholder, filled in below
+  const fontId = options.toUnicode
+    ? add(`<< /Type /Font /Subtype /Type0 /BaseFont /Test /ToUnicode ${objects.length + 2} 0 R >>`)
+    : add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  if (options.toUnicode) add(stream(options.toUnicode));
+
+  const pageIds: number[] = [];
+  for (const content of pageContents) {
+    const contentId = add(stream(content));
+    pageIds.push(
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+        `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+      ),
+    );
+  }
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefAt = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    out += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+/**
+ * Build a gzip-compressed ustar archive in memory.
+ */
+function makeTarGz(entries: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(entries)) {
+    const body = Buffer.from(content, "utf-8");
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, "utf-8");
+    header.write("0000644\0", 100, "ascii");
+    header.write(`${body.length.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+    header.write("0", 156, "ascii");
+    header.write("ustar\0", 257, "ascii");
+    header.fill(0x20, 148, 156);
+    let sum = 0;
+    for (const byte of header) sum += byte;
+    header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+    blocks.push(header, body, Buffer.alloc((512 - (body.length % 512)) % 512));
+  }
+  return gzipSync(Buffer.concat([...blocks, Buffer.alloc(1024)]));
+}
+
+/**
+ * Build a ZIP archive in memory with deflated entries.
+ */
+function makeZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const raw = Buffer.from(content, "utf-8");
+    const data = deflateRawSync(raw);
+    const nameBytes = Buffer.from(name, "utf-8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(Bun.hash.crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(Bun.hash.crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(entries).length, 8);
+  eocd.writeUInt16LE(Object.keys(entries).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+/**
+ * Build a minimal .pptx package. Slides are listed in presentation.xml in
+ * the given order; part filenames are numbered in reverse to prove that
+ * ordering comes from the slide id list, not the filenames.
+ */
+function makePptx(
+  slides: { title?: string; body?: string[]; notes?: string[] }[],
+): Buffer {
+  const paragraphs = (texts: string[]): string =>
+    texts.map((t) => `<a:p><a:r><a:t>${t}</a:t></a:r></a:p>`).join("");
+  const shape = (texts: string[], placeholder?: string): string =>
+    `<p:sp><p:nvSpPr><p:cNvPr id="1" name="s"/><p:cNvSpPr/><p:nvPr>` +
+    `${placeholder ? `<p:ph type="${placeholder}"/>` : ""}</p:nvPr></p:nvSpPr>` +
+    `<p:txBody>${paragraphs(texts)}</p:txBody></p:sp>`;
+
+  const entries: Record<string, string> = {};
+  const sldIds: string[] = [];
+  const presRels: string[] = [];
+
+  slides.forEach((slide, i) => {
+    const n = slides.length - i;
+    const shapes =
+      (slide.title !== undefined ? shape([slide.title], "title") : "") +
+      (slide.body ? shape(slide.body) : "");
+    entries[`ppt/slides/slide${n}.xml`] =
+      `<p:sld><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+    sldIds.push(`<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`);
+    presRels.push(`<Relationship Id="rId${i + 1}" Type="http://x/slide" Target="slides/slide${n}.xml"/>`);
+
+    if (slide.notes) {
+      entries[`ppt/notesSlides/notesSlide${n}.xml`] =
+        `<p:notes><p:cSld><p:spTree>${shape(["Slide image"], "sldImg")}` +
+        `${shape(slide.notes, "body")}${shape([String(i + 1)], "sldNum")}</p:spTree></p:cSld></p:notes>`;
+      entries[`ppt/slides/_rels/slide${n}.xml.rels`] =
+        `<Relationships><Relationship Id="rId1" Type="http://x/notesSlide" ` +
+        `Target="../notesSlides/notesSlide${n}.xml"/></Relationships>`;
+    }
+  });
+
+  entries["ppt/presentation.xml"] =
+    `<p:presentation><p:sldIdLst>${sldIds.join("")}</p:sldIdLst></p:presentation>`;
+  entries["ppt/_rels/presentation.xml.rels"] = `<Relationships>${presRels.join("")}</Relationships>`;
+  return makeZip(entries);
+}
+
+/**
+ * Build a minimal .docx package from WordprocessingML body content.
+ * Use docxPara() to build paragraphs.
+ */
+function makeDocx(body: string, stylesXml?: string): Buffer {
+  const entries: Record<string, string> = {
+    "word/document.xml": `<w:document><w:body>${body}<w:sectPr/></w:body></w:document>`,
+  };
+  if (stylesXml) entries["word/styles.xml"] = stylesXml;
+  return makeZip(entries);
+}
+
+function docxPara(text: string, props = ""): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
 // ── File Discovery ──────────────────────────────────────────────
 
 describe("file discovery", () => {
@@ -60,8 +245,8 @@ describe("file discovery", () => {
     const dir = makeTempDir();
     writeFileSync(join(dir, "readme.md"), "# Hello");
     writeFileSync(join(dir, "data.json"), '{"key": "value"}');
-    writeFileSync(join(dir, "script.js"), "console.log('hi')");
-    writeFileSync(join(dir, "doc.pdf"), "fake pdf");
+    writeFileSync(join(dir, "styles.css"), "body { margin: 0 }");
+    writeFileSync(join(dir, "image.png"), "fake png");
     const ctx = makeCtx([dir]);
 
     const result = await ingestStage.run(undefined, ctx);
@@ -215,6 +400,42 @@ describe("file discovery", () => {
     expect(fileIds).toContain("linked/doc.txt");
   });
 
+  test("skips a symlink back to an ancestor directory instead of looping", async () => {
+    const dir = makeTempDir();
+    mkdirSync(join(dir, "sub"));
+    writeFileSync(join(dir, "sub", "notes.md"), "# Notes");
+    symlinkSync(dir, join(dir, "sub", "loop"));
+
+    const result = (await ingestStage.run(undefined, makeCtx([dir]))) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["sub/notes.md"]);
+    expect(result.skipped).toEqual([
+      { path: "sub/loop/", reason: "symlink", detail: "same directory as the input directory" },
+    ]);
+  });
+
+  test("walks a directory reached by two symlinks only once", async () => {
+    const dir = makeTempDir();
+    mkdirSync(join(dir, "shared"));
+    writeFileSync(join(dir, "shared", "doc.txt"), "Shared document");
+    mkdirSync(join(dir, "root"));
+    symlinkSync(join(dir, "shared"), join(dir, "root", "a"));
+    symlinkSync(join(dir, "shared"), join(dir, "root", "b"));
+
+    const result = (await ingestStage.run(undefined, makeCtx([join(dir, "root")]))) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["a/doc.txt"]);
+    expect(result.skipped).toEqual([{ path: "b/", reason: "symlink", detail: "same directory as a/" }]);
+  });
+
+  test("reports a symlink that points to itself", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    symlinkSync(join(dir, "self"), join(dir, "self"));
+
+    const result = (await ingestStage.run(undefined, makeCtx([dir]))) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.md"]);
+    expect(result.skipped).toEqual([{ path: "self", reason: "symlink", detail: "cannot be resolved (ELOOP)" }]);
+  });
+
   test("no ../ appears in any file_id", async () => {
     const dir = makeTempDir();
     mkdirSync(join(dir, "a", "b"), { recursive: true });
@@ -234,6 +455,484 @@ describe("file discovery", () => {
   });
 });
 
+describe("ignore rules", () => {
+  test("skips built-in default directories like node_modules and .git", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    mkdirSync(join(dir, "node_modules", "lib"), { recursive: true });
+    writeFileSync(join(dir, "node_modules", "lib", "readme.md"), "# Dependency");
+    mkdirSync(join(dir, ".git"));
+    writeFileSync(join(dir, ".git", "description.txt"), "Unnamed repository");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.md"]);
+    expect(result.skipped).toEqual([
+      { path: ".git/", reason: "ignored", detail: "built-in defaults: .git/" },
+      { path: "node_modules/", reason: "ignored", detail: "built-in defaults: node_modules/" },
+    ]);
+  });
+
+  test("skips Office lock files by default", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.docx"), makeDocx("<w:p><w:r><w:t>Implement malloc.</w:t></w:r></w:p>"));
+    writeFileSync(join(dir, "~$spec.docx"), Buffer.from([0x05, 0x61, 0x67, 0x65, 0x6e, 0x74]));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.docx"]);
+    expect(result.skipped).toEqual([{ path: "~$spec.docx", reason: "ignored", detail: "built-in defaults: ~$*" }]);
+  });
+
+  test("honors .gitignore, including nested ones", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, ".gitignore"), "*.log.md\n/drafts/\n");
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    writeFileSync(join(dir, "debug.log.md"), "# Log");
+    mkdirSync(join(dir, "drafts"));
+    writeFileSync(join(dir, "drafts", "old.md"), "# Old");
+    mkdirSync(join(dir, "starter"));
+    writeFileSync(join(dir, "starter", ".gitignore"), "scratch.txt\n");
+    writeFileSync(join(dir, "starter", "scratch.txt"), "scratch");
+    writeFileSync(join(dir, "starter", "main.c"), "int main(void) { return 0; }");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags).sort()).toEqual(["spec.md", "starter/main.c"]);
+    expect(result.skipped!.map((s) => [s.path, s.detail])).toEqual([
+      ["debug.log.md", ".gitignore: *.log.md"],
+      ["drafts/", ".gitignore: /drafts/"],
+      ["starter/scratch.txt", "starter/.gitignore: scratch.txt"],
+    ]);
+  });
+
+  test(".workpacketignore overrides .gitignore and the defaults", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, ".gitignore"), "*.txt\n");
+    writeFileSync(join(dir, ".workpacketignore"), "!notes.txt\n!build/\nspec-old.md\n");
+    writeFileSync(join(dir, "notes.txt"), "Notes");
+    writeFileSync(join(dir, "other.txt"), "Other");
+    writeFileSync(join(dir, "spec-old.md"), "# Old spec");
+    mkdirSync(join(dir, "build"));
+    writeFileSync(join(dir, "build", "handout.md"), "# Handout");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags).sort()).toEqual(["build/handout.md", "notes.txt"]);
+  });
+
+  test("reports unsupported files as skipped", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    writeFileSync(join(dir, "image.png"), "fake png");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.skipped).toEqual([{ path: "image.png", reason: "unsupported" }]);
+  });
+
+  test("explicit file inputs bypass ignore rules", async () => {
+    const dir = makeTempDir();
+    mkdirSync(join(dir, "build"));
+    writeFileSync(join(dir, "build", "spec.md"), "# Spec");
+    const ctx = makeCtx([join(dir, "build", "spec.md")]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.md"]);
+  });
+});
+
+describe("manifest", () => {
+  test("manifest tags override inferred tags", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [{ match: "hw*.md", tag: "spec" }],
+    }));
+    writeFileSync(join(dir, "hw3.md"), "# Homework 3");
+    writeFileSync(join(dir, "readme.md"), "# Readme");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags).toEqual({ "hw3.md": "spec", "readme.md": "notes" });
+  });
+
+  test("yaml manifest excludes files and marks authoritative ones", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.yaml"), [
+      "title: Malloc Lab",
+      "files:",
+      "  - match: \"*.md\"",
+      "    authoritative: true",
+      "  - match: drafts/",
+      "    exclude: true",
+      "  - match: notes.md",
+      "    authoritative: false",
+    ].join("\n"));
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+    mkdirSync(join(dir, "drafts"));
+    writeFileSync(join(dir, "drafts", "old.md"), "# Old");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags).sort()).toEqual(["notes.md", "spec.md"]);
+    expect(result.authoritative_files).toEqual(["spec.md"]);
+    // The manifest itself is neither ingested nor reported
+    expect(result.skipped).toEqual([
+      { path: "drafts/old.md", reason: "excluded", detail: "workpacket.yaml: drafts/" },
+    ]);
+  });
+
+  test("invalid manifest throws with the offending field", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [{ match: "*.md", tag: "rubric" }],
+    }));
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    const ctx = makeCtx([dir]);
+
+    await expect(ingestStage.run(undefined, ctx)).rejects.toThrow(
+      /Invalid workpacket\.json: files\.0\.tag/,
+    );
+  });
+});
+
+describe("ingest limits", () => {
+  test("throws when there are more files than max_files", async () => {
+    const dir = makeTempDir();
+    for (const name of ["a.md", "b.md", "c.md"]) writeFileSync(join(dir, name), `# ${name}`);
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_files: 2 }))).rejects.toThrow(
+      /exceeds max_files \(2\): more than 2 files \(reached c\.md\)/,
+    );
+  });
+
+  test("counts archive members toward max_files", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "starter.zip"), makeZip({ "a.md": "# A", "b.md": "# B" }));
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_files: 2 }))).rejects.toThrow(
+      /exceeds max_files .*reached starter\.zip!\/b\.md/,
+    );
+  });
+
+  test("throws when the input is larger than max_bytes", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "a.md"), "x".repeat(60));
+    writeFileSync(join(dir, "b.md"), "x".repeat(60));
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_bytes: 100 }))).rejects.toThrow(
+      /exceeds max_bytes \(100\).*reached b\.md/,
+    );
+  });
+
+  test("checks a JSON file against max_bytes before reading it", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec\n\nBuild it.\n");
+    writeFileSync(join(dir, "data.json"), JSON.stringify({ rows: "x".repeat(50_000) }));
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_bytes: 10_000 }))).rejects.toThrow(
+      /exceeds max_bytes \(10000\).*reached data\.json/,
+    );
+  });
+
+  test("counts archive members at their decompressed size", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "starter.zip"), makeZip({ "big.txt": "x".repeat(50_000) }));
+    writeFileSync(join(dir, "handout.tar.gz"), makeTarGz({ "big.txt": "x".repeat(50_000) }));
+    expect(statSync(join(dir, "starter.zip")).size).toBeLessThan(1000);
+
+    await expect(ingestStage.run(undefined, makeCtx([join(dir, "starter.zip")], { max_bytes: 10_000 }))).rejects.toThrow(
+      /exceeds max_bytes \(10000\).*reached starter\.zip!\/big\.txt/,
+    );
+    await expect(ingestStage.run(undefined, makeCtx([join(dir, "handout.tar.gz")], { max_bytes: 10_000 }))).rejects.toThrow(
+      /exceeds max_bytes \(10000\).*reached handout\.tar\.gz/,
+    );
+  });
+
+  test("counts what PDF streams decompress to", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "slides.pdf"), makePdf([`BT /F1 12 Tf (Hello) Tj ET${" ".repeat(50_000)}`], { compress: true }));
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_bytes: 10_000 }))).rejects.toThrow(
+      /exceeds max_bytes \(10000\).*reached slides\.pdf/,
+    );
+    const result = (await ingestStage.run(undefined, makeCtx([dir], { max_bytes: 100_000 }))) as IngestOutput;
+    expect(result.chunks[0]!.text).toBe("Hello");
+  });
+
+  test("throws when directories nest deeper than max_depth", async () => {
+    const dir = makeTempDir();
+    mkdirSync(join(dir, "a", "b", "c"), { recursive: true });
+    writeFileSync(join(dir, "a", "b", "c", "deep.md"), "# Deep");
+
+    await expect(ingestStage.run(undefined, makeCtx([dir], { max_depth: 2 }))).rejects.toThrow(
+      /exceeds max_depth \(2\): a\/b\/c\/ is nested/,
+    );
+  });
+
+  test("ignored directories do not count toward the limits", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, ".workpacketignore"), "vendor/\n");
+    mkdirSync(join(dir, "vendor"));
+    for (let i = 0; i < 5; i++) writeFileSync(join(dir, "vendor", `lib${i}.c`), "int x;");
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+
+    const result = (await ingestStage.run(undefined, makeCtx([dir], { max_files: 1 }))) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.md"]);
+  });
+});
+
+describe("archives", () => {
+  test("zip members are ingested as a virtual directory", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "starter.zip"), makeZip({
+      "src/main.c": "int main(void) {\n  return 0;\n}\n",
+      "README.md": "# Starter\n\nBuild with make.",
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags).sort()).toEqual([
+      "starter.zip!/README.md",
+      "starter.zip!/src/main.c",
+    ]);
+    expect(result.file_tags["starter.zip!/src/main.c"]).toBe("code");
+    const main = result.chunks.find((c) => c.source_ref.file_id === "starter.zip!/src/main.c")!;
+    expect(main.text).toContain("int main(void)");
+    expect(main.source_ref.line_start).toBe(1);
+  });
+
+  test("tar.gz members are ingested as a virtual directory", async () => {
+    const dir = makeTempDir();
+    mkdirSync(join(dir, "handouts"));
+    writeFileSync(join(dir, "handouts", "hw1.tar.gz"), makeTarGz({
+      "hw1/spec.md": "# Spec\n\nYou must implement malloc.",
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags).toEqual({ "handouts/hw1.tar.gz!/hw1/spec.md": "spec" });
+  });
+
+  test("ignore rules apply inside archives", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, ".gitignore"), "*.txt\n");
+    writeFileSync(join(dir, "starter.zip"), makeZip({
+      ".gitignore": "scratch/\n",
+      "main.py": "print('hi')\n",
+      "notes.txt": "ignored by the outer .gitignore",
+      "scratch/try.py": "print('scratch')\n",
+      "node_modules/lib/index.js": "module.exports = {};\n",
+      "logo.png": "fake png",
+      "tests.zip": "nested",
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["starter.zip!/main.py"]);
+    expect(result.skipped).toEqual([
+      { path: "starter.zip!/logo.png", reason: "unsupported" },
+      { path: "starter.zip!/node_modules/lib/index.js", reason: "ignored", detail: "built-in defaults: node_modules/" },
+      { path: "starter.zip!/notes.txt", reason: "ignored", detail: ".gitignore: *.txt" },
+      { path: "starter.zip!/scratch/try.py", reason: "ignored", detail: "starter.zip!/.gitignore: scratch/" },
+      { path: "starter.zip!/tests.zip", reason: "unsupported", detail: "nested archive" },
+    ]);
+  });
+
+  test("manifest rules match archive members", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [
+        { match: "bundle.zip!/handout.md", tag: "spec", authoritative: true },
+        { match: "bundle.zip!/old/", exclude: true },
+      ],
+    }));
+    writeFileSync(join(dir, "bundle.zip"), makeZip({
+      "handout.md": "# Handout",
+      "old/handout.md": "# Old handout",
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags).toEqual({ "bundle.zip!/handout.md": "spec" });
+    expect(result.authoritative_files).toEqual(["bundle.zip!/handout.md"]);
+    expect(result.skipped).toEqual([
+      { path: "bundle.zip!/old/handout.md", reason: "excluded", detail: "workpacket.json: bundle.zip!/old/" },
+    ]);
+  });
+
+  test("an archive given as a file input is expanded", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "starter.zip"), makeZip({ "main.c": "int x;\n" }));
+    const ctx = makeCtx([join(dir, "starter.zip")]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["starter.zip!/main.c"]);
+  });
+
+  test("members the zip reader cannot decode are skipped as unreadable", async () => {
+    const dir = makeTempDir();
+    const zip = makeZip({
+      ".gitignore": "scratch/\n",
+      "data.json": "[]",
+      "secret.txt": "hidden",
+      "spec.md": "# Spec\n\nYou must implement malloc.",
+    });
+    // Mark every member but spec.md as compressed with method 12 (bzip2)
+    let entry = zip.readUInt32LE(zip.length - 22 + 16);
+    while (zip.readUInt32LE(entry) === 0x02014b50) {
+      const nameLength = zip.readUInt16LE(entry + 28);
+      if (zip.toString("utf-8", entry + 46, entry + 46 + nameLength) !== "spec.md") zip.writeUInt16LE(12, entry + 10);
+      entry += 46 + nameLength + zip.readUInt16LE(entry + 30) + zip.readUInt16LE(entry + 32);
+    }
+    writeFileSync(join(dir, "starter.zip"), zip);
+
+    const result = (await ingestStage.run(undefined, makeCtx([dir]))) as IngestOutput;
+    expect(result.chunks.map((c) => c.text)).toEqual(["# Spec\n\nYou must implement malloc."]);
+    expect(result.skipped).toEqual(["starter.zip!/.gitignore", "starter.zip!/data.json", "starter.zip!/secret.txt"].map((path) => ({
+      path,
+      reason: "unreadable",
+      detail: `Unsupported zip compression method 12 for entry: ${path.slice("starter.zip!/".length)}`,
+    })));
+  });
+
+  test("corrupt archive throws with the archive's file_id", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "broken.tgz"), "not an archive");
+    const ctx = makeCtx([dir]);
+
+    await expect(ingestStage.run(undefined, ctx)).rejects.toThrow(
+      /Not a valid archive: broken\.tgz/,
+    );
+  });
+});
+
+describe("course exports", () => {
+  function makeCartridge(): Buffer {
+    return makeZip({
+      "imsmanifest.xml": "<manifest identifier=\"x\"><resources/></manifest>",
+      "course_settings/course_settings.xml": "<course><title>CS 101</title></course>",
+      "course_settings/canvas_export.txt": "export marker",
+      "course_settings/rubrics.xml": [
+        "<rubrics>",
+        "  <rubric identifier=\"r1\">",
+        "    <title>Malloc Rubric</title>",
+        "    <points_possible>100</points_possible>",
+        "    <criteria>",
+        "      <criterion>",
+        "        <criterion_id>_1</criterion_id>",
+        "        <description>Correctness</description>",
+        "        <long_description>Passes all traces &amp; checks</long_description>",
+        "        <points>60</points>",
+        "        <ratings>",
+        "          <rating><description>Full marks</description><points>60</points></rating>",
+        "          <rating><description>No marks</description><points>0</points></rating>",
+        "        </ratings>",
+        "      </criterion>",
+        "      <criterion>",
+        "        <description>Style</description>",
+        "        <points>40</points>",
+        "      </criterion>",
+        "    </criteria>",
+        "  </rubric>",
+        "</rubrics>",
+      ].join("\n"),
+      "g1a2/assignment_settings.xml": [
+        "<assignment identifier=\"g1a2\">",
+        "  <title>Malloc Lab</title>",
+        "  <due_at>2024-10-01T23:59:00</due_at>",
+        "  <points_possible>100.0</points_possible>",
+        "  <submission_types>online_upload,online_text_entry</submission_types>",
+        "</assignment>",
+      ].join("\n"),
+      "g1a2/malloc-lab.html": [
+        "<html><head><title>Malloc Lab</title></head><body>",
+        "<p>You will implement a dynamic memory allocator.</p>",
+        "<h2>Requirements</h2>",
+        "<ul><li>Implement <code>mm_malloc</code></li><li>No global arrays&nbsp;allowed</li></ul>",
+        "<h2>Grading</h2>",
+        "<table><tr><th>Part</th><th>Points</th></tr><tr><td>Correctness</td><td>60</td></tr></table>",
+        "</body></html>",
+      ].join("\n"),
+      "web_resources/handout.md": "# Handout\n\nAllocator background.",
+    });
+  }
+
+  test("assignment descriptions become spec chunks with their settings", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "course.imscc"), makeCartridge());
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const fileId = "course.imscc!/g1a2/malloc-lab.html";
+    expect(result.file_tags[fileId]).toBe("spec");
+    expect(result.file_classifications![fileId]!.evidence).toEqual([
+      "assignment description in course export",
+    ]);
+
+    const chunks = result.chunks.filter((c) => c.file_id === fileId);
+    expect(chunks.map((c) => c.source_ref.section)).toEqual([
+      "Malloc Lab",
+      "Malloc Lab > Requirements",
+      "Malloc Lab > Grading",
+    ]);
+    expect(chunks[0]!.text).toBe([
+      "Malloc Lab",
+      "Points possible: 100.0",
+      "Due: 2024-10-01T23:59:00",
+      "Submission types: online_upload, online_text_entry",
+      "You will implement a dynamic memory allocator.",
+    ].join("\n"));
+    expect(chunks[1]!.text).toBe("Requirements\n- Implement mm_malloc\n- No global arrays allowed");
+    expect(chunks[2]!.text).toBe("Grading\nPart | Points\nCorrectness | 60");
+  });
+
+  test("rubric criteria become chunks with point values", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "course.imscc"), makeCartridge());
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const fileId = "course.imscc!/course_settings/rubrics.xml";
+    expect(result.file_tags[fileId]).toBe("spec");
+    const chunks = result.chunks.filter((c) => c.file_id === fileId);
+    expect(chunks.map((c) => c.source_ref.section)).toEqual([
+      "Malloc Rubric > Correctness",
+      "Malloc Rubric > Style",
+    ]);
+    expect(chunks[0]!.text).toBe(
+      "Correctness (60 pts)\nPasses all traces & checks\n- Full marks (60 pts)\n- No marks (0 pts)",
+    );
+    expect(chunks[1]!.text).toBe("Style (40 pts)");
+  });
+
+  test("attachments are ingested and export metadata is dropped", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "course.imscc"), makeCartridge());
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags).sort()).toEqual([
+      "course.imscc!/course_settings/rubrics.xml",
+      "course.imscc!/g1a2/malloc-lab.html",
+      "course.imscc!/web_resources/handout.md",
+    ]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  test("a zip without imsmanifest.xml is a plain archive", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "bundle.zip"), makeZip({
+      "course_settings/notes.txt": "Just notes",
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["bundle.zip!/course_settings/notes.txt"]);
+  });
+});
+
 // ── Markdown Chunking ───────────────────────────────────────────
 
 describe("markdown chunking", () => {
@@ -349,10 +1048,10 @@ describe("markdown chunking", () => {
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    // Should be a single chunk — the code fence headings should not split
-    expect(output.chunks).toHaveLength(1);
-    expect(output.chunks[0]!.text).toContain("# Not a heading");
-    expect(output.chunks[0]!.text).toContain("## Also not");
+    // The code block is its own chunk, but its headings open no sections
+    expect(output.chunks.map((c) => c.source_ref.section)).toEqual(["Real Heading", "Real Heading", "Real Heading"]);
+    expect(output.chunks[1]!.text).toContain("# Not a heading");
+    expect(output.chunks[1]!.text).toContain("## Also not");
   });
 
   test("headings after closing code fence are treated as chunk boundaries", async () => {
@@ -366,132 +1065,1481 @@ describe("markdown chunking", () => {
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    expect(output.chunks).toHaveLength(2);
-    expect(output.chunks[0]!.text).toContain("# Before");
-    expect(output.chunks[0]!.text).toContain("# Inside fence");
-    expect(output.chunks[1]!.text).toContain("# After");
+    expect(output.chunks.map((c) => c.source_ref.section)).toEqual(["Before", "Before", "After"]);
+    expect(output.chunks[1]!.text).toContain("# Inside fence");
+    expect(output.chunks[2]!.text).toContain("# After");
   });
 
-  test("tilde fenced code blocks also prevent heading splitting", async () => {
+  test("records the heading breadcrumb as source_ref.section", async () => {
     const dir = makeTempDir();
     writeFileSync(
       join(dir, "doc.md"),
-      "# Heading\n~~~\n# Not a heading\n~~~\n# Second Heading\nContent",
+      "# Part 2\nIntro\n## Memory Allocator\nText\n### Requirements\nMust align\n" +
+      "## Testing\nRun tests\n# Part 3\nLater",
     );
     const ctx = makeCtx([dir]);
 
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    expect(output.chunks).toHaveLength(2);
-    expect(output.chunks[0]!.text).toContain("# Not a heading");
-    expect(output.chunks[1]!.text).toContain("# Second Heading");
+    expect(output.chunks.map((c) => c.source_ref.section)).toEqual([
+      "Part 2",
+      "Part 2 > Memory Allocator",
+      "Part 2 > Memory Allocator > Requirements",
+      "Part 2 > Testing",
+      "Part 3",
+    ]);
   });
-});
-
-// ── Plain Text Chunking ─────────────────────────────────────────
 
-describe("plain text chunking", () => {
-  test("splits by blank lines (paragraphs)", async () => {
+  test("preamble chunk has no section", async () => {
     const dir = makeTempDir();
-    writeFileSync(
-      join(dir, "doc.txt"),
-      "Paragraph one.\n\nParagraph two.\n\nParagraph three.",
-    );
+    writeFileSync(join(dir, "doc.md"), "Preamble\n\n# Heading\nBody");
     const ctx = makeCtx([dir]);
 
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    expect(output.chunks).toHaveLength(3);
-    expect(output.chunks[0]!.text).toBe("Paragraph one.");
-    expect(output.chunks[1]!.text).toBe("Paragraph two.");
-    expect(output.chunks[2]!.text).toBe("Paragraph three.");
+    expect(output.chunks[0]!.source_ref.section).toBeUndefined();
+    expect(output.chunks[1]!.source_ref.section).toBe("Heading");
   });
 
-  test("multiple consecutive blank lines treated as one separator", async () => {
+  test("section strips closing hashes and handles skipped heading levels", async () => {
     const dir = makeTempDir();
-    writeFileSync(
-      join(dir, "doc.txt"),
-      "First paragraph.\n\n\n\nSecond paragraph.",
-    );
+    writeFileSync(join(dir, "doc.md"), "# Top ##\nA\n### Deep\nB\n## Mid\nC");
     const ctx = makeCtx([dir]);
 
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    expect(output.chunks).toHaveLength(2);
-    expect(output.chunks[0]!.text).toBe("First paragraph.");
-    expect(output.chunks[1]!.text).toBe("Second paragraph.");
+    expect(output.chunks.map((c) => c.source_ref.section)).toEqual([
+      "Top",
+      "Top > Deep",
+      "Top > Mid",
+    ]);
   });
 
-  test("single-paragraph file becomes one chunk", async () => {
+  test("headings inside fenced code blocks do not affect the breadcrumb", async () => {
     const dir = makeTempDir();
-    writeFileSync(join(dir, "doc.txt"), "Just one paragraph\nwith two lines.");
+    writeFileSync(
+      join(dir, "doc.md"),
+      "# Real\n```\n# Fake\n```\n## Child\nText",
+    );
     const ctx = makeCtx([dir]);
 
     const result = await ingestStage.run(undefined, ctx);
     const output = result as { chunks: Chunk[] };
 
-    expect(output.chunks).toHaveLength(1);
-    expect(output.chunks[0]!.text).toBe("Just one paragraph\nwith two lines.");
+    expect(output.chunks[1]!.source_ref.section).toBe("Real > Child");
   });
 
-  test("empty text file produces no chunks", async () => {
+  test("tilde fenced code blocks also prevent heading splitting", async () => {
     const dir = makeTempDir();
-    writeFileSync(join(dir, "empty.txt"), "");
-    writeFileSync(join(dir, "nonempty.md"), "# Has content");
+    writeFileSync(
+      join(dir, "doc.md"),
+      "# Heading\n~~~\n# Not a heading\n~~~\n# Second Heading\nContent",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(2);
+    expect(output.chunks[0]!.text).toContain("# Not a heading");
+    expect(output.chunks[1]!.text).toContain("# Second Heading");
+  });
+
+  test("a rubric table is its own chunk and keeps the heading above it", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.md"),
+      "## Grading\n\n| Criterion | Points |\n|---|---:|\n| Tests pass | 50 |\n| Style | 10 |\n\nLate work loses 10% per day.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.kind, c.source_ref.line_start, c.source_ref.line_end])).toEqual([
+      ["table", 1, 6],
+      ["prose", 8, 8],
+    ]);
+    expect(result.chunks[0]!.text).toStartWith("## Grading\n\n| Criterion | Points |");
+    expect(result.chunks[0]!.source_ref.section).toBe("Grading");
+  });
+
+  test("a fenced code block is one chunk with its language, blank lines included", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.md"),
+      "# Interface\nImplement these:\n```C\nvoid *mm_malloc(size_t size);\n\nvoid mm_free(void *ptr);\n```\nThen test them.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.kind, c.language, c.source_ref.line_start, c.source_ref.line_end])).toEqual([
+      ["prose", undefined, 1, 2],
+      ["code", "c", 3, 7],
+      ["prose", undefined, 8, 8],
+    ]);
+    expect(result.chunks[1]!.text).toContain("mm_malloc(size_t size);\n\nvoid mm_free");
+  });
+
+  test("a section holding only list items is a list", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "doc.md"),
+      "# Steps\n- Clone the repo\n- Run make\n  (needs gcc)\n\n1. Submit\n# Notes\nSome prose.\n- then a list",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => c.kind)).toEqual(["list", "prose"]);
+  });
+
+  test("a pipe in prose without a delimiter row is not a table", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "doc.md"), "# Shell\nUse `ls | wc -l` to count.\n---\nDone.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => c.kind)).toEqual(["prose"]);
+  });
+});
+
+// ── Plain Text Chunking ─────────────────────────────────────────
+
+describe("plain text chunking", () => {
+  test("splits by blank lines (paragraphs)", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "doc.txt"),
+      "Paragraph one.\n\nParagraph two.\n\nParagraph three.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(3);
+    expect(output.chunks[0]!.text).toBe("Paragraph one.");
+    expect(output.chunks[1]!.text).toBe("Paragraph two.");
+    expect(output.chunks[2]!.text).toBe("Paragraph three.");
+  });
+
+  test("multiple consecutive blank lines treated as one separator", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "doc.txt"),
+      "First paragraph.\n\n\n\nSecond paragraph.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(2);
+    expect(output.chunks[0]!.text).toBe("First paragraph.");
+    expect(output.chunks[1]!.text).toBe("Second paragraph.");
+  });
+
+  test("single-paragraph file becomes one chunk", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "doc.txt"), "Just one paragraph\nwith two lines.");
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.text).toBe("Just one paragraph\nwith two lines.");
+  });
+
+  test("empty text file produces no chunks", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "empty.txt"), "");
+    writeFileSync(join(dir, "nonempty.md"), "# Has content");
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    const txtChunks = output.chunks.filter((c) => c.file_id === "empty.txt");
+    expect(txtChunks).toHaveLength(0);
+  });
+
+  test("source_ref.line_start and line_end are 1-based", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "doc.txt"),
+      "Line one\nLine two\n\nLine four\nLine five",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.source_ref.line_start).toBe(1);
+    expect(output.chunks[0]!.source_ref.line_end).toBe(2);
+    expect(output.chunks[1]!.source_ref.line_start).toBe(4);
+    expect(output.chunks[1]!.source_ref.line_end).toBe(5);
+  });
+
+  test("leading blank lines before first paragraph handled correctly", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "doc.txt"), "\n\n\nFirst paragraph.");
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.text).toBe("First paragraph.");
+    expect(output.chunks[0]!.source_ref.line_start).toBe(4);
+  });
+
+  test("trailing blank lines after last paragraph handled correctly", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "doc.txt"), "Content here.\n\n\n");
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.text).toBe("Content here.");
+    expect(output.chunks[0]!.source_ref.line_start).toBe(1);
+    expect(output.chunks[0]!.source_ref.line_end).toBe(1);
+  });
+});
+
+// ── PDF Chunking ────────────────────────────────────────────────
+
+describe("pdf chunking", () => {
+  test("emits chunks with 1-based page numbers", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf([
+        "BT /F1 12 Tf 72 720 Td (Implement malloc) Tj ET",
+        "BT /F1 12 Tf 72 720 Td (Implement free) Tj ET",
+      ]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(2);
+    expect(output.chunks[0]!.text).toBe("Implement malloc");
+    expect(output.chunks[0]!.source_ref).toEqual({ file_id: "spec.pdf", page: 1 });
+    expect(output.chunks[1]!.text).toBe("Implement free");
+    expect(output.chunks[1]!.source_ref).toEqual({ file_id: "spec.pdf", page: 2 });
+  });
+
+  test("decodes FlateDecode content streams", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf(["BT /F1 12 Tf 72 720 Td (Compressed text) Tj ET"], { compress: true }),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.text).toBe("Compressed text");
+  });
+
+  test("breaks lines on vertical moves and paragraphs on large gaps", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf([
+        "BT /F1 10 Tf 72 720 Td (Line one) Tj 0 -12 Td (line two) Tj " +
+        "0 -40 Td (Second paragraph) Tj ET",
+      ]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks.map((c) => c.text)).toEqual([
+      "Line one\nline two",
+      "Second paragraph",
+    ]);
+    expect(output.chunks.every((c) => c.source_ref.page === 1)).toBe(true);
+  });
+
+  test("TJ arrays insert spaces for large negative adjustments", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf(["BT /F1 12 Tf 72 720 Td [(Hel) -20 (lo) -300 (world)] TJ ET"]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe("Hello world");
+  });
+
+  test("maps glyph codes through a ToUnicode CMap", async () => {
+    const dir = makeTempDir();
+    const cmap =
+      "begincmap\n1 begincodespacerange <0000> <FFFF> endcodespacerange\n" +
+      "1 beginbfchar <0001> <0048> endbfchar\n" +
+      "1 beginbfrange <0002> <0003> <0069> endbfrange\nendcmap";
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf(["BT /F1 12 Tf 72 720 Td <000100020003> Tj ET"], { toUnicode: cmap }),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe("Hij");
+  });
+
+  test("pages without text produce no chunks", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf(["0 0 m 100 100 l S", "BT /F1 12 Tf 72 720 Td (Only page two) Tj ET"]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.source_ref.page).toBe(2);
+  });
+
+  test("pdf chunks conform to ChunkSchema", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.pdf"),
+      makePdf(["BT /F1 12 Tf 72 720 Td (Schema check) Tj ET"]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    for (const chunk of output.chunks) {
+      expect(() => ChunkSchema.parse(chunk)).not.toThrow();
+    }
+  });
+
+  test("skips a file with a .pdf extension that is not a PDF", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "doc.pdf"), "fake pdf");
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["notes.md"]);
+    expect(result.skipped).toEqual([{ path: "doc.pdf", reason: "unreadable", detail: expect.stringMatching(/Not a valid PDF file: doc\.pdf/) }]);
+  });
+});
+
+// ── PowerPoint Chunking ─────────────────────────────────────────
+
+describe("pptx chunking", () => {
+  test("emits one chunk per slide with slide number and title", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "deck.pptx"),
+      makePptx([
+        { title: "Free Lists", body: ["Blocks are linked", "First fit"] },
+        { title: "Coalescing", body: ["Merge adjacent blocks"] },
+      ]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(2);
+    expect(output.chunks[0]!.text).toBe("Free Lists\nBlocks are linked\nFirst fit");
+    expect(output.chunks[0]!.source_ref).toEqual({
+      file_id: "deck.pptx",
+      page: 1,
+      section: "Free Lists",
+    });
+    expect(output.chunks[1]!.source_ref.page).toBe(2);
+    expect(output.chunks[1]!.source_ref.section).toBe("Coalescing");
+  });
+
+  test("includes speaker notes but not notes-page placeholders", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "deck.pptx"),
+      makePptx([{ title: "Heap", body: ["Layout"], notes: ["Mention alignment"] }]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe("Heap\nLayout\nSpeaker notes:\nMention alignment");
+    expect(output.chunks[0]!.text).not.toContain("Slide image");
+  });
+
+  test("slides without a title omit section", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "deck.pptx"), makePptx([{ body: ["Untitled content"] }]));
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.source_ref).toEqual({ file_id: "deck.pptx", page: 1 });
+  });
+
+  test("empty slides are skipped but keep numbering", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "deck.pptx"),
+      makePptx([{}, { title: "Second", body: ["Content"] }]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.source_ref.page).toBe(2);
+  });
+
+  test("decodes XML entities in slide text", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "deck.pptx"),
+      makePptx([{ title: "Q&amp;A", body: ["a &lt; b &#8594; c"] }]),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe("Q&A\na < b \u2192 c");
+  });
+
+  test("pptx files are tagged as slides regardless of name", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "week3.pptx"), makePptx([{ title: "Week 3" }]));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["week3.pptx"]).toBe("slides");
+  });
+
+  test("skips a .pptx file that is not a zip package", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "deck.pptx"), "not a zip");
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["notes.md"]);
+    expect(result.skipped).toEqual([{ path: "deck.pptx", reason: "unreadable", detail: expect.stringMatching(/Not a valid PowerPoint file: deck\.pptx/) }]);
+  });
+});
+
+// ── Word Chunking ───────────────────────────────────────────────
+
+describe("docx chunking", () => {
+  test("splits by heading styles and records the heading as section", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.docx"),
+      makeDocx(
+        docxPara("Overview", '<w:pStyle w:val="Heading1"/>') +
+        docxPara("Build an allocator.") +
+        docxPara("Interface", '<w:pStyle w:val="Heading2"/>') +
+        docxPara("Implement mm_malloc."),
+      ),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(2);
+    expect(output.chunks[0]!.text).toBe("Overview\nBuild an allocator.");
+    expect(output.chunks[0]!.source_ref).toEqual({ file_id: "spec.docx", section: "Overview" });
+    expect(output.chunks[1]!.text).toBe("Interface\nImplement mm_malloc.");
+    expect(output.chunks[1]!.source_ref.section).toBe("Interface");
+  });
+
+  test("resolves localized heading styles through styles.xml", async () => {
+    const dir = makeTempDir();
+    const styles =
+      `<w:styles><w:style w:type="paragraph" w:styleId="berschrift1">` +
+      `<w:name w:val="heading 1"/></w:style></w:styles>`;
+    writeFileSync(
+      join(dir, "spec.docx"),
+      makeDocx(
+        docxPara("Intro text") +
+        docxPara("Aufgabe", '<w:pStyle w:val="berschrift1"/>') +
+        docxPara("Details"),
+        styles,
+      ),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks.map((c) => c.source_ref.section)).toEqual(["Preamble", "Aufgabe"]);
+    expect(output.chunks[0]!.text).toBe("Intro text");
+  });
+
+  test("treats direct outline levels as headings", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "spec.docx"),
+      makeDocx(docxPara("Grading", '<w:outlineLvl w:val="0"/>') + docxPara("50 points")),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks).toHaveLength(1);
+    expect(output.chunks[0]!.source_ref.section).toBe("Grading");
+  });
+
+  test("renders tables one row per line and list items with bullets", async () => {
+    const dir = makeTempDir();
+    const cell = (t: string) => `<w:tc>${docxPara(t)}</w:tc>`;
+    writeFileSync(
+      join(dir, "spec.docx"),
+      makeDocx(
+        docxPara("Rubric", '<w:pStyle w:val="Heading1"/>') +
+        `<w:tbl><w:tr>${cell("Item")}${cell("Points")}</w:tr>` +
+        `<w:tr>${cell("Correctness")}${cell("40")}</w:tr></w:tbl>` +
+        docxPara("Late work loses credit", '<w:numPr><w:ilvl w:val="0"/></w:numPr>'),
+      ),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe(
+      "Rubric\nItem | Points\nCorrectness | 40\n- Late work loses credit",
+    );
+  });
+
+  test("ignores tab stop definitions in paragraph properties", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "notes.docx"),
+      makeDocx(docxPara("Aligned", '<w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs>')),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(output.chunks[0]!.text).toBe("Aligned");
+  });
+
+  test("docx chunks conform to ChunkSchema", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.docx"), makeDocx(docxPara("No headings at all")));
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    for (const chunk of output.chunks) {
+      expect(() => ChunkSchema.parse(chunk)).not.toThrow();
+    }
+  });
+
+  test("skips a .docx package without word/document.xml", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.docx"), makeZip({ "other.xml": "<x/>" }));
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["notes.md"]);
+    expect(result.skipped).toEqual([{ path: "spec.docx", reason: "unreadable", detail: expect.stringMatching(/Not a valid Word document: spec\.docx/) }]);
+  });
+});
+
+// ── Code Chunking ───────────────────────────────────────────────
+
+describe("code chunking", () => {
+  const C_SOURCE = [
+    "#include <stdlib.h>",                 // 1
+    "",                                     // 2
+    "/* Block header */",                   // 3
+    "struct block {",                       // 4
+    "    size_t size;",                     // 5
+    "};",                                   // 6
+    "",                                     // 7
+    "void *mm_malloc(size_t size);",        // 8
+    "",                                     // 9
+    "/**",                                  // 10
+    " * Allocate a block. Uses \"{\" safely.",  // 11
+    " */",                                  // 12
+    "void *mm_malloc(size_t size)",         // 13
+    "{",                                    // 14
+    "    if (size == 0) { return NULL; }",  // 15
+    "    return find_fit(size);",           // 16
+    "}",                                    // 17
+    "",                                     // 18
+    "typedef struct {",                     // 19
+    "    int x;",                           // 20
+    "} point_t;",                           // 21
+  ].join("\n");
+
+  test("splits C files into top-level symbols with names as sections", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "mm.c"), C_SOURCE);
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(
+      output.chunks.map((c) => [c.source_ref.section, c.source_ref.line_start, c.source_ref.line_end]),
+    ).toEqual([
+      [undefined, 1, 1],
+      ["block", 3, 6],
+      [undefined, 8, 8],
+      ["mm_malloc", 10, 17],
+      ["point_t", 19, 21],
+    ]);
+  });
+
+  test("chunk.text matches extracted lines for code files", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "mm.c"), C_SOURCE);
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+    const originalLines = C_SOURCE.split("\n");
+
+    for (const chunk of output.chunks) {
+      const { line_start, line_end } = chunk.source_ref;
+      expect(chunk.text).toBe(originalLines.slice(line_start! - 1, line_end!).join("\n"));
+    }
+  });
+
+  test("splits Python files on top-level def and class, keeping decorators", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "solution.py"),
+      [
+        "import os",
+        "",
+        "@cache",
+        "def solve(grid):",
+        '    """Solve it.',
+        "",
+        'Column-zero docstring line."""',
+        "    return 0",
+        "",
+        "class Board:",
+        "    def move(self):",
+        "        pass",
+        "",
+        "if __name__ == '__main__':",
+        "    solve([])",
+      ].join("\n"),
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+
+    expect(
+      output.chunks.map((c) => [c.source_ref.section, c.source_ref.line_start, c.source_ref.line_end]),
+    ).toEqual([
+      [undefined, 1, 1],
+      ["solve", 3, 8],
+      ["Board", 10, 12],
+      [undefined, 14, 15],
+    ]);
+  });
+
+  test("recognizes TypeScript, Go and Rust declarations", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "api.ts"),
+      "export interface Options {\n  depth: number;\n}\n\n" +
+      "export const run = async (opts: Options): Promise<void> => {\n  return;\n};\n",
+    );
+    writeFileSync(
+      join(dir, "server.go"),
+      "package main\n\ntype Server struct {\n\taddr string\n}\n\n" +
+      "func (s *Server) Start() error {\n\treturn nil\n}\n",
+    );
+    writeFileSync(
+      join(dir, "lib.rs"),
+      "#[derive(Debug)]\npub struct Heap<'a> {\n    buf: &'a [u8],\n}\n\n" +
+      "impl<'a> Heap<'a> {\n    pub fn new() -> Self { todo!() }\n}\n",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = await ingestStage.run(undefined, ctx);
+    const output = result as { chunks: Chunk[] };
+    const sections = (fileId: string) =>
+      output.chunks.filter((c) => c.file_id === fileId).map((c) => c.source_ref.section);
+
+    expect(sections("api.ts")).toEqual(["Options", "run"]);
+    expect(sections("server.go")).toEqual([undefined, "Server", "Server.Start"]);
+    expect(sections("lib.rs")).toEqual(["Heap", "Heap<'a>"]);
+  });
+
+  test("code files are tagged as code even when named like a spec", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "assignment1.py"), "def main():\n    pass\n");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["assignment1.py"]).toBe("code");
+  });
+
+  test("code chunks record the language of the file extension", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "mm.h"), "void *mm_malloc(size_t size);\n");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.kind, c.language])).toEqual([["code", "c"]]);
+  });
+});
+
+describe("notebook chunking", () => {
+  function makeNotebook(cells: { cell_type: string; source: string | string[] }[]): string {
+    return JSON.stringify({
+      nbformat: 4,
+      nbformat_minor: 5,
+      metadata: {},
+      cells: cells.map((c) => ({ ...c, metadata: {}, outputs: [] })),
+    });
+  }
+
+  test("emits one chunk per non-empty cell with 1-based cell locators", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "hw2.ipynb"), makeNotebook([
+      { cell_type: "markdown", source: ["# Homework 2\n", "Load the dataset."] },
+      { cell_type: "code", source: "" },
+      { cell_type: "code", source: ["import pandas as pd\n", "# TODO: load data"] },
+    ]));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.length).toBe(2);
+    expect(result.chunks[0]!.text).toBe("# Homework 2\nLoad the dataset.");
+    expect(result.chunks[0]!.source_ref.cell).toBe(1);
+    expect(result.chunks[1]!.text).toBe("import pandas as pd\n# TODO: load data");
+    expect(result.chunks[1]!.source_ref.cell).toBe(3);
+  });
+
+  test("markdown headings set the section for following cells", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "lab.ipynb"), makeNotebook([
+      { cell_type: "code", source: "import numpy as np" },
+      { cell_type: "markdown", source: "# Part 1\n## Cleaning\nDrop nulls." },
+      { cell_type: "code", source: "df = df.dropna()" },
+      { cell_type: "markdown", source: "## Plotting" },
+    ]));
     const ctx = makeCtx([dir]);
 
-    const result = await ingestStage.run(undefined, ctx);
-    const output = result as { chunks: Chunk[] };
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const sections = result.chunks.map((c) => c.source_ref.section);
+    expect(sections).toEqual([undefined, "Part 1", "Part 1 > Cleaning", "Part 1 > Plotting"]);
+  });
 
-    const txtChunks = output.chunks.filter((c) => c.file_id === "empty.txt");
-    expect(txtChunks).toHaveLength(0);
+  test("markdown cells inherit the file tag and code cells are tagged code", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "hw3.ipynb"), makeNotebook([
+      { cell_type: "markdown", source: "Implement `train()`." },
+      { cell_type: "code", source: "def train():\n    pass" },
+    ]));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["hw3.ipynb"]).toBe("spec");
+    expect(result.chunks[0]!.tag).toBeUndefined();
+    expect(result.chunks[1]!.tag).toBe("code");
   });
 
-  test("source_ref.line_start and line_end are 1-based", async () => {
+  test("code cells are code in the kernel's language", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "hw4.ipynb"), JSON.stringify({
+      nbformat: 4,
+      nbformat_minor: 5,
+      metadata: { kernelspec: { name: "ir", language: "R" } },
+      cells: [
+        { cell_type: "markdown", source: "Fit a model.", metadata: {} },
+        { cell_type: "code", source: "fit <- lm(y ~ x)", metadata: {}, outputs: [] },
+      ],
+    }));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.kind, c.language])).toEqual([[undefined, undefined], ["code", "r"]]);
+  });
+
+  test("skips a notebook that is not valid JSON", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "broken.ipynb"), "{ not json");
+    writeFileSync(join(dir, "notes.md"), "# Notes");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["notes.md"]);
+    expect(result.skipped).toEqual([{ path: "broken.ipynb", reason: "unreadable", detail: expect.stringMatching(/Not a valid Jupyter notebook: broken\.ipynb/) }]);
+  });
+});
+
+describe("latex chunking", () => {
+  const PSET = [
+    "\\documentclass{article}",                       // 1
+    "\\usepackage{amsmath}",                          // 2
+    "\\newtheorem{problem}{Problem}",                 // 3
+    "\\begin{document}",                              // 4
+    "\\maketitle",                                    // 5
+    "",                                                // 6
+    "\\section{Graph Theory}",                        // 7
+    "Answer every problem. % graded out of 20",        // 8
+    "",                                                // 9
+    "\\begin{problem}[Trees]",                        // 10
+    "Prove that a tree on $n$ vertices has",           // 11
+    "\\[ |E| = n - 1 \\] edges.",                     // 12
+    "\\end{problem}",                                 // 13
+    "",                                                // 14
+    "\\subsection*{Bonus: \\textbf{Cycles}}",          // 15
+    "\\begin{problem}",                               // 16
+    "Show $\\sum_{v} \\deg(v) = 2|E|$.",                // 17
+    "\\end{problem}",                                 // 18
+    "\\end{document}",                                // 19
+    "Ignored trailing text",                           // 20
+  ].join("\n");
+
+  test("skips the preamble and splits on sections and problem environments", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "pset1.tex"), PSET);
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const refs = result.chunks.map((c) => c.source_ref);
+    expect(refs).toEqual([
+      { file_id: "pset1.tex", section: "Graph Theory", line_start: 7, line_end: 8 },
+      { file_id: "pset1.tex", section: "Graph Theory > Problem 1: Trees", line_start: 10, line_end: 13 },
+      { file_id: "pset1.tex", section: "Graph Theory > Bonus: Cycles", line_start: 15, line_end: 15 },
+      { file_id: "pset1.tex", section: "Graph Theory > Bonus: Cycles > Problem 2", line_start: 16, line_end: 18 },
+    ]);
+    expect(result.chunks.some((c) => c.text.includes("usepackage"))).toBe(false);
+    expect(result.chunks.some((c) => c.text.includes("Ignored trailing"))).toBe(false);
+  });
+
+  test("keeps math intact and chunk.text matches extracted lines", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "pset1.tex"), PSET);
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const lines = PSET.split("\n");
+    for (const chunk of result.chunks) {
+      const { line_start, line_end } = chunk.source_ref;
+      expect(chunk.text).toBe(lines.slice(line_start! - 1, line_end).join("\n"));
+    }
+    expect(result.chunks[1]!.text).toContain("\\[ |E| = n - 1 \\]");
+  });
+
+  test("does not split on sectioning commands inside verbatim or comments", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "notes.tex"), [
+      "\\section{Usage}",
+      "% \\section{Old title}",
+      "\\begin{verbatim}",
+      "\\section{Not a heading}",
+      "\\end{verbatim}",
+    ].join("\n"));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.length).toBe(1);
+    expect(result.chunks[0]!.source_ref.section).toBe("Usage");
+    expect(result.chunks[0]!.source_ref.line_end).toBe(5);
+  });
+
+  test("latex problem sets are tagged as spec", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "hw3.tex"), "\\section{Problem 1}\nProve it.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["hw3.tex"]).toBe("spec");
+  });
+});
+
+describe("html chunking", () => {
+  async function chunkPage(html: string): Promise<Chunk[]> {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "lab.html"), html);
+    const result = (await ingestStage.run(undefined, makeCtx([dir]))) as IngestOutput;
+    return result.chunks;
+  }
+
+  test("splits on h1-h6 with heading-path sections and anchors", async () => {
+    const chunks = await chunkPage([
+      "<!DOCTYPE html><html><head><title>Lab 3</title></head><body>",
+      "<p>Read this first.</p>",
+      "<h1 id=\"lab-3\">Lab 3</h1><p>Overview.</p>",
+      "<h2 id=\"requirements\">Requirements</h2><p>You must implement it.</p>",
+      "<h3><a id=\"part-a\"></a>Part A</h3><p>Do A.</p>",
+      "<h3>Part B</h3><p>Do B.</p>",
+      "<section id=\"grading\"><h2>Grading <a class=\"headerlink\" href=\"#grading\">¶</a></h2><p>50 points.</p></section>",
+      "</body></html>",
+    ].join("\n"));
+
+    expect(chunks.map((c) => [c.source_ref.section, c.source_ref.anchor])).toEqual([
+      ["Lab 3", undefined],
+      ["Lab 3", "lab-3"],
+      ["Lab 3 > Requirements", "requirements"],
+      ["Lab 3 > Requirements > Part A", "part-a"],
+      ["Lab 3 > Requirements > Part B", "requirements"],
+      ["Lab 3 > Grading", "grading"],
+    ]);
+    expect(chunks[0]!.text).toBe("Read this first.");
+    expect(chunks[2]!.text).toBe("Requirements\nYou must implement it.");
+    expect(chunks[5]!.text).toBe("Grading\n50 points.");
+  });
+
+  test("strips scripts, styles and navigation chrome", async () => {
+    const chunks = await chunkPage([
+      "<html><head><style>p { color: red; }</style></head><body>",
+      "<header><a href=\"/\">Course home</a></header>",
+      "<nav><ul><li><a href=\"/labs\">Labs</a></li></ul></nav>",
+      "<div role=\"navigation\"><div>Breadcrumbs</div></div>",
+      "<main><article><header><h1>Spec</h1></header>",
+      "<p>Body text.</p><script>track('view');</script><!-- hidden -->",
+      "</article></main>",
+      "<aside>Related pages</aside><footer>© 2024</footer>",
+      "</body></html>",
+    ].join("\n"));
+
+    expect(chunks.length).toBe(1);
+    expect(chunks[0]!.text).toBe("Spec\nBody text.");
+  });
+
+  test("renders lists, tables and preformatted text readably", async () => {
+    const chunks = await chunkPage([
+      "<h2>Steps</h2>",
+      "<ol><li>Clone the repo</li><li>Build it<ul><li>with <code>make</code></li></ul></li></ol>",
+      "<table><tr><th>Part</th><th>Points</th></tr><tr><td>A &amp; B</td><td>40</td></tr></table>",
+      "<pre>int main() {\n  return 0;\n}</pre>",
+    ].join("\n"));
+
+    expect(chunks[0]!.text).toBe([
+      "Steps",
+      "1. Clone the repo",
+      "2. Build it",
+      "  - with make",
+      "Part | Points",
+      "A & B | 40",
+      "int main() {\n  return 0;\n}",
+    ].join("\n"));
+  });
+});
+
+describe("forum exports", () => {
+  const forumJson = {
+    threads: [
+      {
+        title: "Can we use realloc?",
+        posts: [
+          { author: "Sam", role: "student", date: "2024-02-03", body: "Is realloc allowed in part 2?" },
+          {
+            author: "Prof. Lee",
+            role: "Instructor",
+            created_at: "2024-02-04",
+            body: "<p>Yes, <b>realloc</b> is allowed.</p><p>Cite this post.</p>",
+            replies: [{ author: "Kim", body: "Thanks!" }],
+          },
+        ],
+      },
+    ],
+  };
+
+  test("a JSON export becomes one chunk per post with role and date", async () => {
     const dir = makeTempDir();
+    writeFileSync(join(dir, "piazza.json"), JSON.stringify(forumJson));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.text, c.post, c.source_ref.section])).toEqual([
+      ["Is realloc allowed in part 2?", { author: "Sam", role: "student", date: "2024-02-03" }, "Can we use realloc?"],
+      [
+        "Yes, realloc is allowed.\nCite this post.",
+        { author: "Prof. Lee", role: "instructor", date: "2024-02-04" },
+        "Can we use realloc?",
+      ],
+      ["Thanks!", { author: "Kim", role: "student" }, "Can we use realloc?"],
+    ]);
+    expect(result.file_tags["piazza.json"]).toBe("clarification");
+    expect(result.file_classifications!["piazza.json"]!.evidence).toEqual(["format: forum Q&A export"]);
+    expect(IngestOutputSchema.safeParse(result).success).toBe(true);
+  });
+
+  test("a long post keeps its code block fenced in every piece", async () => {
+    const dir = makeTempDir();
+    const code = Array.from({ length: 80 }, (_, i) => `x${i} = allocate_block(heap, ${i} * BLOCK_SIZE, flags);`);
     writeFileSync(
-      join(dir, "doc.txt"),
-      "Line one\nLine two\n\nLine four\nLine five",
+      join(dir, "forum.md"),
+      ["# Starter code", "## Prof. Lee (instructor), 2024-02-04", "Use this:", "```python", ...code, "```"].join("\n"),
     );
     const ctx = makeCtx([dir]);
 
-    const result = await ingestStage.run(undefined, ctx);
-    const output = result as { chunks: Chunk[] };
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const pieces = result.chunks.filter((c) => c.text.includes("allocate_block"));
+    expect(pieces.length).toBeGreaterThan(1);
+    for (const chunk of pieces) {
+      expect(chunk.post).toEqual({ author: "Prof. Lee", role: "instructor", date: "2024-02-04" });
+      expect(chunk.text).toMatch(/```python\n[^`]+\n```$/);
+    }
+  });
 
-    expect(output.chunks[0]!.source_ref.line_start).toBe(1);
-    expect(output.chunks[0]!.source_ref.line_end).toBe(2);
-    expect(output.chunks[1]!.source_ref.line_start).toBe(4);
-    expect(output.chunks[1]!.source_ref.line_end).toBe(5);
+  test("a Markdown export is split on post headings with line locators", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "forum.md"),
+      "# Can we use realloc?\n\n## Sam (student), 2024-02-03\nIs realloc allowed?\n\n" +
+      "## Prof. Lee (instructor), 2024-02-04\nYes, realloc is allowed.\n\n# Late days\n## Ana (TA)\nTwo late days total.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => [c.post?.role, c.post?.date, c.source_ref.section, c.source_ref.line_start])).toEqual([
+      ["student", "2024-02-03", "Can we use realloc?", 3],
+      ["instructor", "2024-02-04", "Can we use realloc?", 6],
+      ["ta", undefined, "Late days", 10],
+    ]);
+    expect(result.chunks[1]!.text).toBe("## Prof. Lee (instructor), 2024-02-04\nYes, realloc is allowed.");
+    expect(result.file_tags["forum.md"]).toBe("clarification");
   });
 
-  test("leading blank lines before first paragraph handled correctly", async () => {
+  test("ordinary Markdown with parentheses in headings is not a forum export", async () => {
     const dir = makeTempDir();
-    writeFileSync(join(dir, "doc.txt"), "\n\n\nFirst paragraph.");
+    writeFileSync(join(dir, "spec.md"), "# Spec\n## Part 1 (20 points)\nImplement malloc.");
     const ctx = makeCtx([dir]);
 
-    const result = await ingestStage.run(undefined, ctx);
-    const output = result as { chunks: Chunk[] };
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.every((c) => c.post === undefined)).toBe(true);
+    expect(result.file_tags["spec.md"]).toBe("spec");
+  });
 
-    expect(output.chunks).toHaveLength(1);
-    expect(output.chunks[0]!.text).toBe("First paragraph.");
-    expect(output.chunks[0]!.source_ref.line_start).toBe(4);
+  test("a README with a staff heading is not a forum export", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "README.md"),
+      "# Malloc Lab\n## Prof. Smith (instructor)\nOffice hours on Tuesday.\n## Ana Ruiz (TA)\nOffice hours on Friday.\n" +
+      "# Task\nYou must implement malloc and free.",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.every((c) => c.post === undefined)).toBe(true);
+    expect(result.file_tags["README.md"]).not.toBe("clarification");
   });
 
-  test("trailing blank lines after last paragraph handled correctly", async () => {
+  test("a thread with a student question and a staff answer is a forum export under any name", async () => {
     const dir = makeTempDir();
-    writeFileSync(join(dir, "doc.txt"), "Content here.\n\n\n");
+    writeFileSync(
+      join(dir, "week3.md"),
+      "# Can we use realloc?\n## Sam (student)\nIs realloc allowed?\n## Prof. Lee (instructor)\nYes.",
+    );
     const ctx = makeCtx([dir]);
 
-    const result = await ingestStage.run(undefined, ctx);
-    const output = result as { chunks: Chunk[] };
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => c.post?.role)).toEqual(["student", "instructor"]);
+    expect(result.file_tags["week3.md"]).toBe("clarification");
+  });
 
-    expect(output.chunks).toHaveLength(1);
-    expect(output.chunks[0]!.text).toBe("Content here.");
-    expect(output.chunks[0]!.source_ref.line_start).toBe(1);
-    expect(output.chunks[0]!.source_ref.line_end).toBe(1);
+  test("one post heading is enough in a file the manifest tags as clarification", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [{ match: "announcements.md", tag: "clarification" }],
+    }));
+    writeFileSync(join(dir, "announcements.md"), "## Prof. Lee (instructor), 2024-02-04\nThe deadline moved to Monday.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => c.post)).toEqual([{ author: "Prof. Lee", role: "instructor", date: "2024-02-04" }]);
+  });
+
+  test("other JSON files are skipped as unsupported", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "package.json"), JSON.stringify({ name: "starter" }));
+    writeFileSync(join(dir, "notes.txt"), "Some notes.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.skipped).toEqual([
+      { path: "package.json", reason: "unsupported", detail: "JSON that is not a forum export" },
+    ]);
+  });
+});
+
+describe("text decoding", () => {
+  test("decodes UTF-16 and Windows-1252 files", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "notes.txt"), Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from("Heap notes\nfree lists", "utf16le"),
+    ]));
+    writeFileSync(join(dir, "spec.md"), Buffer.from("# R\xe9sum\xe9\n\nCaf\xe9 rules", "latin1"));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const texts = result.chunks.map((c) => c.text);
+    expect(texts).toContain("Heap notes\nfree lists");
+    expect(texts).toContain("# Résumé\n\nCafé rules");
+  });
+
+  test("skips binary content in a text-format file with a reason", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec");
+    writeFileSync(join(dir, "diagram.txt"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    writeFileSync(join(dir, "dump.c"), Buffer.from([0x69, 0x6e, 0x74, 0x00, 0x00, 0x01, 0x02]));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(Object.keys(result.file_tags)).toEqual(["spec.md"]);
+    expect(result.skipped).toEqual([
+      { path: "diagram.txt", reason: "binary", detail: "PNG image signature" },
+      { path: "dump.c", reason: "binary", detail: "contains NUL bytes" },
+    ]);
+  });
+
+  test("normalizes ligatures, smart quotes and soft hyphens before chunking", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# The \u201cﬁrst\u201d allo\u00ADcator\n\nIt\u2019s due Friday.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks[0]!.text).toBe("# The \"first\" allocator\n\nIt's due Friday.");
+    expect(result.chunks[0]!.source_ref.section).toBe("The \"first\" allocator");
+  });
+});
+
+describe("duplicate elimination", () => {
+  test("the same spec in two files is indexed once with both locations", async () => {
+    const dir = makeTempDir();
+    const spec = "Implement malloc and free with an explicit free list.\nCoalesce adjacent free blocks immediately.";
+    writeFileSync(join(dir, "README.md"), spec);
+    writeFileSync(join(dir, "spec.txt"), spec);
+    writeFileSync(join(dir, "notes.md"), "Lecture notes on caches.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    // Both files keep their tags; only the repeated chunk is merged
+    expect(Object.keys(result.file_tags).sort()).toEqual(["README.md", "notes.md", "spec.txt"]);
+    const specChunks = result.chunks.filter((c) => c.text.includes("explicit free list"));
+    expect(specChunks.length).toBe(1);
+    expect(specChunks[0]!.file_id).toBe("spec.txt");
+    expect(specChunks[0]!.duplicates).toEqual([{ file_id: "README.md", line_start: 1, line_end: 2 }]);
+  });
+
+  test("the spec's copy survives over a README that sorts first", async () => {
+    const dir = makeTempDir();
+    const spec = [
+      "You must implement malloc, free and realloc in mm.c.",
+      "Your allocator must coalesce adjacent free blocks. Submissions are due Friday (40 points).",
+    ].join("\n");
+    writeFileSync(join(dir, "README.txt"), spec);
+    writeFileSync(join(dir, "spec.txt"), spec);
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["spec.txt"]).toBe("spec");
+    expect(result.file_tags["README.txt"]).not.toBe("spec");
+    expect(result.chunks.map((c) => c.file_id)).toEqual(["spec.txt"]);
+    expect(result.chunks[0]!.duplicates!.map((r) => r.file_id)).toEqual(["README.txt"]);
+  });
+
+  test("an authoritative copy survives over an earlier one", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({
+      files: [{ match: "spec.txt", authoritative: true }],
+    }));
+    writeFileSync(join(dir, "README.md"), "Submit your allocator by Friday at noon.");
+    writeFileSync(join(dir, "spec.txt"), "Submit your allocator by Friday at noon.");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.map((c) => c.file_id)).toEqual(["spec.txt"]);
+    expect(result.chunks[0]!.duplicates!.map((r) => r.file_id)).toEqual(["README.md"]);
+  });
+});
+
+describe("incremental rebuilds", () => {
+  /** Run ingest and save its output where the next run looks for it, as the orchestrator does. */
+  async function ingestAndSave(ctx: ReturnType<typeof makeCtx>): Promise<IngestOutput> {
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    mkdirSync(ctx.config.output_dir, { recursive: true });
+    writeFileSync(join(ctx.config.output_dir, "chunks.json"), JSON.stringify(result));
+    return result;
+  }
+
+  /** Mark a file's cached chunks so a test can tell reused chunks from re-chunked ones. */
+  function tamperCachedText(ctx: ReturnType<typeof makeCtx>, fileId: string): void {
+    const path = join(ctx.config.output_dir, "chunks.json");
+    const saved = JSON.parse(readFileSync(path, "utf-8")) as IngestOutput;
+    for (const chunk of saved.chunks) {
+      if (chunk.file_id === fileId) chunk.text = `cached: ${chunk.text}`;
+    }
+    writeFileSync(path, JSON.stringify(saved));
+  }
+
+  test("a first ingest fingerprints every file and reports them as added", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement malloc.");
+    writeFileSync(join(dir, "notes.txt"), "Lecture notes on caches.");
+
+    const result = await ingestAndSave(makeCtx([dir]));
+    expect(result.changes).toEqual({ added: ["notes.txt", "spec.md"], modified: [], removed: [], unchanged: 0 });
+    expect(result.files!["spec.md"]!.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(result.files!["spec.md"]!.size).toBe(24);
+    expect(result.files!["spec.md"]!.chunk_count).toBe(1);
+    expect(IngestOutputSchema.safeParse(result).success).toBe(true);
+  });
+
+  test("a rebuild re-chunks only added and modified files", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement malloc.");
+    writeFileSync(join(dir, "notes.txt"), "Lecture notes on caches.");
+    writeFileSync(join(dir, "old.txt"), "Last year's rubric.");
+    const ctx = makeCtx([dir]);
+    await ingestAndSave(ctx);
+    tamperCachedText(ctx, "notes.txt");
+    tamperCachedText(ctx, "spec.md");
+
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement malloc and free.");
+    writeFileSync(join(dir, "faq.txt"), "Q: Can we use sbrk? A: Yes.");
+    rmSync(join(dir, "old.txt"));
+    const result = await ingestAndSave(ctx);
+
+    expect(result.changes).toEqual({ added: ["faq.txt"], modified: ["spec.md"], removed: ["old.txt"], unchanged: 1 });
+    const textOf = (fileId: string) => result.chunks.filter((c) => c.file_id === fileId).map((c) => c.text);
+    expect(textOf("notes.txt")).toEqual(["cached: Lecture notes on caches."]);
+    expect(textOf("spec.md")).toEqual(["# Spec\nImplement malloc and free."]);
+    expect(Object.keys(result.files!).sort()).toEqual(["faq.txt", "notes.txt", "spec.md"]);
+  });
+
+  test("a touched file with the same content is unchanged", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "notes.txt"), "Lecture notes on caches.");
+    const ctx = makeCtx([dir]);
+    const first = await ingestAndSave(ctx);
+    tamperCachedText(ctx, "notes.txt");
+
+    utimesSync(join(dir, "notes.txt"), new Date("2030-01-01"), new Date("2030-01-01"));
+    const result = await ingestAndSave(ctx);
+    expect(result.changes).toEqual({ added: [], modified: [], removed: [], unchanged: 1 });
+    expect(result.chunks[0]!.text).toBe("cached: Lecture notes on caches.");
+    expect(result.files!["notes.txt"]!.sha256).toBe(first.files!["notes.txt"]!.sha256);
+    expect(result.files!["notes.txt"]!.mtime_ms).toBe(new Date("2030-01-01").getTime());
+  });
+
+  test("a file retagged in the manifest is re-chunked", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement malloc.");
+    writeFileSync(join(dir, "updates.md"), "# Deadline\n\n## Prof (instructor), 2024-01-03\n\nThe deadline moved to Friday.\n");
+    const ctx = makeCtx([dir]);
+    const first = await ingestAndSave(ctx);
+    expect(first.chunks.filter((c) => c.post)).toEqual([]);
+
+    writeFileSync(join(dir, "workpacket.json"), JSON.stringify({ files: [{ match: "updates.md", tag: "clarification" }] }));
+    const result = await ingestAndSave(ctx);
+    expect(result.changes).toEqual({ added: [], modified: ["updates.md"], removed: [], unchanged: 1 });
+    const freshCtx = { ...ctx, config: { ...ctx.config, output_dir: join(tempDir, "fresh") } };
+    const fresh = (await ingestStage.run(undefined, freshCtx)) as IngestOutput;
+    expect(result.chunks).toEqual(fresh.chunks);
+    expect(result.chunks.find((c) => c.file_id === "updates.md")!.post).toEqual({
+      author: "Prof",
+      role: "instructor",
+      date: "2024-01-03",
+    });
+  });
+
+  test("deduplication is redone when the surviving copy changes", async () => {
+    const dir = makeTempDir();
+    const spec = "Implement malloc and free with an explicit free list.";
+    writeFileSync(join(dir, "README.md"), spec);
+    writeFileSync(join(dir, "spec.txt"), spec);
+    const ctx = makeCtx([dir]);
+    const first = await ingestAndSave(ctx);
+    expect(first.chunks.map((c) => c.file_id)).toEqual(["spec.txt"]);
+    expect(first.merged_chunks!.map((c) => c.file_id)).toEqual(["README.md"]);
+
+    writeFileSync(join(dir, "spec.txt"), "Implement a shell with job control.");
+    const result = await ingestAndSave(ctx);
+    expect(result.changes!.modified).toEqual(["spec.txt"]);
+    expect(result.chunks.map((c) => [c.file_id, c.text, c.duplicates])).toEqual([
+      ["README.md", spec, undefined],
+      ["spec.txt", "Implement a shell with job control.", undefined],
+    ]);
+    expect(result.merged_chunks).toBeUndefined();
+  });
+
+  test("archive members are re-chunked only when their content changes", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "starter.zip"), makeZip({ "a.txt": "Alpha notes.", "b.txt": "Beta notes." }));
+    const ctx = makeCtx([dir]);
+    await ingestAndSave(ctx);
+
+    writeFileSync(join(dir, "starter.zip"), makeZip({ "a.txt": "Alpha notes.", "b.txt": "Beta notes, revised." }));
+    const result = await ingestAndSave(ctx);
+    expect(result.changes).toEqual({ added: [], modified: ["starter.zip!/b.txt"], removed: [], unchanged: 1 });
+  });
+
+  test("a cache from another chunker version is ignored", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "notes.txt"), "Lecture notes on caches.");
+    const ctx = makeCtx([dir]);
+    await ingestAndSave(ctx);
+    const path = join(ctx.config.output_dir, "chunks.json");
+    const saved = JSON.parse(readFileSync(path, "utf-8")) as IngestOutput;
+    writeFileSync(path, JSON.stringify({ ...saved, chunker_version: 0 }));
+    tamperCachedText(ctx, "notes.txt");
+
+    const result = await ingestAndSave(ctx);
+    expect(result.changes!.added).toEqual(["notes.txt"]);
+    expect(result.chunks[0]!.text).toBe("Lecture notes on caches.");
+  });
+
+  test("rebuilding through the pipeline syncs chunks.db", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement malloc.");
+    const config: RunConfig = { assignment_id: "test", input_paths: [dir], output_dir: join(tempDir, "output") };
+    const first = await runPipeline(config, [ingestStage]);
+    expect(first.status).toBe("completed");
+
+    writeFileSync(join(dir, "spec.md"), "# Spec\nImplement a garbage collector.");
+    const second = await runPipeline(config, [ingestStage]);
+    expect(second.status).toBe("completed");
+    const log = readFileSync(join(config.output_dir, "run.log"), "utf-8");
+    expect(log).toContain("Files: 0 added, 1 modified, 0 removed, 0 unchanged");
+  });
+});
+
+describe("size-bounded chunking", () => {
+  /** A ~100-character sentence that is easy to count in assertions. */
+  function sentence(n: number): string {
+    return `Requirement ${String(n).padStart(3, "0")} says the allocator must handle this case correctly and quickly.`;
+  }
+
+  test("small sections are not split", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "spec.md"), `# Intro\n${sentence(1)}\n`);
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.length).toBe(1);
+  });
+
+  test("oversized markdown sections split at paragraphs, keeping section and line refs", async () => {
+    const dir = makeTempDir();
+    // 60 one-line paragraphs (~6 KB) under a single heading
+    const paragraphs = Array.from({ length: 60 }, (_, i) => sentence(i + 1));
+    const lines = ["# Part 2", "## Allocator", "", paragraphs.join("\n\n")].join("\n").split("\n");
+    writeFileSync(join(dir, "spec.md"), lines.join("\n"));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const pieces = result.chunks.filter((c) => c.source_ref.section === "Part 2 > Allocator");
+    expect(pieces.length).toBeGreaterThan(1);
+
+    for (const chunk of pieces) {
+      expect(chunk.text.length).toBeLessThanOrEqual(3000);
+      const { line_start, line_end } = chunk.source_ref;
+      expect(chunk.text).toBe(lines.slice(line_start! - 1, line_end).join("\n"));
+    }
+    // Pieces overlap: each one starts before the previous one ends
+    for (let i = 1; i < pieces.length; i++) {
+      expect(pieces[i]!.source_ref.line_start!).toBeLessThan(pieces[i - 1]!.source_ref.line_end!);
+    }
+    expect(pieces[pieces.length - 1]!.source_ref.line_end).toBe(lines.length);
+  });
+
+  test("an oversized table splits between rows, repeating its header in each piece", async () => {
+    const dir = makeTempDir();
+    const rows = Array.from({ length: 60 }, (_, i) => `| criterion ${i + 1} | ${sentence(i + 1)} | 5 |`);
+    const lines = ["# Rubric", "", "| Criterion | Description | Points |", "|---|---|---:|", ...rows];
+    writeFileSync(join(dir, "spec.md"), lines.join("\n"));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.chunks[0]!.text).toStartWith("# Rubric\n\n| Criterion | Description | Points |\n|---|---|---:|\n| criterion 1 |");
+    for (const [i, chunk] of result.chunks.entries()) {
+      expect(chunk.kind).toBe("table");
+      expect(chunk.text.length).toBeLessThanOrEqual(3000);
+      const { line_start, line_end } = chunk.source_ref;
+      const body = lines.slice(line_start! - 1, line_end).join("\n");
+      expect(chunk.text).toBe(i === 0 ? body : `| Criterion | Description | Points |\n|---|---|---:|\n${body}`);
+    }
+    // Every row lands in exactly one piece
+    const covered = result.chunks.map((c) => c.source_ref.line_end! - c.source_ref.line_start! + 1);
+    expect(covered.reduce((a, b) => a + b, 0)).toBe(lines.length);
+  });
+
+  test("an oversized code block splits between lines, closing and reopening its fence", async () => {
+    const dir = makeTempDir();
+    const code = Array.from({ length: 150 }, (_, i) => `    int value${i} = compute_something_long(${i}, buffer, length);`);
+    const lines = ["# Starter", "```c", ...code, "```", "Then run make."];
+    writeFileSync(join(dir, "spec.md"), lines.join("\n"));
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const pieces = result.chunks.filter((c) => c.kind === "code");
+    expect(pieces.length).toBeGreaterThan(2);
+    for (const [i, chunk] of pieces.entries()) {
+      expect(chunk.language).toBe("c");
+      expect(chunk.text.length).toBeLessThanOrEqual(3000);
+      expect(chunk.text).toStartWith(i === 0 ? "# Starter\n```c\n" : "```c\n    int value");
+      expect(chunk.text).toEndWith(";\n```");
+    }
+    const body = pieces.flatMap((c) => c.text.split("\n").filter((line) => line.startsWith("    int ")));
+    expect(body).toEqual(code);
+    expect(pieces[pieces.length - 1]!.source_ref.line_end).toBe(lines.length - 1);
+    expect(result.chunks[result.chunks.length - 1]!.text).toBe("Then run make.");
+  });
+
+  test("an unbroken plain-text wall splits at sentence boundaries", async () => {
+    const dir = makeTempDir();
+    const wall = Array.from({ length: 80 }, (_, i) => sentence(i + 1)).join(" ");
+    writeFileSync(join(dir, "notes.txt"), `Header\n\n${wall}\n`);
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    const pieces = result.chunks.slice(1);
+    expect(pieces.length).toBeGreaterThan(2);
+    for (const chunk of pieces) {
+      expect(chunk.text.length).toBeLessThanOrEqual(3000);
+      expect(chunk.text).toMatch(/^Requirement \d{3}/);
+      expect(chunk.text.endsWith("quickly.")).toBe(true);
+      expect(chunk.source_ref.line_start).toBe(3);
+      expect(chunk.source_ref.line_end).toBe(3);
+    }
+    // Every sentence survives the split
+    const joined = pieces.map((c) => c.text).join(" ");
+    for (let n = 1; n <= 80; n++) expect(joined).toContain(sentence(n));
   });
 });
 
@@ -724,6 +2772,33 @@ describe("file tagging", () => {
     expect(result.file_tags["data.txt"]).toBe("other");
   });
 
+  test("content classifies files whose names carry no hints", async () => {
+    const dir = makeTempDir();
+    writeFileSync(
+      join(dir, "hw3.md"),
+      "# Task\n\nYou will implement malloc. Your code must pass all tests.\n\n" +
+      "| Criterion | Points |\n|---|---|\n| Correctness | 80 |\n| Style | 20 |\n",
+    );
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_tags["hw3.md"]).toBe("spec");
+    expect(result.file_classifications!["hw3.md"]!.evidence).toContain("rubric table");
+  });
+
+  test("records confidence and evidence for every file", async () => {
+    const dir = makeTempDir();
+    writeFileSync(join(dir, "readme.md"), "# Readme");
+    writeFileSync(join(dir, "main.c"), "int main(void) { return 0; }");
+    const ctx = makeCtx([dir]);
+
+    const result = (await ingestStage.run(undefined, ctx)) as IngestOutput;
+    expect(result.file_classifications).toEqual({
+      "main.c": { confidence: 1, evidence: ["format: .c source file"] },
+      "readme.md": { confidence: 0.75, evidence: ['path contains "readme"'] },
+    });
+  });
+
   test("file_tags map has entry for every unique file_id", async () => {
     const dir = makeTempDir();
     writeFileSync(join(dir, "spec.md"), "# Spec content");
@@ -785,7 +2860,7 @@ describe("error handling", () => {
   test("directory with only unsupported files throws", async () => {
     const dir = makeTempDir();
     writeFileSync(join(dir, "data.json"), '{"key": "value"}');
-    writeFileSync(join(dir, "script.js"), "console.log('hi')");
+    writeFileSync(join(dir, "styles.css"), "body { margin: 0 }");
     const ctx = makeCtx([dir]);
 
     await expect(ingestStage.run(undefined, ctx)).rejects.toThrow(
@@ -1,8 +1,10 @@
-import { describe, test, expect, mock } from "bun:test";
+import { describe, test, expect, mock, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
+import { tmpdir } from "node:os";
 import type { RunContext } from "../../schemas/stage.js";
 import type { Chunk } from "../../schemas/chunk.js";
-import type { StorageReader, RetrievalOptions } from "../../storage.js";
+import { createStorage, type StorageReader, type RetrievalOptions } from "../../storage.js";
 import type { RequirementsOutput } from "../../schemas/requirement.js";
 import { ConceptsOutputSchema } from "../../schemas/concept.js";
 
@@ -16,6 +18,9 @@ function makeStorage(chunks: Chunk[]): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return chunks;
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -31,6 +36,9 @@ function makeFallbackStorage(chunks: Chunk[]): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return chunks;
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -44,6 +52,9 @@ function makeEmptyStorage(): StorageReader {
     retrieveByTag(_tag: string, _limit?: number): Chunk[] {
       return [];
     },
+    authoritativeFiles(): Set<string> {
+      return new Set();
+    },
     close(): void {},
   };
 }
@@ -403,6 +414,9 @@ describe("map-concepts retrieval fallback", () => {
       retrieveByTag(_tag: string, _limit?: number): Chunk[] {
         return [makeChunk("c1", "spec.md", "BST content")];
       },
+      authoritativeFiles(): Set<string> {
+        return new Set();
+      },
       close(): void {},
     };
 
@@ -445,6 +459,9 @@ describe("map-concepts retrieval fallback", () => {
         retrieveByTagCalled = true;
         return [makeChunk("c1", "spec.md", "BST content")];
       },
+      authoritativeFiles(): Set<string> {
+        return new Set();
+      },
       close(): void {},
     };
 
@@ -606,3 +623,59 @@ describe("map-concepts with mocked LLM", () => {
   });
 });
 
+// ── Retrieval Weight Tests ──────────────────────────────────────────
+
+describe("map-concepts retrieval weights", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+  });
+
+  test("ranks slides above an equally relevant spec chunk", async () => {
+    let prompt = "";
+    mock.module("../../llm.js", () => ({
+      callLLM: async (request: { user: string }) => {
+        prompt = request.user;
+        return { text: JSON.stringify({ concepts: [{ id: "CON-001", name: "BST", description: "Binary search trees", requirement_ids: ["REQ-001"], source_refs: [{ file_id: "lecture.pdf", section: "Test Section" }] }] }), inputTokens: 100, outputTokens: 50 };
+      },
+    }));
+    const mod = await import("../map-concepts.js");
+
+    tempDir = mkdtempSync(join(tmpdir(), "map-concepts-test-"));
+    const text = "A binary search tree keeps smaller keys in the left subtree.";
+    const storage = createStorage(
+      tempDir,
+      [makeChunk("c1", "spec.md", text), makeChunk("c2", "lecture.pdf", text)],
+      new Map([["spec.md", "spec"], ["lecture.pdf", "slides"]]),
+    );
+    const logged: string[] = [];
+    await mod.mapConceptsStage.run(makeRequirementsInput(), { ...makeCtx(storage), log: (message: string) => logged.push(message) });
+    storage.close();
+
+    expect(prompt.indexOf("lecture.pdf")).toBeGreaterThan(-1);
+    expect(prompt.indexOf("lecture.pdf")).toBeLessThan(prompt.indexOf("spec.md"));
+    expect(logged[0]).toMatch(/^Retrieval weights: spec [\d.]+, .*slides 1\.5/);
+  });
+
+  test("manifest weights apply on top of the stage defaults", async () => {
+    mock.module("../../llm.js", () => ({
+      callLLM: async () => ({ text: JSON.stringify({ concepts: [{ id: "CON-001", name: "BST", description: "Binary search trees", requirement_ids: ["REQ-001"], source_refs: [{ file_id: "lecture.pdf", section: "Test Section" }] }] }), inputTokens: 100, outputTokens: 50 }),
+    }));
+    const mod = await import("../map-concepts.js");
+
+    let weights: RetrievalOptions["weights"];
+    const storage: StorageReader = {
+      ...makeStorage([makeChunk("c1", "lecture.pdf", "A binary search tree keeps smaller keys in the left subtree.")]),
+      retrieve(options: RetrievalOptions): Chunk[] {
+        weights = options.weights;
+        return [makeChunk("c1", "lecture.pdf", "A binary search tree keeps smaller keys in the left subtree.")];
+      },
+    };
+    const ctx = makeCtx(storage);
+    await mod.mapConceptsStage.run(makeRequirementsInput(), { ...ctx, config: { ...ctx.config, tag_weights: { slides: 0.2 } } });
+
+    expect(weights).toMatchObject({ spec: 1, slides: 0.2 });
+  });
+});
@@ -1,5 +1,7 @@
 import type { RunContext } from "../schemas/stage.js";
 import type { Chunk } from "../schemas/chunk.js";
+import type { Diversity } from "../schemas/run-config.js";
+import type { FileTag } from "../schemas/file-tag.js";
 import {
   ConceptsOutputSchema,
   type ConceptsOutput,
@@ -8,9 +10,37 @@ import { PrimerOutputSchema } from "../schemas/primer-output.js";
 import { callLLM } from "../llm.js";
 import { formatChunks } from "./map-concepts.js";
 import { buildDynamicQuery } from "../query-builder.js";
+import { formatTagWeights, resolveTagWeights } from "../storage.js";
+import { formatBudgetUse, packToBudget } from "../tokens.js";
 import type { PipelineStage } from "../orchestrator.js";
 
-const RETRIEVAL_LIMIT = 30;
+/** Estimated tokens of material in the prompt. */
+const CONTEXT_TOKEN_BUDGET = 12_000;
+
+/**
+ * Explanations need some depth per concept, so more chunks per file and
+ * section are allowed than for concept mapping.
+ */
+const DIVERSITY: Diversity = { lambda: 0.8, max_per_file: 10, max_per_section: 4 };
+
+/**
+ * Explanations draw on slides and notes first, with the spec for how a
+ * concept applies to the assignment. The manifest's `weights` apply on top.
+ */
+const TAG_WEIGHTS: Readonly<Record<FileTag, number>> = {
+  spec: 0.8,
+  clarification: 0.6,
+  slides: 1.5,
+  notes: 1.2,
+  code: 0.4,
+  other: 0.5,
+};
+
+/** Slides chunks fetched for the fallback before the budget is applied. */
+const TAG_CANDIDATE_LIMIT = 200;
+
+/** Chunks on either side of each match included with it, e.g. a heading's list. */
+const NEIGHBOR_CHUNKS = 1;
 
 const SYSTEM_PROMPT = `You are a precise concept explanation system. Your job is to generate "just enough" explanations for each concept a student needs to understand to complete an assignment.
 
@@ -22,7 +52,7 @@ For each concept, write a concise explanation that:
 - Explains the concept only as deeply as necessary for the assignment
 - Uses concrete examples from the assignment materials where possible
 - Includes inline source citations in the format [file_id, locator] (e.g., [spec.md, Section 3] or [slides.pdf, page 5])
-- IMPORTANT: Copy citation values (file_id, section, line numbers, page) verbatim from the provided chunk metadata — do NOT invent or guess citations
+- IMPORTANT: Copy citation values (file_id, section, anchor, line numbers, page, cell) verbatim from the provided chunk metadata — do NOT invent or guess citations
 
 Output format:
 - Output valid Markdown
@@ -125,10 +155,15 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
 
   let chunks: Chunk[];
   if (dynamicQuery) {
+    const weights = resolveTagWeights(ctx.config.tag_weights, TAG_WEIGHTS);
+    ctx.log?.(`Retrieval weights: ${formatTagWeights(weights)}`);
     chunks = storage.retrieve({
       query: dynamicQuery,
-      limit: RETRIEVAL_LIMIT,
-      bias: "slides",
+      maxTokens: CONTEXT_TOKEN_BUDGET,
+      weights,
+      mode: "hybrid",
+      diversity: { ...DIVERSITY, ...ctx.config.diversity?.explain_concepts },
+      neighbors: NEIGHBOR_CHUNKS,
     });
   } else {
     chunks = [];
@@ -136,7 +171,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
 
   // Fallback: if no chunks matched, retrieve all slides-tagged chunks.
   if (chunks.length === 0) {
-    chunks = storage.retrieveByTag("slides", RETRIEVAL_LIMIT);
+    chunks = packToBudget(storage.retrieveByTag("slides", TAG_CANDIDATE_LIMIT), CONTEXT_TOKEN_BUDGET).chunks;
   }
 
   if (chunks.length === 0) {
@@ -146,6 +181,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
     );
   }
 
+  ctx.log?.(`Context: ${formatBudgetUse(chunks, CONTEXT_TOKEN_BUDGET)}`);
   const userMessage = buildPrimerUserMessage(concepts, chunks);
   const response = await callLLM({
     system: SYSTEM_PROMPT,
@@ -1,11 +1,30 @@
 import type { RunContext } from "../schemas/stage.js";
 import type { Chunk } from "../schemas/chunk.js";
+import type { Diversity } from "../schemas/run-config.js";
 import { RequirementsOutputSchema } from "../schemas/requirement.js";
 import { callLLM } from "../llm.js";
 import { buildDynamicQuery } from "../query-builder.js";
+import { formatTagWeights, resolveTagWeights } from "../storage.js";
+import { formatBudgetUse, packToBudget } from "../tokens.js";
 import type { PipelineStage } from "../orchestrator.js";
 
-const RETRIEVAL_LIMIT = 30;
+/** Estimated tokens of material in the prompt. */
+const CONTEXT_TOKEN_BUDGET = 16_000;
+
+/**
+ * Share of the budget held for forum answers, so a long spec cannot crowd
+ * them out. Whatever they leave unused goes back to the spec.
+ */
+const CLARIFICATION_TOKEN_BUDGET = 4_000;
+
+/**
+ * Supplementary chunks should come from several slide decks and notes
+ * rather than pile up from whichever file matches the spec best.
+ */
+const DIVERSITY: Diversity = { lambda: 0.7, max_per_file: 6 };
+
+/** Chunks fetched per tag before the budget is applied. */
+const TAG_CANDIDATE_LIMIT = 200;
 
 const SYSTEM_PROMPT = `You are a precise requirement extraction system. Your job is to extract ALL requirements from assignment specification materials.
 
@@ -25,6 +44,7 @@ For each requirement you identify, produce a JSON object with:
   - "line_start": starting line number (copy from chunk metadata if provided)
   - "line_end": ending line number (copy from chunk metadata if provided)
   - "page": page number (copy from chunk metadata if provided)
+  - "cell": notebook cell number (copy from chunk metadata if provided)
 
 Rules:
 - Extract EVERY requirement, constraint, and interface specification you can find
@@ -32,6 +52,8 @@ Rules:
 - Do NOT merge multiple distinct requirements into one
 - Each requirement MUST have a source_ref — use ONLY the locator values provided in the chunk metadata
 - If a requirement is ambiguous, extract it as-is and note the ambiguity in the text
+- Chunks marked "authoritative" come from the instructor's definitive materials. When they conflict with other chunks, follow the authoritative chunk and cite it
+- Chunks marked "post by ... (instructor)" or "(ta)" are course staff answers from the class forum, posted after the spec was published. They override the original spec, even authoritative chunks: where they conflict, state the requirement as the staff answer does and cite the post. Student posts are questions, not requirements; use them only to understand the answer they received
 - Output ONLY valid JSON matching the schema below — no commentary, no markdown fences
 
 Output schema:
@@ -49,16 +71,35 @@ Output schema:
 /**
  * Build the user message by formatting each chunk with its full source_ref
  * metadata. This gives the LLM accurate locator information (file_id,
- * section, line_start, line_end, page) so it can cite sources faithfully
- * rather than inventing locators.
+ * section, line_start, line_end, page, cell) so it can cite sources faithfully
+ * rather than inventing locators. Tables and code blocks are labeled, as
+ * they usually hold rubrics and interfaces, and forum posts show their
+ * author's role and date. Chunks from `authoritativeFiles` are marked so
+ * the LLM can prefer them when materials disagree.
  */
-export function buildUserMessage(chunks: Chunk[]): string {
+export function buildUserMessage(
+  chunks: Chunk[],
+  authoritativeFiles: ReadonlySet<string> = new Set(),
+): string {
   const sections = chunks.map((chunk, i) => {
     const ref = chunk.source_ref;
     const locators: string[] = [`file: ${ref.file_id}`];
     if (ref.section) locators.push(`section: ${ref.section}`);
+    if (ref.anchor) locators.push(`anchor: #${ref.anchor}`);
     if (ref.line_start != null) locators.push(`lines: ${ref.line_start}-${ref.line_end ?? ref.line_start}`);
     if (ref.page != null) locators.push(`page: ${ref.page}`);
+    if (ref.cell != null) locators.push(`cell: ${ref.cell}`);
+    if (chunk.kind === "table" || chunk.kind === "code") {
+      locators.push(chunk.language ? `${chunk.kind}: ${chunk.language}` : chunk.kind);
+    }
+    if (chunk.post) {
+      const { author, role, date } = chunk.post;
+      locators.push(`post by ${author ?? "unknown"} (${role})${date ? ` on ${date}` : ""}`);
+    }
+    if (chunk.duplicates?.length) {
+      locators.push(`also in: ${[...new Set(chunk.duplicates.map((d) => d.file_id))].join(", ")}`);
+    }
+    if (authoritativeFiles.has(chunk.file_id)) locators.push("authoritative");
 
     return `--- Chunk ${i + 1} (${locators.join(", ")}) ---\n${chunk.text}`;
   });
@@ -103,7 +144,15 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
 
   // Step 1: Get all spec-tagged chunks directly — these are almost always
   // relevant to requirements regardless of vocabulary.
-  const specChunks = storage.retrieveByTag("spec", RETRIEVAL_LIMIT);
+  const specChunks = storage.retrieveByTag("spec", TAG_CANDIDATE_LIMIT);
+
+  // Tables in spec files are usually grading rubrics; fetch them by kind
+  // so they are not crowded out when the spec has more chunks than the limit
+  const specTables = storage.retrieveByTag("spec", TAG_CANDIDATE_LIMIT, "table");
+
+  // Forum answers refine or override the spec, so they get a reserved share
+  // of the budget below
+  const clarificationChunks = storage.retrieveByTag("clarification", TAG_CANDIDATE_LIMIT);
 
   // Step 2: Build a dynamic query from spec chunk content to find
   // requirement-related content in non-spec files (slides, notes, etc.)
@@ -111,22 +160,32 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
 
   let supplementChunks: Chunk[] = [];
   if (dynamicQuery) {
+    const weights = resolveTagWeights(ctx.config.tag_weights);
+    ctx.log?.(`Retrieval weights: ${formatTagWeights(weights)}`);
     supplementChunks = storage.retrieve({
       query: dynamicQuery,
-      limit: RETRIEVAL_LIMIT,
-      bias: "spec",
+      maxTokens: CONTEXT_TOKEN_BUDGET,
+      weights,
+      mode: "hybrid",
+      diversity: { ...DIVERSITY, ...ctx.config.diversity?.extract_requirements },
     });
   }
 
-  // Merge and deduplicate by chunk_id (spec chunks first for priority)
-  const seen = new Set<string>();
-  const chunks: Chunk[] = [];
-  for (const chunk of [...specChunks, ...supplementChunks]) {
+  // Forum answers take their reserved share first; the rest is merged and
+  // deduplicated by chunk_id (spec chunks first for priority), then packed
+  // into what remains of the budget in that order
+  const clarifications = packToBudget(clarificationChunks, CLARIFICATION_TOKEN_BUDGET);
+  const seen = new Set(clarifications.chunks.map((chunk) => chunk.chunk_id));
+  const merged: Chunk[] = [];
+  for (const chunk of [...specChunks, ...specTables, ...clarificationChunks, ...supplementChunks]) {
     if (!seen.has(chunk.chunk_id)) {
       seen.add(chunk.chunk_id);
-      chunks.push(chunk);
+      merged.push(chunk);
     }
   }
+  const rest = packToBudget(merged, CONTEXT_TOKEN_BUDGET - clarifications.tokens);
+  const chunks = [...rest.chunks, ...clarifications.chunks];
+  ctx.log?.(`Context: ${formatBudgetUse(chunks, CONTEXT_TOKEN_BUDGET)}`);
 
   if (chunks.length === 0) {
     throw new Error(
@@ -135,7 +194,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
     );
   }
 
-  const userMessage = buildUserMessage(chunks);
+  const userMessage = buildUserMessage(chunks, storage.authoritativeFiles());
   const response = await callLLM({
     system: SYSTEM_PROMPT,
     user: userMessage,
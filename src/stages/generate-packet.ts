@@ -120,15 +120,17 @@ export function readPriorOutputs(outputDir: string): {
 }
 
 /**
- * Build the user message from all prior stage outputs.
+ * Build the user message from all prior stage outputs, naming the
+ * assignment when the run config has a title.
  */
 export function buildPacketUserMessage(
   requirements: RequirementsOutput,
   concepts: ConceptsOutput,
   primer: string,
+  title?: string,
 ): string {
   const reqLines = requirements.requirements.map(
-    (r) => `- ${r.id} [${r.type}]: ${r.text} (source: ${r.source_ref.file_id}, ${r.source_ref.section ?? r.source_ref.page ?? "unknown"})`,
+    (r) => `- ${r.id} [${r.type}]: ${r.text} (source: ${r.source_ref.file_id}, ${r.source_ref.section ?? r.source_ref.page ?? r.source_ref.cell ?? "unknown"})`,
   );
   const reqSection = `=== REQUIREMENTS ===\n${reqLines.join("\n")}`;
 
@@ -140,8 +142,11 @@ export function buildPacketUserMessage(
 
   const primerSection = `=== CONCEPT PRIMER ===\n${primer}`;
 
+  const titleLine = title ? `Assignment: ${title}\n\n` : "";
+
   return (
     `Generate a complete execution packet from the following inputs.\n\n` +
+    titleLine +
     `${reqSection}\n\n${conceptSection}\n\n${primerSection}`
   );
 }
@@ -198,7 +203,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
   }
 
   const { requirements, concepts } = readPriorOutputs(ctx.config.output_dir);
-  const userMessage = buildPacketUserMessage(requirements, concepts, input);
+  const userMessage = buildPacketUserMessage(requirements, concepts, input, ctx.config.title);
 
   const response = await callLLM({
     system: SYSTEM_PROMPT,
@@ -1,34 +1,103 @@
-import { readdirSync, readFileSync, statSync } from "node:fs";
-import { join, relative, extname, basename, resolve } from "node:path";
+import { existsSync, readdirSync, readFileSync, realpathSync, statSync } from "node:fs";
+import { join, relative, extname, basename, resolve, posix } from "node:path";
 import { createHash } from "node:crypto";
+import { inflateSync, constants as zlibConstants, type ZlibOptions } from "node:zlib";
 import type { RunContext } from "../schemas/stage.js";
-import type { Chunk } from "../schemas/chunk.js";
+import type { Chunk, ChunkKind, ForumPost, ForumRole } from "../schemas/chunk.js";
 import type { FileTag } from "../schemas/file-tag.js";
-import type { IngestOutput } from "../schemas/ingest-output.js";
+import type {
+  IngestOutput,
+  SkippedFile,
+  FileClassification,
+  IngestedFile,
+} from "../schemas/ingest-output.js";
 import { IngestOutputSchema } from "../schemas/ingest-output.js";
+import type { IngestLimits } from "../schemas/run-config.js";
 import type { PipelineStage } from "../orchestrator.js";
+import { openZip, type ZipArchive } from "../zip.js";
+import { openTar, type TarArchive } from "../tar.js";
+import { decodeText, normalizeText, sniffBinary } from "../text.js";
+import { mergeDuplicates, stripBoilerplate } from "../dedup.js";
+import { parseIgnoreFile, findIgnoreRule, type IgnoreRule } from "../ignore.js";
+import { loadManifest } from "../manifest.js";
+import { classifyFile, pathSuggestsTag, type Classification } from "../classify.js";
 
-const SUPPORTED_EXTENSIONS = new Set([".md", ".txt"]);
+/** Source file extensions and the language recorded on their chunks. */
+const CODE_LANGUAGES: Readonly<Record<string, string>> = {
+  ".ts": "typescript", ".js": "javascript", ".py": "python", ".c": "c", ".h": "c",
+  ".java": "java", ".rs": "rust", ".go": "go",
+};
+
+const CODE_EXTENSIONS = new Set(Object.keys(CODE_LANGUAGES));
 
-const CODE_EXTENSIONS = new Set([
-  ".ts", ".js", ".py", ".c", ".h", ".java", ".rs", ".go",
+const SUPPORTED_EXTENSIONS = new Set([
+  ".md", ".txt", ".pdf", ".pptx", ".docx", ".ipynb", ".tex", ".html", ".htm", ".json", ...CODE_EXTENSIONS,
 ]);
 
+/** Formats parsed from their raw bytes; everything else is decoded as text. */
+const BINARY_FORMAT_EXTENSIONS = new Set([".pdf", ".pptx", ".docx"]);
+
+/**
+ * Archives opened as virtual directories. Members get file_ids like
+ * "starter.zip!/src/main.c".
+ */
+const ARCHIVE_SUFFIXES = [".zip", ".imscc", ".tar.gz", ".tgz", ".tar"];
+
+/** Archive suffixes in ZIP format; the rest are tar, optionally gzipped. */
+const ZIP_ARCHIVE_SUFFIXES = [".zip", ".imscc"];
+
+/** Separator between an archive's file_id and a member path. */
+const ARCHIVE_SEPARATOR = "!/";
+
 /**
- * Infer a file tag from its path using simple heuristics.
- * Matching is case-insensitive on the basename and parent directory name.
+ * Tags in the order a duplicated chunk's copy is kept, so a README that
+ * repeats the spec does not take the spec's text away from its tag.
  */
-function inferFileTag(filePath: string): FileTag {
-  const lower = filePath.toLowerCase();
-  const base = basename(lower);
-  const ext = extname(lower);
+const DUPLICATE_SURVIVOR_TAGS: readonly FileTag[] = ["spec", "clarification", "slides", "notes", "code", "other"];
 
-  if (/(?:^|[/\\])(?:spec|requirement|assignment)/.test(lower)) return "spec";
-  if (/(?:^|[/\\])(?:slide|lecture|presentation)/.test(lower)) return "slides";
-  if (CODE_EXTENSIONS.has(ext)) return "code";
-  if (/(?:^|[/\\])(?:starter|skeleton|template)/.test(lower)) return "code";
-  if (/(?:^|[/\\])(?:note|readme)/.test(lower) || base.startsWith("readme")) return "notes";
-  return "other";
+/** Ignore files read in every walked directory, in increasing precedence. */
+const IGNORE_FILENAMES = [".gitignore", ".workpacketignore"];
+
+/**
+ * Paths never worth ingesting: VCS metadata, dependency and build
+ * directories, and workpacket's own output. A .workpacketignore can
+ * re-include any of them with a "!" pattern.
+ */
+const DEFAULT_IGNORE_PATTERNS = [
+  ".git/", ".hg/", ".svn/",
+  "node_modules/", "bower_components/", "vendor/",
+  "__pycache__/", ".venv/", "venv/", ".tox/", ".mypy_cache/", ".pytest_cache/",
+  ".ipynb_checkpoints/",
+  "build/", "dist/", "target/", "out/",
+  ".idea/", ".vscode/", ".DS_Store",
+  "~$*", // Office lock files, left next to open .docx/.pptx files
+  "workpacket_runs/",
+];
+
+/**
+ * Decide a file's tag. Slide decks, source files and forum exports are
+ * tagged by format regardless of name or content (e.g. "assignment1.py"
+ * is starter code, not the spec); everything else is classified from path
+ * keywords and content evidence. Chunks that carry their own tag (notebook code cells)
+ * say nothing about the file's tag and are left out.
+ */
+function inferFileTag(filePath: string, chunks: readonly Chunk[]): Classification {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === ".pptx") {
+    return { tag: "slides", confidence: 1, evidence: ["format: .pptx slide deck"] };
+  }
+  if (CODE_EXTENSIONS.has(ext)) {
+    return { tag: "code", confidence: 1, evidence: [`format: ${ext} source file`] };
+  }
+  if (chunks.some((c) => c.post !== undefined)) {
+    return { tag: "clarification", confidence: 1, evidence: ["format: forum Q&A export"] };
+  }
+  // Notebooks and LaTeX sources are assignment handouts unless the path
+  // or content says otherwise; notebook code cells override this per chunk
+  const fallback = ext === ".ipynb" || ext === ".tex"
+    ? { tag: "spec" as const, evidence: `format default for ${ext}` }
+    : undefined;
+  return classifyFile(filePath, chunks.filter((c) => c.tag === undefined), fallback);
 }
 
 /**
@@ -42,31 +111,272 @@ function makeChunkId(fileId: string, index: number): string {
   return `chunk-${hash}`;
 }
 
+/** A file found by walkDir, with the ignore rules in effect where it lives. */
+interface WalkedFile {
+  filePath: string;
+  rules: readonly IgnoreRule[];
+}
+
+/** Caps applied when the run config leaves an ingest limit unset. */
+const DEFAULT_INGEST_LIMITS: Required<IngestLimits> = {
+  max_files: 10_000,
+  max_bytes: 256 * 1024 * 1024,
+  max_depth: 32,
+};
+
+/**
+ * Totals for one ingest pass, checked against the ingest limits. Discovery
+ * counts files and bytes read from disk or decompressed from archives;
+ * chunking adds what binary formats decompress.
+ */
+interface DiscoveryBudget {
+  readonly limits: Required<IngestLimits>;
+  /** Real path of every directory walked, mapped to the path it was first reached by */
+  readonly visited: Map<string, string>;
+  files: number;
+  bytes: number;
+}
+
+/** Error name that marks a limit error, which fails the run even while parsing one file. */
+const LIMIT_ERROR_NAME = "IngestLimitError";
+
+/** Error for an input that goes over one of the ingest limits. */
+function limitError(limit: keyof IngestLimits, value: number, what: string): Error {
+  const error = new Error(
+    `Input exceeds ${limit} (${value}): ${what}. Exclude vendored or generated directories ` +
+    `with a .workpacketignore, or raise limits.${limit} in the manifest`,
+  );
+  error.name = LIMIT_ERROR_NAME;
+  return error;
+}
+
+/** Count one more file found, failing once there are more than max_files. */
+function countFile(budget: DiscoveryBudget, path: string): void {
+  budget.files++;
+  if (budget.files > budget.limits.max_files) {
+    throw limitError("max_files", budget.limits.max_files, `more than ${budget.limits.max_files} files (reached ${path})`);
+  }
+}
+
+/** Error for going over max_bytes at `path`. */
+function bytesLimitError(budget: DiscoveryBudget, path: string): Error {
+  return limitError("max_bytes", budget.limits.max_bytes, `more than ${budget.limits.max_bytes} bytes (reached ${path})`);
+}
+
+/** Count bytes ingest will read, failing once the total is over max_bytes. */
+function countBytes(budget: DiscoveryBudget, size: number, path: string): void {
+  budget.bytes += size;
+  if (budget.bytes > budget.limits.max_bytes) throw bytesLimitError(budget, path);
+}
+
+/** Bytes left under max_bytes, as a zlib maxOutputLength (which must be at least 1). */
+function remainingBytes(budget: DiscoveryBudget): number {
+  return Math.max(1, budget.limits.max_bytes - budget.bytes);
+}
+
+/** Whether zlib stopped because the output would pass its maxOutputLength. */
+function isOutputTooLarge(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === "ERR_BUFFER_TOO_LARGE";
+}
+
+/** Inflate zlib data within the bytes left under max_bytes, counting the output. */
+function inflateWithinBudget(input: Buffer, budget: DiscoveryBudget, options: ZlibOptions = {}): Buffer {
+  const output = inflateSync(input, { ...options, maxOutputLength: remainingBytes(budget) });
+  budget.bytes += output.length;
+  return output;
+}
+
 /**
- * Recursively walk a directory and return all file paths.
+ * Recursively walk a directory and return all file paths that are not
+ * excluded by ignore rules. Each directory's .gitignore and
+ * .workpacketignore add rules for everything beneath it; ignored
+ * entries are appended to `skipped` and ignored directories are not
+ * descended into. Ignore files themselves are not returned.
+ *
+ * Symlinks are followed, but a directory whose real path was already
+ * walked (a symlink cycle, or a second link to the same directory) is
+ * reported in `skipped` instead. Throws once the walk goes over the
+ * budget's file count or depth limit.
  */
-function walkDir(dir: string): string[] {
-  const results: string[] = [];
-  const entries = readdirSync(dir, { withFileTypes: true });
+function walkDir(
+  root: string,
+  dir: string,
+  inherited: readonly IgnoreRule[],
+  skipped: SkippedFile[],
+  budget: DiscoveryBudget,
+): WalkedFile[] {
+  const base = relative(root, dir).split("\\").join("/");
+  const depth = base === "" ? 0 : base.split("/").length;
+  if (depth > budget.limits.max_depth) {
+    throw limitError("max_depth", budget.limits.max_depth, `${base}/ is nested more than ${budget.limits.max_depth} directories deep`);
+  }
+  const rules = [...inherited];
+  for (const name of IGNORE_FILENAMES) {
+    const ignorePath = join(dir, name);
+    if (statSync(ignorePath, { throwIfNoEntry: false })?.isFile()) {
+      const origin = base === "" ? name : `${base}/${name}`;
+      rules.push(...parseIgnoreFile(readFileSync(ignorePath, "utf-8"), base, origin));
+    }
+  }
+
+  const results: WalkedFile[] = [];
+  // Sorted so the path that reaches a directory first does not depend on the filesystem
+  const entries = readdirSync(dir, { withFileTypes: true })
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
   for (const entry of entries) {
     const fullPath = join(dir, entry.name);
-    if (entry.isDirectory()) {
-      results.push(...walkDir(fullPath));
-    } else if (entry.isFile()) {
-      results.push(fullPath);
-    } else if (entry.isSymbolicLink()) {
+    const relPath = base === "" ? entry.name : `${base}/${entry.name}`;
+
+    let isDir = entry.isDirectory();
+    let isFile = entry.isFile();
+    if (entry.isSymbolicLink()) {
       // Follow symlinks — statSync resolves to the target
-      const target = statSync(fullPath, { throwIfNoEntry: false });
-      if (target?.isFile()) {
-        results.push(fullPath);
-      } else if (target?.isDirectory()) {
-        results.push(...walkDir(fullPath));
+      let target;
+      try {
+        target = statSync(fullPath, { throwIfNoEntry: false });
+      } catch (err) {
+        // A link that resolves back to itself (ELOOP) has no target to read
+        const code = (err as NodeJS.ErrnoException).code ?? "unknown error";
+        skipped.push({ path: relPath, reason: "symlink", detail: `cannot be resolved (${code})` });
+        continue;
       }
+      isDir = target?.isDirectory() ?? false;
+      isFile = target?.isFile() ?? false;
+    }
+    if (isFile && IGNORE_FILENAMES.includes(entry.name)) continue;
+    if (!isDir && !isFile) continue;
+
+    const rule = findIgnoreRule(rules, relPath, isDir);
+    if (rule) {
+      skipped.push({ path: isDir ? `${relPath}/` : relPath, reason: "ignored", detail: rule.source });
+      continue;
+    }
+
+    if (isDir) {
+      const realPath = realpathSync(fullPath);
+      const firstReached = budget.visited.get(realPath);
+      if (firstReached !== undefined) {
+        skipped.push({ path: `${relPath}/`, reason: "symlink", detail: `same directory as ${firstReached}` });
+        continue;
+      }
+      budget.visited.set(realPath, `${relPath}/`);
+      results.push(...walkDir(root, fullPath, rules, skipped, budget));
+    } else {
+      countFile(budget, relPath);
+      results.push({ filePath: fullPath, rules });
     }
   }
   return results;
 }
 
+type Archive = ZipArchive | TarArchive;
+
+/** Where an archive member's bytes come from, and how a course export uses it. */
+interface ArchiveMember {
+  reader: Archive;
+  member: string;
+  /** Disk path of the archive itself */
+  archivePath: string;
+  /** Set for Common Cartridge parts that get a dedicated chunker */
+  cartridgePart?: "assignment" | "rubrics";
+}
+
+/** A file selected for ingest, with any manifest overrides. */
+interface DiscoveredFile {
+  /** Absolute path; for archive members, "<archive path>!/<member>" */
+  filePath: string;
+  fileId: string;
+  /** Tag declared by the manifest; inferred from the path when absent */
+  tag?: FileTag;
+  authoritative?: boolean;
+  /** Set for archive members, which are read from the archive in memory */
+  archive?: ArchiveMember;
+}
+
+function isArchive(path: string): boolean {
+  const lower = path.toLowerCase();
+  return ARCHIVE_SUFFIXES.some((suffix) => lower.endsWith(suffix));
+}
+
+/**
+ * Open an archive and list its members as virtual files under
+ * "<archiveId>!/". Ignore files inside the archive add rules for their
+ * own directory, as they would on disk; ignored members are reported in
+ * `skipped`. Members that are themselves archives are not expanded.
+ * A ZIP with an imsmanifest.xml at its root is read as a Common Cartridge
+ * course export (see cartridgeRole). Members are decompressed in
+ * memory, so each counts toward max_bytes at its full size along with
+ * the archive itself. Throws if the archive cannot be read or goes over
+ * the budget.
+ */
+function expandArchive(
+  filePath: string,
+  archiveId: string,
+  inherited: readonly IgnoreRule[],
+  skipped: SkippedFile[],
+  budget: DiscoveryBudget,
+): { filePath: string; fileId: string; archive: ArchiveMember }[] {
+  countBytes(budget, statSync(filePath).size, archiveId);
+  let reader: Archive;
+  try {
+    const data = readFileSync(filePath);
+    const lower = filePath.toLowerCase();
+    reader = ZIP_ARCHIVE_SUFFIXES.some((suffix) => lower.endsWith(suffix))
+      ? openZip(data)
+      : openTar(data, remainingBytes(budget));
+  } catch (error) {
+    if (isOutputTooLarge(error)) throw bytesLimitError(budget, archiveId);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Not a valid archive: ${archiveId} (${message})`);
+  }
+  // Zip reads stop at each member's recorded size, so this bounds what they inflate
+  for (const member of reader.entries) {
+    countBytes(budget, reader.size(member)!, `${archiveId}${ARCHIVE_SEPARATOR}${member}`);
+  }
+
+  const root = `${archiveId}!`;
+  const ignoreMembers = reader.entries
+    .filter((m) => IGNORE_FILENAMES.includes(posix.basename(m)))
+    .sort((a, b) => a.split("/").length - b.split("/").length);
+  const rules = [...inherited];
+  for (const member of ignoreMembers) {
+    const dir = posix.dirname(member);
+    const base = dir === "." ? root : `${root}/${dir}`;
+    let content: string;
+    try {
+      content = reader.read(member)!.toString("utf-8");
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      skipped.push({ path: `${archiveId}${ARCHIVE_SEPARATOR}${member}`, reason: "unreadable", detail });
+      continue;
+    }
+    rules.push(...parseIgnoreFile(content, base, `${root}/${member}`));
+  }
+
+  const entries = new Set(reader.entries);
+  const isCartridge = entries.has(CARTRIDGE_MANIFEST);
+
+  const members: { filePath: string; fileId: string; archive: ArchiveMember }[] = [];
+  for (const member of reader.entries) {
+    if (ignoreMembers.includes(member)) continue;
+    const role = isCartridge ? cartridgeRole(entries, member) : "attachment";
+    if (role === "metadata") continue;
+    const fileId = `${archiveId}${ARCHIVE_SEPARATOR}${member}`;
+    const rule = findIgnoreRule(rules, fileId, false);
+    if (rule) {
+      skipped.push({ path: fileId, reason: "ignored", detail: rule.source });
+      continue;
+    }
+    countFile(budget, fileId);
+    members.push({
+      filePath: `${filePath}${ARCHIVE_SEPARATOR}${member}`,
+      fileId,
+      archive: { reader, member, archivePath: filePath, ...(role === "attachment" ? {} : { cartridgePart: role }) },
+    });
+  }
+  return members;
+}
+
 /**
  * Generate a short hash prefix from an absolute path for disambiguation.
  */
@@ -83,12 +393,94 @@ function pathHash(absPath: string): string {
  * - Directory input: relative path from that directory (e.g., "sub/readme.md")
  * - File input: basename (e.g., "readme.md"), disambiguated with a path hash
  *   prefix if multiple file inputs share the same basename (e.g., "a1b2c3d4/readme.md")
+ * - Archive member: "<archive file_id>!/<path in archive>" (e.g., "starter.zip!/src/main.c")
  * - Always forward-slash separated
+ *
+ * Archives (.zip, .tar.gz, .tgz, .tar) are expanded in memory and their
+ * members go through the same ignore, manifest and extension checks as
+ * files on disk.
+ *
+ * Directory inputs honor built-in defaults, .gitignore and .workpacketignore;
+ * explicit file inputs are always considered. Ignored paths and files with
+ * unsupported extensions are reported in `skipped`.
+ *
+ * A manifest (workpacket.json / workpacket.yaml) at the root of a directory
+ * input can exclude files, fix their tag, or mark them authoritative.
+ *
+ * The returned budget holds what discovery counted, for chunking to add to.
  */
 function discoverFiles(
   inputPaths: readonly string[],
-): { filePath: string; fileId: string }[] {
-  const results: { filePath: string; fileId: string }[] = [];
+  limits: IngestLimits = {},
+): { files: DiscoveredFile[]; skipped: SkippedFile[]; budget: DiscoveryBudget } {
+  const results: DiscoveredFile[] = [];
+  const skipped: SkippedFile[] = [];
+  const budget: DiscoveryBudget = {
+    limits: { ...DEFAULT_INGEST_LIMITS, ...limits },
+    visited: new Map(),
+    files: 0,
+    bytes: 0,
+  };
+  const defaultRules = parseIgnoreFile(DEFAULT_IGNORE_PATTERNS.join("\n"), "", "built-in defaults");
+
+  /** Apply manifest and extension checks to one candidate file. */
+  function consider(
+    candidate: { filePath: string; fileId: string; archive?: ArchiveMember },
+    manifest: ReturnType<typeof loadManifest>,
+  ): void {
+    const entry = manifest?.lookup(candidate.fileId);
+    const ext = extname(candidate.filePath).toLowerCase();
+    if (entry?.excludedBy) {
+      skipped.push({ path: candidate.fileId, reason: "excluded", detail: entry.excludedBy });
+    } else if (candidate.archive?.cartridgePart || SUPPORTED_EXTENSIONS.has(ext)) {
+      // Count the file before a JSON file is read below, so an oversized one
+      // fails the limit instead of being loaded (archive members were
+      // counted when their archive was expanded)
+      if (!candidate.archive) countBytes(budget, statSync(candidate.filePath).size, candidate.fileId);
+      if (ext === ".json") {
+        let forum: ForumThread[] | undefined;
+        try {
+          forum = parseForumJson(decodeText(readFileData(candidate)).text);
+        } catch (error) {
+          const detail = error instanceof Error ? error.message : String(error);
+          skipped.push({ path: candidate.fileId, reason: "unreadable", detail });
+          return;
+        }
+        if (!forum) {
+          // JSON is only ingested as a forum export; other JSON is configuration or data
+          skipped.push({ path: candidate.fileId, reason: "unsupported", detail: "JSON that is not a forum export" });
+          return;
+        }
+      }
+      results.push({
+        ...candidate,
+        ...(entry?.tag ? { tag: entry.tag } : {}),
+        ...(entry?.authoritative ? { authoritative: true } : {}),
+      });
+    } else {
+      skipped.push({
+        path: candidate.fileId,
+        reason: "unsupported",
+        ...(candidate.archive && isArchive(candidate.fileId) ? { detail: "nested archive" } : {}),
+      });
+    }
+  }
+
+  /** Expand archives into their members; pass other files straight through. */
+  function considerFile(
+    filePath: string,
+    fileId: string,
+    rules: readonly IgnoreRule[],
+    manifest: ReturnType<typeof loadManifest>,
+  ): void {
+    if (!isArchive(filePath) || manifest?.lookup(fileId).excludedBy) {
+      consider({ filePath, fileId }, manifest);
+      return;
+    }
+    for (const member of expandArchive(filePath, fileId, rules, skipped, budget)) {
+      consider(member, manifest);
+    }
+  }
 
   for (const inputPath of inputPaths) {
     const resolved = resolve(inputPath);
@@ -99,21 +491,15 @@ function discoverFiles(
     }
 
     if (stat.isFile()) {
-      if (SUPPORTED_EXTENSIONS.has(extname(resolved).toLowerCase())) {
-        results.push({
-          filePath: resolved,
-          fileId: basename(resolved),
-        });
-      }
+      countFile(budget, inputPath);
+      considerFile(resolved, basename(resolved), defaultRules, undefined);
     } else if (stat.isDirectory()) {
-      for (const filePath of walkDir(resolved)) {
-        if (SUPPORTED_EXTENSIONS.has(extname(filePath).toLowerCase())) {
-          const relPath = relative(resolved, filePath);
-          results.push({
-            filePath,
-            fileId: relPath.split("\\").join("/"), // normalize to forward slashes
-          });
-        }
+      const manifest = loadManifest(resolved);
+      budget.visited.set(realpathSync(resolved), "the input directory");
+      for (const { filePath, rules } of walkDir(resolved, resolved, defaultRules, skipped, budget)) {
+        const relPath = relative(resolved, filePath).split("\\").join("/"); // normalize to forward slashes
+        if (relPath === manifest?.filename) continue;
+        considerFile(filePath, relPath, rules, manifest);
       }
     }
   }
@@ -132,7 +518,8 @@ function discoverFiles(
 
   // Sort by filePath for deterministic ordering
   results.sort((a, b) => a.filePath.localeCompare(b.filePath));
-  return results;
+  skipped.sort((a, b) => a.path.localeCompare(b.path));
+  return { files: results, skipped, budget };
 }
 
 /**
@@ -157,12 +544,382 @@ function trimBlankLines(
   };
 }
 
+// ── Size bounding ───────────────────────────────────────────────
+
+/** Chunks longer than this many characters are split before indexing. */
+const MAX_CHUNK_CHARS = 3000;
+
+/** Trailing characters of one piece repeated at the start of the next. */
+const CHUNK_OVERLAP_CHARS = 300;
+
+/** A run of text and the 1-based lines it came from. */
+interface TextSpan {
+  readonly text: string;
+  readonly lineStart: number;
+  readonly lineEnd: number;
+  /** False when the span is part of a line (a sentence or a hard cut) */
+  readonly wholeLines: boolean;
+}
+
+/**
+ * Group lines into blank-line-separated paragraphs. Fenced code blocks
+ * stay in one paragraph even if they contain blank lines.
+ */
+function paragraphSpans(lines: readonly string[], firstLine: number): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let start = -1;
+  let inFencedBlock = false;
+
+  for (let i = 0; i <= lines.length; i++) {
+    const line = lines[i];
+    if (line !== undefined && /^(`{3,}|~{3,})/.test(line)) inFencedBlock = !inFencedBlock;
+    const ends = line === undefined || (line.trim() === "" && !inFencedBlock);
+    if (!ends && start === -1) start = i;
+    if (ends && start !== -1) {
+      spans.push({
+        text: lines.slice(start, i).join("\n"),
+        lineStart: firstLine + start,
+        lineEnd: firstLine + i - 1,
+        wholeLines: true,
+      });
+      start = -1;
+    }
+  }
+  return spans;
+}
+
+/**
+ * Break a span until every piece fits in MAX_CHUNK_CHARS: first into
+ * lines, then a single line into sentences, then a single sentence at
+ * the last whitespace before the limit.
+ */
+function splitOversizedSpan(span: TextSpan): TextSpan[] {
+  if (span.text.length <= MAX_CHUNK_CHARS) return [span];
+
+  if (span.lineEnd > span.lineStart) {
+    return span.text.split("\n").flatMap((text, i) =>
+      text.trim() === ""
+        ? []
+        : splitOversizedSpan({
+          text,
+          lineStart: span.lineStart + i,
+          lineEnd: span.lineStart + i,
+          wholeLines: true,
+        }),
+    );
+  }
+
+  const line = { lineStart: span.lineStart, lineEnd: span.lineEnd, wholeLines: false };
+  const sentences = span.text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) ?? [span.text];
+  const pieces: TextSpan[] = [];
+  for (const sentence of sentences) {
+    let rest = sentence.trim();
+    while (rest.length > MAX_CHUNK_CHARS) {
+      const cut = rest.lastIndexOf(" ", MAX_CHUNK_CHARS);
+      const at = cut > 0 ? cut : MAX_CHUNK_CHARS;
+      pieces.push({ ...line, text: rest.slice(0, at) });
+      rest = rest.slice(at).trimStart();
+    }
+    if (rest !== "") pieces.push({ ...line, text: rest });
+  }
+  return pieces;
+}
+
+/** Length of the separator joinSpans puts between two adjacent spans. */
+function joinerLength(previous: TextSpan, next: TextSpan): number {
+  return Math.max(1, next.lineStart - previous.lineEnd);
+}
+
+/** Join spans back into chunk text, reproducing the original layout. */
+function joinSpans(spans: readonly TextSpan[], lines: readonly string[], firstLine: number): string {
+  const first = spans[0]!;
+  const last = spans[spans.length - 1]!;
+  if (spans.every((s) => s.wholeLines)) {
+    return lines.slice(first.lineStart - firstLine, last.lineEnd - firstLine + 1).join("\n");
+  }
+
+  let text = first.text;
+  for (let i = 1; i < spans.length; i++) {
+    const gap = joinerLength(spans[i - 1]!, spans[i]!);
+    text += (spans[i]!.lineStart === spans[i - 1]!.lineEnd ? " " : "\n".repeat(gap)) + spans[i]!.text;
+  }
+  return text;
+}
+
+/**
+ * Split a chunk's lines into pieces of at most MAX_CHUNK_CHARS, breaking
+ * at paragraph, line and sentence boundaries in that order of preference.
+ * Each piece after the first starts with up to CHUNK_OVERLAP_CHARS of the
+ * previous piece's trailing spans so a requirement that straddles the cut
+ * is still retrievable whole. Line numbers are 1-based; a chunk that
+ * already fits is returned unchanged as a single piece.
+ */
+function sizeBoundedPieces(
+  lines: readonly string[],
+  firstLine: number,
+): { text: string; lineStart: number; lineEnd: number }[] {
+  const whole = lines.join("\n");
+  if (whole.length <= MAX_CHUNK_CHARS) {
+    return [{ text: whole, lineStart: firstLine, lineEnd: firstLine + lines.length - 1 }];
+  }
+
+  const spans = paragraphSpans(lines, firstLine).flatMap(splitOversizedSpan);
+  const groups: TextSpan[][] = [];
+  let current: TextSpan[] = [];
+  let size = 0;
+  let fresh = 0; // spans in `current` not carried over as overlap
+
+  for (const span of spans) {
+    const tail = current[current.length - 1];
+    if (fresh > 0 && size + joinerLength(tail!, span) + span.text.length > MAX_CHUNK_CHARS) {
+      groups.push(current);
+
+      // Carry trailing spans forward while they fit in the overlap budget
+      // and still leave room for the span that did not fit
+      const room = Math.min(CHUNK_OVERLAP_CHARS, MAX_CHUNK_CHARS - span.text.length - joinerLength(tail!, span));
+      const carried: TextSpan[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const joiner = carried.length > 0 ? joinerLength(current[i]!, carried[0]!) : 0;
+        const next = carriedSize + current[i]!.text.length + joiner;
+        if (next > room) break;
+        carried.unshift(current[i]!);
+        carriedSize = next;
+      }
+      current = carried;
+      size = carriedSize;
+      fresh = 0;
+    }
+    const previous = current[current.length - 1];
+    size += (previous ? joinerLength(previous, span) : 0) + span.text.length;
+    current.push(span);
+    fresh++;
+  }
+  if (fresh > 0) groups.push(current);
+
+  return groups.map((group) => ({
+    text: joinSpans(group, lines, firstLine),
+    lineStart: group[0]!.lineStart,
+    lineEnd: group[group.length - 1]!.lineEnd,
+  }));
+}
+
+/** Separator between heading levels in a section breadcrumb. */
+const SECTION_SEPARATOR = " > ";
+
+/** Open headings from outermost to innermost, e.g. [{1, "Part 2"}, {2, "Heap"}] */
+type HeadingStack = { level: number; text: string; anchor?: string }[];
+
+/** Close headings at the same or a deeper level, then open this one. */
+function pushHeading(stack: HeadingStack, heading: HeadingStack[number]): void {
+  while (stack.length > 0 && stack[stack.length - 1]!.level >= heading.level) {
+    stack.pop();
+  }
+  stack.push(heading);
+}
+
+/**
+ * If the line is an ATX heading ("## Title"), update the stack and return
+ * the new breadcrumb ("" when the heading is empty and the stack is now
+ * empty). Returns undefined for non-heading lines.
+ */
+function applyMarkdownHeading(stack: HeadingStack, line: string): string | undefined {
+  const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+  if (!heading) return undefined;
+
+  // Strip an optional closing sequence ("## Title ##")
+  const level = heading[1]!.length;
+  const text = heading[2]!.replace(/\s+#+\s*$/, "").trim();
+  if (text !== "") {
+    pushHeading(stack, { level, text });
+  } else {
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= level) stack.pop();
+  }
+  return stack.map((h) => h.text).join(SECTION_SEPARATOR);
+}
+
+/** Opening line of a fenced code block; group 2 is the language from the info string. */
+const MARKDOWN_FENCE = /^(`{3,}|~{3,})\s*([^\s`{]*)/;
+
+/** List item: "- x", "* x", "+ x", "1. x", "1) x" (optionally indented). */
+const MARKDOWN_LIST_ITEM = /^\s*(?:[-*+]|\d{1,9}[.)])\s+\S/;
+
+/** GFM table delimiter row, e.g. "| --- | :---: |". */
+const MARKDOWN_TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** A run of a markdown section's lines with one chunk kind. */
+interface MarkdownBlock {
+  /** 0-indexed first and last (inclusive) line within the section */
+  start: number;
+  end: number;
+  kind: ChunkKind;
+  language?: string;
+}
+
+/** Kind of a run of lines between tables and code blocks. */
+function markdownRunKind(lines: readonly string[]): ChunkKind {
+  const body = lines.filter((line) => line.trim() !== "" && !/^#{1,6}\s/.test(line));
+  if (body.length === 0 || !MARKDOWN_LIST_ITEM.test(body[0]!)) return "prose";
+  // Items and their indented continuation lines, with nothing in between
+  return body.every((line) => MARKDOWN_LIST_ITEM.test(line) || /^\s/.test(line)) ? "list" : "prose";
+}
+
+/**
+ * Split a section's lines into blocks: every fenced code block and every
+ * table is a block of its own, and each run of lines between them is
+ * prose, or a list when it holds nothing but list items. A run that holds
+ * only the heading joins the block after it, so a table or code block
+ * that opens a section keeps its heading. An unclosed fence runs to the
+ * end of the section.
+ */
+function markdownBlocks(lines: readonly string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let runStart = 0;
+
+  function flushRun(end: number): void {
+    const run = lines.slice(runStart, end);
+    if (run.some((line) => line.trim() !== "")) {
+      blocks.push({ start: runStart, end: end - 1, kind: markdownRunKind(run) });
+    }
+  }
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const fence = MARKDOWN_FENCE.exec(line);
+    let block: MarkdownBlock | undefined;
+    if (fence) {
+      const marker = fence[1]!;
+      let end = i + 1;
+      while (end < lines.length && !lines[end]!.trim().startsWith(marker)) end++;
+      block = {
+        start: i,
+        end: Math.min(end, lines.length - 1),
+        kind: "code",
+        ...(fence[2] ? { language: fence[2].toLowerCase() } : {}),
+      };
+    } else if (line.includes("|") && lines[i + 1]?.includes("|") && MARKDOWN_TABLE_DELIMITER.test(lines[i + 1]!)) {
+      let end = i + 1;
+      while (end + 1 < lines.length && lines[end + 1]!.includes("|") && lines[end + 1]!.trim() !== "") end++;
+      block = { start: i, end, kind: "table" };
+    }
+
+    if (!block) {
+      i++;
+      continue;
+    }
+    flushRun(i);
+    const previous = blocks[blocks.length - 1];
+    const headingOnly = previous !== undefined && previous.end === i - 1 &&
+      lines.slice(previous.start, i).filter((l) => l.trim() !== "").every((l) => /^#{1,6}\s/.test(l));
+    if (headingOnly) {
+      blocks.pop();
+      block.start = previous.start;
+    }
+    blocks.push(block);
+    i = block.end + 1;
+    runStart = i;
+  }
+  flushRun(lines.length);
+  return blocks;
+}
+
+/**
+ * Split a table or fenced code block longer than MAX_CHUNK_CHARS between
+ * whole lines of its body (lines[bodyStart] up to lines[bodyEnd]), so
+ * each piece still reads as a table or code block: pieces after the first
+ * start with `head` (the header and delimiter rows, or the opening fence)
+ * and pieces before the last end with `foot` (the closing fence). Repeated
+ * lines are not counted in a piece's line range. A body line that alone
+ * exceeds the limit is kept whole.
+ */
+function wholeLinePieces(
+  lines: readonly string[],
+  firstLine: number,
+  bodyStart: number,
+  bodyEnd: number,
+  head: readonly string[],
+  foot: readonly string[],
+): { text: string; lineStart: number; lineEnd: number }[] {
+  const whole = lines.join("\n");
+  if (whole.length <= MAX_CHUNK_CHARS) {
+    return [{ text: whole, lineStart: firstLine, lineEnd: firstLine + lines.length - 1 }];
+  }
+
+  const length = (part: readonly string[]) => part.reduce((sum, line) => sum + line.length + 1, 0);
+  const room = MAX_CHUNK_CHARS -
+    Math.max(length(head), length(lines.slice(0, bodyStart))) -
+    Math.max(length(foot), length(lines.slice(bodyEnd)));
+  const groups: { start: number; end: number }[] = [];
+  let start = bodyStart;
+  let size = 0;
+  for (let i = bodyStart; i < bodyEnd; i++) {
+    const cost = lines[i]!.length + 1;
+    if (i > start && size + cost > room) {
+      groups.push({ start, end: i });
+      start = i;
+      size = 0;
+    }
+    size += cost;
+  }
+  groups.push({ start, end: bodyEnd });
+
+  return groups.map(({ start, end }, k) => {
+    const first = k === 0;
+    const last = k === groups.length - 1;
+    return {
+      text: [
+        ...(first ? lines.slice(0, start) : head),
+        ...lines.slice(start, end),
+        ...(last ? lines.slice(end) : foot),
+      ].join("\n"),
+      lineStart: firstLine + (first ? 0 : start),
+      lineEnd: firstLine + (last ? lines.length : end) - 1,
+    };
+  });
+}
+
+/**
+ * Pieces of a markdown block of the given kind (see markdownBlocks):
+ * tables and fenced code blocks are split between rows or lines with
+ * their header or fences repeated (see wholeLinePieces), other blocks by
+ * sizeBoundedPieces.
+ */
+function markdownBlockPieces(
+  lines: readonly string[],
+  firstLine: number,
+  kind: ChunkKind,
+): { text: string; lineStart: number; lineEnd: number }[] {
+  if (kind === "table") {
+    const delimiter = lines.findIndex((line, i) =>
+      i > 0 && lines[i - 1]!.includes("|") && MARKDOWN_TABLE_DELIMITER.test(line));
+    if (delimiter > 0) {
+      return wholeLinePieces(lines, firstLine, delimiter + 1, lines.length, lines.slice(delimiter - 1, delimiter + 1), []);
+    }
+  } else if (kind === "code") {
+    const open = lines.findIndex((line) => MARKDOWN_FENCE.test(line));
+    if (open >= 0) {
+      const marker = MARKDOWN_FENCE.exec(lines[open]!)![1]!;
+      const last = lines.length - 1;
+      const closed = last > open && lines[last]!.trim().startsWith(marker);
+      return wholeLinePieces(lines, firstLine, open + 1, closed ? last : lines.length, [lines[open]!], [marker]);
+    }
+  }
+  return sizeBoundedPieces(lines, firstLine);
+}
+
 /**
  * Split markdown content into chunks by headings.
- * Each heading and its following content become one chunk.
+ * Each heading and its following content become one chunk, except that
+ * fenced code blocks and tables become chunks of their own (see
+ * markdownBlocks), and every chunk records its `kind`.
  * Content before the first heading becomes a preamble chunk.
  * Line numbers are 1-based. Leading/trailing blank lines are excluded
  * from both text and line range to maintain text-locator correspondence.
+ * Each heading chunk records its heading breadcrumb in source_ref.section
+ * (e.g. "Part 2 > Memory Allocator > Requirements"); the preamble has none.
+ * Blocks longer than MAX_CHUNK_CHARS are split into pieces that inherit
+ * the section and kind (see markdownBlockPieces).
  */
 function chunkMarkdown(content: string, fileId: string): Chunk[] {
   const lines = content.split("\n");
@@ -171,25 +928,34 @@ function chunkMarkdown(content: string, fileId: string): Chunk[] {
   let currentStart = 0; // 0-indexed accumulation start
   let chunkIndex = 0;
   let inFencedBlock = false;
+  const headingStack: HeadingStack = [];
+  let currentSection: string | undefined;
 
   function flushChunk(): void {
-    const trimmed = trimBlankLines(currentLines);
-    if (!trimmed) return; // all blank lines, skip
+    for (const block of markdownBlocks(currentLines)) {
+      const trimmed = trimBlankLines(currentLines.slice(block.start, block.end + 1));
+      if (!trimmed) continue; // all blank lines, skip
 
-    const lineStart1 = currentStart + trimmed.startOffset + 1; // convert to 1-based
-    const lineEnd1 = currentStart + currentLines.length - 1 - trimmed.endOffset + 1;
+      const lineStart1 = currentStart + block.start + trimmed.startOffset + 1; // convert to 1-based
 
-    chunks.push({
-      chunk_id: makeChunkId(fileId, chunkIndex),
-      file_id: fileId,
-      text: trimmed.trimmedLines.join("\n"),
-      source_ref: {
-        file_id: fileId,
-        line_start: lineStart1,
-        line_end: lineEnd1,
-      },
-    });
-    chunkIndex++;
+      // Oversized blocks become several chunks that share the section
+      for (const piece of markdownBlockPieces(trimmed.trimmedLines, lineStart1, block.kind)) {
+        chunks.push({
+          chunk_id: makeChunkId(fileId, chunkIndex),
+          file_id: fileId,
+          text: piece.text,
+          source_ref: {
+            file_id: fileId,
+            ...(currentSection !== undefined ? { section: currentSection } : {}),
+            line_start: piece.lineStart,
+            line_end: piece.lineEnd,
+          },
+          kind: block.kind,
+          ...(block.language ? { language: block.language } : {}),
+        });
+        chunkIndex++;
+      }
+    }
   }
 
   for (let i = 0; i < lines.length; i++) {
@@ -200,10 +966,15 @@ function chunkMarkdown(content: string, fileId: string): Chunk[] {
       inFencedBlock = !inFencedBlock;
     }
 
-    if (!inFencedBlock && /^#{1,6}\s/.test(line) && currentLines.length > 0) {
-      flushChunk();
-      currentLines = [line];
+    const isHeading = !inFencedBlock && /^#{1,6}\s/.test(line);
+    if (isHeading) {
+      if (currentLines.length > 0) {
+        flushChunk();
+        currentLines = [];
+      }
+      currentLines.push(line);
       currentStart = i;
+      currentSection = applyMarkdownHeading(headingStack, line) || undefined;
     } else {
       currentLines.push(line);
     }
@@ -220,7 +991,8 @@ function chunkMarkdown(content: string, fileId: string): Chunk[] {
  * Split plain text content into chunks by paragraphs (blank-line separated).
  * Multiple consecutive blank lines are treated as a single separator.
  * Line numbers are 1-based. Only non-blank content lines are included
- * in the chunk text and line range.
+ * in the chunk text and line range. Paragraphs longer than MAX_CHUNK_CHARS
+ * are split into overlapping pieces at line or sentence boundaries.
  */
 function chunkPlainText(content: string, fileId: string): Chunk[] {
   const lines = content.split("\n");
@@ -234,17 +1006,19 @@ function chunkPlainText(content: string, fileId: string): Chunk[] {
 
     // currentLines only contains non-blank lines accumulated while
     // in "inside paragraph" state, so no blank-line trimming needed.
-    chunks.push({
-      chunk_id: makeChunkId(fileId, chunkIndex),
-      file_id: fileId,
-      text: currentLines.join("\n"),
-      source_ref: {
+    for (const piece of sizeBoundedPieces(currentLines, currentStart + 1)) {
+      chunks.push({
+        chunk_id: makeChunkId(fileId, chunkIndex),
         file_id: fileId,
-        line_start: currentStart + 1, // convert to 1-based
-        line_end: currentStart + currentLines.length, // 1-based inclusive
-      },
-    });
-    chunkIndex++;
+        text: piece.text,
+        source_ref: {
+          file_id: fileId,
+          line_start: piece.lineStart,
+          line_end: piece.lineEnd,
+        },
+      });
+      chunkIndex++;
+    }
     currentLines = [];
     currentStart = -1;
   }
@@ -275,55 +1049,2520 @@ function chunkPlainText(content: string, fileId: string): Chunk[] {
   return chunks;
 }
 
+// ── Source code chunking ────────────────────────────────────────
+//
+// Starter code is split into one chunk per top-level symbol (function,
+// class, struct, ...) so interface requirements can cite the exact stub.
+// This is a line-oriented heuristic, not a parser: it recognizes common
+// declaration shapes at column 0 and finds their extent by brace matching
+// (C-family languages) or indentation (Python).
+
+interface CodeSymbol {
+  readonly name: string;
+  /** 0-indexed first line, including attached comments/decorators */
+  readonly start: number;
+  /** 0-indexed last line (inclusive) */
+  readonly end: number;
+}
+
+/** Max lines between a declaration's first line and its opening brace. */
+const CODE_SIGNATURE_LOOKAHEAD = 6;
+
 /**
- * Split a file's content into chunks with source refs.
+ * Top-level declaration shapes for C-family languages, tried in order.
+ * Each captures the symbol name in group 1.
  */
-function chunkFile(filePath: string, fileId: string): Chunk[] {
-  const content = readFileSync(filePath, "utf-8");
-  if (content.trim().length === 0) return [];
+const BRACE_DECLARATIONS: readonly RegExp[] = [
+  // class Foo / struct foo / interface Foo / enum Color / trait Show (any modifiers)
+  /^(?:(?:export|default|public|private|protected|abstract|final|static|sealed|pub(?:\([^)]*\))?|typedef)\s+)*(?:class|interface|enum|struct|union|trait|record)\s+([A-Za-z_]\w*)/,
+  // C anonymous typedefs: typedef struct { ... } name;  (name read from the closing line)
+  /^typedef\s+(?:struct|union|enum)\s*(\{)/,
+  // Rust impl blocks: impl Foo / impl<T> Display for Foo<T>
+  /^(?:unsafe\s+)?impl\b(?:<[^>]*>)?\s+([^{]+?)\s*(?:where\b|\{|$)/,
+  // Go methods and functions: func (r *Recv) Name( / func Name(
+  /^func\s+(?:\(\s*\w*\s*\*?\s*([A-Za-z_]\w*)[^)]*\)\s*)?([A-Za-z_]\w*)/,
+  // Go / TypeScript type declarations: type Foo struct / type Foo = {
+  /^(?:export\s+)?type\s+([A-Za-z_]\w*)/,
+  // JS/TS/Rust functions: function foo / async function* foo / pub fn foo
+  /^(?:(?:export|default|async|pub(?:\([^)]*\))?|unsafe|const|extern(?:\s+"[^"]*")?)\s+)*(?:function\*?|fn)\s*([A-Za-z_$][\w$]*)/,
+  // JS/TS arrow functions and function expressions bound at top level
+  /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+  // C/C++/Java-style functions: <return type> name(  — must not be a statement
+  /^(?!(?:if|for|while|switch|return|else|do|case|goto|sizeof|typedef)\b)[A-Za-z_][\w\s*&<>,:\[\]]*?[\s*&]\**([A-Za-z_]\w*)\s*\(/,
+];
 
-  const ext = extname(filePath).toLowerCase();
-  if (ext === ".md") {
-    return chunkMarkdown(content, fileId);
-  }
-  return chunkPlainText(content, fileId);
-}
+/** Marker for declarations whose name follows the body (C anonymous typedefs). */
+const TRAILING_NAME = "{";
+
+/** Lines that attach to the following declaration (comments, decorators). */
+const BRACE_ATTACHED_LINE = /^\s*(?:\/\/|\/\*|\*|@|#\[)/;
+const PYTHON_ATTACHED_LINE = /^(?:#|@)/;
 
 /**
- * Ingest stage: reads input files, splits into chunks, returns validated output.
- * Throws on unrecoverable errors (missing paths, no files, no chunks).
+ * Count braces on a line, ignoring those inside string/char literals and
+ * comments, and find the first ";" outside braces. Returns the updated
+ * block-comment state for the next line.
  */
-async function run(_input: unknown, ctx: RunContext): Promise<IngestOutput> {
-  const discovered = discoverFiles(ctx.config.input_paths);
+function scanBraces(
+  line: string,
+  inBlockComment: boolean,
+): { opens: number; closes: number; firstOpen: number; firstSemicolon: number; inBlockComment: boolean } {
+  let opens = 0;
+  let closes = 0;
+  let firstOpen = -1;
+  let firstSemicolon = -1;
+  let depth = 0;
+  let i = 0;
 
-  if (discovered.length === 0) {
-    throw new Error(
-      `No supported files found (extensions: ${[...SUPPORTED_EXTENSIONS].join(", ")}). ` +
-      `Searched: ${ctx.config.input_paths.join(", ")}`,
-    );
+  while (i < line.length) {
+    if (inBlockComment) {
+      const end = line.indexOf("*/", i);
+      if (end === -1) break;
+      inBlockComment = false;
+      i = end + 2;
+      continue;
+    }
+    const ch = line[i]!;
+    if (ch === "/" && line[i + 1] === "/") break;
+    if (ch === "/" && line[i + 1] === "*") {
+      inBlockComment = true;
+      i += 2;
+      continue;
+    }
+    if (ch === '"' || ch === "`") {
+      i++;
+      while (i < line.length && line[i] !== ch) i += line[i] === "\\" ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (ch === "'") {
+      // Only a char literal if it closes promptly — Rust lifetimes ('a) don't
+      const literal = /^'(?:\\.[^']*|[^\\'])'/.exec(line.slice(i));
+      i += literal ? literal[0].length : 1;
+      continue;
+    }
+    if (ch === "{") {
+      opens++;
+      depth++;
+      if (firstOpen === -1) firstOpen = i;
+    } else if (ch === "}") {
+      closes++;
+      depth--;
+    } else if (ch === ";" && depth <= 0 && firstSemicolon === -1) {
+      firstSemicolon = i;
+    }
+    i++;
   }
 
-  const allChunks: Chunk[] = [];
-  const fileTags: Record<string, FileTag> = {};
+  return { opens, closes, firstOpen, firstSemicolon, inBlockComment };
+}
 
-  for (const { filePath, fileId } of discovered) {
-    fileTags[fileId] = inferFileTag(filePath);
-    const chunks = chunkFile(filePath, fileId);
-    allChunks.push(...chunks);
+/**
+ * Match a line against the top-level declaration shapes.
+ * Returns the symbol name, or undefined if the line is not a declaration.
+ */
+function matchBraceDeclaration(line: string): string | undefined {
+  for (const pattern of BRACE_DECLARATIONS) {
+    const match = pattern.exec(line);
+    if (!match) continue;
+    // Go methods capture the receiver type and the method name separately
+    if (match[2] !== undefined) {
+      return match[1] ? `${match[1]}.${match[2]}` : match[2];
+    }
+    return match[1]!.trim();
   }
+  return undefined;
+}
 
-  if (allChunks.length === 0) {
-    throw new Error(
-      `All ${discovered.length} supported file(s) produced zero chunks (files may be empty or whitespace-only)`,
-    );
-  }
+/**
+ * Find top-level symbols in C-family source (C, Java, JS/TS, Go, Rust).
+ * A declaration at column 0 becomes a symbol if its body opens within
+ * CODE_SIGNATURE_LOOKAHEAD lines; it ends where brace depth returns to 0.
+ * Declarations terminated by ";" first (prototypes, aliases) are not symbols.
+ */
+function findBraceSymbols(lines: readonly string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  let depth = 0;
+  let inBlockComment = false;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    const name =
+      depth === 0 && !inBlockComment && /^[^\s#]/.test(line)
+        ? matchBraceDeclaration(line)
+        : undefined;
+
+    if (name === undefined) {
+      const scan = scanBraces(line, inBlockComment);
+      depth = Math.max(0, depth + scan.opens - scan.closes);
+      inBlockComment = scan.inBlockComment;
+      i++;
+      continue;
+    }
 
-  return { chunks: allChunks, file_tags: fileTags };
+    // Find the body: scan forward until depth returns to 0 after opening
+    let bodyDepth = 0;
+    let opened = false;
+    let end = -1;
+    let comment = inBlockComment;
+    for (let j = i; j < lines.length; j++) {
+      const scan = scanBraces(lines[j]!, comment);
+      comment = scan.inBlockComment;
+      if (!opened) {
+        if (j - i > CODE_SIGNATURE_LOOKAHEAD) break;
+        if (j > i && (lines[j]!.trim() === "" || matchBraceDeclaration(lines[j]!) !== undefined)) {
+          break; // no body before the next blank line or declaration
+        }
+        if (scan.firstSemicolon !== -1 && (scan.firstOpen === -1 || scan.firstSemicolon < scan.firstOpen)) {
+          break; // prototype or one-line declaration without a body
+        }
+      }
+      if (scan.opens > 0) opened = true;
+      bodyDepth += scan.opens - scan.closes;
+      if (opened && bodyDepth <= 0) {
+        end = j;
+        break;
+      }
+    }
+
+    if (end === -1) {
+      if (opened) end = lines.length - 1; // unterminated body runs to EOF
+      else {
+        const scan = scanBraces(line, inBlockComment);
+        depth = Math.max(0, depth + scan.opens - scan.closes);
+        inBlockComment = scan.inBlockComment;
+        i++;
+        continue;
+      }
+    }
+
+    const symbolName = name === TRAILING_NAME
+      ? /}\s*([A-Za-z_]\w*)\s*;/.exec(lines[end]!)?.[1] ?? "typedef"
+      : name;
+    symbols.push({ name: symbolName, start: attachLeadingLines(lines, i, BRACE_ATTACHED_LINE), end });
+    inBlockComment = comment;
+    depth = 0;
+    i = end + 1;
+  }
+
+  return symbols;
+}
+
+/**
+ * Find top-level `def`/`class` symbols in Python source. A symbol extends
+ * until the next non-blank line at column 0 (ignoring lines inside
+ * triple-quoted strings and closing brackets of multi-line signatures).
+ */
+function findPythonSymbols(lines: readonly string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  let current: { name: string; start: number } | undefined;
+  let lastContent = -1;
+  let tripleQuote: string | undefined;
+
+  const close = (): void => {
+    if (current) symbols.push({ ...current, end: lastContent });
+    current = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const startedInString = tripleQuote !== undefined;
+
+    // Track triple-quoted strings so their column-0 lines are not boundaries
+    for (const match of line.matchAll(/"""|'''/g)) {
+      if (tripleQuote === undefined) tripleQuote = match[0];
+      else if (tripleQuote === match[0]) tripleQuote = undefined;
+    }
+
+    if (line.trim() === "") continue;
+
+    if (!startedInString && /^\S/.test(line) && !/^[)\]}]/.test(line)) {
+      const def = /^(?:async\s+)?def\s+([A-Za-z_]\w*)|^class\s+([A-Za-z_]\w*)/.exec(line);
+      if (def) {
+        close();
+        current = { name: def[1] ?? def[2]!, start: attachLeadingLines(lines, i, PYTHON_ATTACHED_LINE) };
+      } else {
+        // Any other column-0 line ends the symbol (decorators and comments
+        // here belong to the next def, via attachLeadingLines)
+        close();
+      }
+    }
+    lastContent = i;
+  }
+  close();
+
+  return symbols;
+}
+
+/**
+ * Walk upward from a declaration over contiguous comment/decorator lines
+ * so doc comments travel with their symbol. Stops at blank lines.
+ */
+function attachLeadingLines(lines: readonly string[], start: number, attached: RegExp): number {
+  let first = start;
+  while (first > 0 && attached.test(lines[first - 1]!) && lines[first - 1]!.trim() !== "") {
+    first--;
+  }
+  return first;
+}
+
+/**
+ * Split a source file into chunks: one per top-level symbol (with
+ * `section` naming the symbol), plus one chunk for each run of code
+ * between symbols (imports, globals, prototypes). Line numbers are
+ * 1-based and blank edge lines are excluded, as in chunkMarkdown.
+ */
+function chunkCode(content: string, fileId: string, ext: string): Chunk[] {
+  const lines = content.split("\n");
+  const symbols = ext === ".py" ? findPythonSymbols(lines) : findBraceSymbols(lines);
+  const chunks: Chunk[] = [];
+  let chunkIndex = 0;
+
+  function emit(start: number, end: number, section?: string): void {
+    const trimmed = trimBlankLines(lines.slice(start, end + 1));
+    if (!trimmed) return;
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunkIndex),
+      file_id: fileId,
+      text: trimmed.trimmedLines.join("\n"),
+      source_ref: {
+        file_id: fileId,
+        ...(section !== undefined ? { section } : {}),
+        line_start: start + trimmed.startOffset + 1,
+        line_end: end - trimmed.endOffset + 1,
+      },
+      kind: "code",
+      language: CODE_LANGUAGES[ext]!,
+    });
+    chunkIndex++;
+  }
+
+  let cursor = 0;
+  for (const symbol of symbols) {
+    if (symbol.start > cursor) emit(cursor, symbol.start - 1);
+    emit(symbol.start, symbol.end, symbol.name);
+    cursor = symbol.end + 1;
+  }
+  if (cursor < lines.length) emit(cursor, lines.length - 1);
+
+  return chunks;
+}
+
+// ── Jupyter notebooks ───────────────────────────────────────────
+
+interface NotebookMetadata {
+  readonly kernelspec?: { readonly language?: string };
+  readonly language_info?: { readonly name?: string };
+}
+
+interface NotebookCell {
+  readonly cell_type?: string;
+  readonly source?: string | string[];
+  /** nbformat 3 code cells keep their source here */
+  readonly input?: string | string[];
+}
+
+/**
+ * Split a Jupyter notebook into one chunk per non-empty cell, located by
+ * 1-based cell number. Markdown headings set `section` for their own cell
+ * and every following cell until the next heading. Code cells carry a
+ * "code" tag override so one notebook can feed both requirement extraction
+ * (markdown instructions, tagged like the file) and code retrieval, and
+ * are of kind "code" in the kernel's language.
+ * Cell outputs are not ingested.
+ */
+function chunkNotebook(content: string, fileId: string): Chunk[] {
+  let notebook: {
+    cells?: NotebookCell[];
+    worksheets?: { cells?: NotebookCell[] }[];
+    metadata?: NotebookMetadata;
+  };
+  try {
+    notebook = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Not a valid Jupyter notebook: ${fileId} (${message})`);
+  }
+  const cells = notebook.cells ?? notebook.worksheets?.[0]?.cells;
+  if (!Array.isArray(cells)) {
+    throw new Error(`Not a valid Jupyter notebook: ${fileId} (no cells array)`);
+  }
+  const language = (notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language)
+    ?.toLowerCase();
+
+  const chunks: Chunk[] = [];
+  const headingStack: HeadingStack = [];
+  let section: string | undefined;
+  let chunkIndex = 0;
+
+  cells.forEach((cell, i) => {
+    const raw = cell.source ?? cell.input ?? "";
+    const text = (Array.isArray(raw) ? raw.join("") : raw).trim();
+    if (text === "") return;
+
+    const isCode = cell.cell_type === "code";
+    let cellSection = section;
+    if (cell.cell_type === "markdown") {
+      let inFencedBlock = false;
+      let first = true;
+      for (const line of text.split("\n")) {
+        if (/^(`{3,}|~{3,})/.test(line)) inFencedBlock = !inFencedBlock;
+        if (inFencedBlock) continue;
+        const breadcrumb = applyMarkdownHeading(headingStack, line);
+        if (breadcrumb === undefined) continue;
+        section = breadcrumb || undefined;
+        if (first) cellSection = section;
+        first = false;
+      }
+    }
+
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunkIndex),
+      file_id: fileId,
+      text,
+      source_ref: {
+        file_id: fileId,
+        cell: i + 1,
+        ...(cellSection !== undefined ? { section: cellSection } : {}),
+      },
+      ...(isCode ? { tag: "code" as const, kind: "code" as const, ...(language ? { language } : {}) } : {}),
+    });
+    chunkIndex++;
+  });
+
+  return chunks;
+}
+
+// ── LaTeX chunking ──────────────────────────────────────────────
+
+/** Sectioning commands and their nesting depth (lower = outer). */
+const LATEX_SECTION_LEVELS: Readonly<Record<string, number>> = {
+  part: 0,
+  chapter: 1,
+  section: 2,
+  subsection: 3,
+  subsubsection: 4,
+};
+
+/** Environments that hold a single problem and get their own chunk. */
+const LATEX_PROBLEM_ENVIRONMENTS = new Set([
+  "problem", "exercise", "question", "task", "homeworkproblem",
+]);
+
+/** Environments whose contents are not LaTeX and must not be split. */
+const LATEX_VERBATIM_ENVIRONMENTS = new Set([
+  "verbatim", "Verbatim", "lstlisting", "minted", "comment",
+]);
+
+/** Body lines that carry no content: comments and layout-only commands. */
+const LATEX_NOISE_LINE =
+  /^\s*(?:\\(?:maketitle|tableofcontents|newpage|clearpage|pagebreak|noindent|bigskip|medskip|smallskip|vfill|hfill|centering)\b|\\[vh]space\*?\{[^}]*\}|\s)*(?:%.*)?$/;
+
+/** Drop a trailing comment, leaving escaped percent signs ("\%") alone. */
+function stripLatexComment(line: string): string {
+  return line.replace(/(?<!\\)%.*$/, "");
+}
+
+/**
+ * Read a brace-delimited group starting at `open` (which must be "{").
+ * Returns its inner text, or undefined if it does not close on this line.
+ */
+function readLatexGroup(line: string, open: number): string | undefined {
+  let depth = 0;
+  for (let i = open; i < line.length; i++) {
+    const ch = line[i]!;
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) return line.slice(open + 1, i);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn a sectioning argument into plain heading text: drop labels,
+ * unwrap formatting commands (\textbf{x} → x) and collapse whitespace.
+ * Inline math is left as written.
+ */
+function cleanLatexTitle(title: string): string {
+  let text = title.replace(/\\label\{[^}]*\}/g, "");
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(/\\[A-Za-z]+\*?\{([^{}]*)\}/g, "$1");
+  } while (text !== previous);
+  return text.replace(/\\([&%#_$])/g, "$1").replace(/~/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * If the line starts with a sectioning command ("\subsection*{Title}"),
+ * return its level and title. A title that continues onto the next line
+ * is truncated at the end of this one.
+ */
+function parseLatexHeading(line: string): { level: number; title: string } | undefined {
+  const code = stripLatexComment(line);
+  const match = /^\s*\\(part|chapter|section|subsection|subsubsection)\*?\s*(?:\[[^\]]*\]\s*)?\{/.exec(code);
+  if (!match) return undefined;
+
+  const open = match[0].length - 1;
+  const title = readLatexGroup(code, open) ?? code.slice(open + 1);
+  return { level: LATEX_SECTION_LEVELS[match[1]!]!, title: cleanLatexTitle(title) };
+}
+
+/**
+ * If the line opens a problem-style environment, return the environment
+ * name (including any "*") and its optional title, from either
+ * "\begin{problem}[Title]" or "\begin{problem}{Title}".
+ */
+function parseLatexProblem(line: string): { env: string; title?: string } | undefined {
+  const code = stripLatexComment(line);
+  const match = /^\s*\\begin\{([A-Za-z]+)(\*?)\}\s*/.exec(code);
+  if (!match || !LATEX_PROBLEM_ENVIRONMENTS.has(match[1]!)) return undefined;
+
+  const rest = code.slice(match[0].length);
+  const raw = rest.startsWith("[")
+    ? /^\[([^\]]*)\]/.exec(rest)?.[1]
+    : rest.startsWith("{") ? readLatexGroup(rest, 0) : undefined;
+  const title = raw !== undefined ? cleanLatexTitle(raw) : "";
+  return { env: match[1]! + match[2]!, ...(title !== "" ? { title } : {}) };
+}
+
+/**
+ * Split a LaTeX source into chunks at sectioning commands and around
+ * problem-style environments (\begin{problem} … \end{problem}).
+ *
+ * Only the document body is ingested: everything up to \begin{document}
+ * is package and macro setup. Files without \begin{document} (e.g. parts
+ * pulled in with \input) are treated as all body. Chunk text is the
+ * original source lines, so math stays exactly as written; chunks made
+ * only of comments and layout commands are dropped. `section` is the
+ * sectioning breadcrumb, with "Problem N" (or "Problem N: Title")
+ * appended inside a problem environment.
+ */
+function chunkLatex(content: string, fileId: string): Chunk[] {
+  const lines = content.split("\n");
+  const chunks: Chunk[] = [];
+  let chunkIndex = 0;
+
+  const beginDocument = lines.findIndex((l) => /^\s*\\begin\{document\}/.test(l));
+  const bodyStart = beginDocument + 1; // 0 when there is no \begin{document}
+  const endDocument = lines.findIndex((l, i) => i >= bodyStart && /^\s*\\end\{document\}/.test(l));
+  const bodyEnd = endDocument === -1 ? lines.length : endDocument;
+
+  const headingStack: HeadingStack = [];
+  const problemCounts = new Map<string, number>();
+  let problem: { env: string; label: string } | undefined;
+  let verbatimEnv: string | undefined;
+  let currentLines: string[] = [];
+  let currentStart = bodyStart;
+  let currentSection: string | undefined;
+
+  function sectionPath(): string | undefined {
+    const parts = headingStack.map((h) => h.text);
+    if (problem) parts.push(problem.label);
+    return parts.length > 0 ? parts.join(SECTION_SEPARATOR) : undefined;
+  }
+
+  function flushChunk(): void {
+    const trimmed = trimBlankLines(currentLines);
+    if (!trimmed) return;
+    if (trimmed.trimmedLines.every((l) => LATEX_NOISE_LINE.test(l))) return;
+
+    const lineStart1 = currentStart + trimmed.startOffset + 1;
+    const lineEnd1 = currentStart + currentLines.length - 1 - trimmed.endOffset + 1;
+
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunkIndex),
+      file_id: fileId,
+      text: trimmed.trimmedLines.join("\n"),
+      source_ref: {
+        file_id: fileId,
+        ...(currentSection !== undefined ? { section: currentSection } : {}),
+        line_start: lineStart1,
+        line_end: lineEnd1,
+      },
+    });
+    chunkIndex++;
+  }
+
+  function startChunk(at: number): void {
+    flushChunk();
+    currentLines = [];
+    currentStart = at;
+  }
+
+  for (let i = bodyStart; i < bodyEnd; i++) {
+    const line = lines[i]!;
+
+    if (verbatimEnv !== undefined) {
+      currentLines.push(line);
+      if (line.includes(`\\end{${verbatimEnv}}`)) verbatimEnv = undefined;
+      continue;
+    }
+
+    const heading = problem ? undefined : parseLatexHeading(line);
+    if (heading) {
+      startChunk(i);
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1]!.level >= heading.level) {
+        headingStack.pop();
+      }
+      if (heading.title !== "") headingStack.push({ level: heading.level, text: heading.title });
+      currentSection = sectionPath();
+      currentLines.push(line);
+      continue;
+    }
+
+    const opened = problem ? undefined : parseLatexProblem(line);
+    if (opened) {
+      startChunk(i);
+      const name = opened.env.replace(/\*$/, "");
+      const n = (problemCounts.get(name) ?? 0) + 1;
+      problemCounts.set(name, n);
+      const label = `${name[0]!.toUpperCase()}${name.slice(1)} ${n}`;
+      problem = { env: opened.env, label: opened.title ? `${label}: ${opened.title}` : label };
+      currentSection = sectionPath();
+    }
+
+    currentLines.push(line);
+    const code = stripLatexComment(line);
+
+    const verbatim = /\\begin\{([A-Za-z]+)\}/.exec(code);
+    if (verbatim && LATEX_VERBATIM_ENVIRONMENTS.has(verbatim[1]!) &&
+        !code.includes(`\\end{${verbatim[1]!}}`)) {
+      verbatimEnv = verbatim[1]!;
+      continue;
+    }
+
+    if (problem && code.includes(`\\end{${problem.env}}`)) {
+      problem = undefined;
+      startChunk(i + 1);
+      currentSection = sectionPath();
+    }
+  }
+
+  flushChunk();
+  return chunks;
+}
+
+// ── PDF extraction ──────────────────────────────────────────────
+//
+// A minimal, dependency-free PDF text extractor. It understands enough of
+// the file format to pull page text out of the PDFs instructors actually
+// publish (LaTeX, Word, browser "Save as PDF"): indirect objects, object
+// streams, FlateDecode, the page tree with inherited resources, and
+// ToUnicode CMaps. Scanned PDFs (images only) yield no text.
+// PDF strings are kept as latin1 "byte strings" so binary data survives.
+
+interface PdfName { readonly type: "name"; readonly value: string }
+interface PdfString { readonly type: "string"; readonly value: string }
+interface PdfRef { readonly type: "ref"; readonly num: number }
+interface PdfDict { readonly type: "dict"; readonly entries: Map<string, PdfValue> }
+interface PdfKeyword { readonly type: "keyword"; readonly value: string }
+
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  readonly value: PdfValue;
+  readonly stream?: string;
+}
+
+interface PdfCursor {
+  readonly src: string;
+  pos: number;
+}
+
+/** Per-font decoding info: code width in bytes and optional ToUnicode map. */
+interface PdfFont {
+  readonly codeWidth: number;
+  readonly toUnicode?: ReadonlyMap<string, string>;
+}
+
+const PDF_WHITESPACE = "\x00\t\n\f\r ";
+const PDF_DELIMITERS = "()<>[]{}/%";
+const PDF_MAX_REF_DEPTH = 32;
+
+/** TJ adjustments below this (thousandths of an em) are rendered as a space. */
+const PDF_TJ_SPACE_THRESHOLD = -200;
+
+/** Vertical gaps larger than this many font sizes start a new paragraph. */
+const PDF_PARAGRAPH_GAP = 1.8;
+
+function isPdfDict(v: PdfValue | PdfKeyword | undefined): v is PdfDict {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.type === "dict";
+}
+
+function isPdfKeyword(v: PdfValue | PdfKeyword | undefined): v is PdfKeyword {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.type === "keyword";
+}
+
+function pdfNameOf(v: PdfValue | undefined): string | undefined {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.type === "name"
+    ? v.value
+    : undefined;
+}
+
+function pdfStringOf(v: PdfValue | undefined): string | undefined {
+  return typeof v === "object" && v !== null && !Array.isArray(v) && v.type === "string"
+    ? v.value
+    : undefined;
+}
+
+function pdfSkipWhitespace(cur: PdfCursor): void {
+  const { src } = cur;
+  while (cur.pos < src.length) {
+    const ch = src[cur.pos]!;
+    if (PDF_WHITESPACE.includes(ch)) {
+      cur.pos++;
+    } else if (ch === "%") {
+      while (cur.pos < src.length && src[cur.pos] !== "\n" && src[cur.pos] !== "\r") cur.pos++;
+    } else {
+      break;
+    }
+  }
+}
+
+function pdfReadToken(cur: PdfCursor): string {
+  const { src } = cur;
+  const start = cur.pos;
+  while (
+    cur.pos < src.length &&
+    !PDF_WHITESPACE.includes(src[cur.pos]!) &&
+    !PDF_DELIMITERS.includes(src[cur.pos]!)
+  ) {
+    cur.pos++;
+  }
+  return src.slice(start, cur.pos);
+}
+
+/**
+ * Decode a hex string body (e.g. "48656C6C6F") into a latin1 byte string.
+ * An odd trailing digit is padded with 0, per the PDF spec.
+ */
+function pdfHexToBytes(hex: string): string {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, "");
+  const padded = clean.length % 2 === 1 ? clean + "0" : clean;
+  let out = "";
+  for (let i = 0; i < padded.length; i += 2) {
+    out += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return out;
+}
+
+function pdfParseLiteralString(cur: PdfCursor): string {
+  const { src } = cur;
+  cur.pos++; // skip "("
+  let depth = 1;
+  let out = "";
+  while (cur.pos < src.length) {
+    const ch = src[cur.pos++]!;
+    if (ch === "\\") {
+      const next = src[cur.pos++];
+      if (next === undefined) break;
+      switch (next) {
+        case "n": out += "\n"; break;
+        case "r": out += "\r"; break;
+        case "t": out += "\t"; break;
+        case "b": out += "\b"; break;
+        case "f": out += "\f"; break;
+        case "\r":
+          if (src[cur.pos] === "\n") cur.pos++;
+          break; // line continuation
+        case "\n":
+          break; // line continuation
+        default:
+          if (next >= "0" && next <= "7") {
+            let octal = next;
+            while (octal.length < 3 && src[cur.pos]! >= "0" && src[cur.pos]! <= "7") {
+              octal += src[cur.pos++];
+            }
+            out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          } else {
+            out += next; // \( \) \\ and unknown escapes
+          }
+      }
+    } else if (ch === "(") {
+      depth++;
+      out += ch;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) break;
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse one PDF value (or bare keyword/operator) at the cursor.
+ * Always advances the cursor unless at end of input, so callers can loop
+ * safely over malformed data. Returns undefined at end of input.
+ */
+function pdfParseValue(cur: PdfCursor): PdfValue | PdfKeyword | undefined {
+  const { src } = cur;
+  pdfSkipWhitespace(cur);
+  if (cur.pos >= src.length) return undefined;
+
+  const ch = src[cur.pos]!;
+
+  if (ch === "<" && src[cur.pos + 1] === "<") {
+    cur.pos += 2;
+    const entries = new Map<string, PdfValue>();
+    while (true) {
+      pdfSkipWhitespace(cur);
+      if (cur.pos >= src.length) break;
+      if (src.startsWith(">>", cur.pos)) {
+        cur.pos += 2;
+        break;
+      }
+      const key = pdfParseValue(cur);
+      if (key === undefined) break;
+      const name = isPdfKeyword(key) ? undefined : pdfNameOf(key);
+      if (name === undefined) continue; // malformed key — skip it
+      const value = pdfParseValue(cur);
+      if (value === undefined) break;
+      if (!isPdfKeyword(value)) entries.set(name, value);
+    }
+    return { type: "dict", entries };
+  }
+
+  if (ch === "<") {
+    const end = src.indexOf(">", cur.pos);
+    const stop = end === -1 ? src.length : end;
+    const value = pdfHexToBytes(src.slice(cur.pos + 1, stop));
+    cur.pos = stop + 1;
+    return { type: "string", value };
+  }
+
+  if (ch === "[") {
+    cur.pos++;
+    const items: PdfValue[] = [];
+    while (true) {
+      pdfSkipWhitespace(cur);
+      if (cur.pos >= src.length) break;
+      if (src[cur.pos] === "]") {
+        cur.pos++;
+        break;
+      }
+      const item = pdfParseValue(cur);
+      if (item === undefined) break;
+      if (!isPdfKeyword(item)) items.push(item);
+    }
+    return items;
+  }
+
+  if (ch === "(") {
+    return { type: "string", value: pdfParseLiteralString(cur) };
+  }
+
+  if (ch === "/") {
+    cur.pos++;
+    const raw = pdfReadToken(cur);
+    const value = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+    return { type: "name", value };
+  }
+
+  const token = pdfReadToken(cur);
+  if (token === "") {
+    // Stray delimiter (")", "]", ">", "{", "}") — consume it as a keyword
+    cur.pos++;
+    return { type: "keyword", value: ch };
+  }
+
+  if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(token)) {
+    const num = Number(token);
+    // Look ahead for an indirect reference: "<num> <gen> R"
+    if (/^\d+$/.test(token)) {
+      const save = cur.pos;
+      pdfSkipWhitespace(cur);
+      const gen = pdfReadToken(cur);
+      if (/^\d+$/.test(gen)) {
+        pdfSkipWhitespace(cur);
+        if (src[cur.pos] === "R") {
+          const after = src[cur.pos + 1];
+          if (
+            after === undefined ||
+            PDF_WHITESPACE.includes(after) ||
+            PDF_DELIMITERS.includes(after)
+          ) {
+            cur.pos++;
+            return { type: "ref", num };
+          }
+        }
+      }
+      cur.pos = save;
+    }
+    return num;
+  }
+
+  if (token === "true") return true;
+  if (token === "false") return false;
+  if (token === "null") return null;
+  return { type: "keyword", value: token };
+}
+
+function pdfResolve(
+  value: PdfValue | undefined,
+  objects: ReadonlyMap<number, PdfObject>,
+): PdfValue | undefined {
+  let current = value;
+  for (let depth = 0; depth < PDF_MAX_REF_DEPTH; depth++) {
+    if (
+      typeof current !== "object" ||
+      current === null ||
+      Array.isArray(current) ||
+      current.type !== "ref"
+    ) {
+      return current;
+    }
+    current = objects.get(current.num)?.value;
+  }
+  return undefined;
+}
+
+function pdfRefNum(value: PdfValue | undefined): number | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.type === "ref"
+    ? value.num
+    : undefined;
+}
+
+/**
+ * Decode a stream's bytes according to its /Filter entry.
+ * Returns null for filters we don't support (image codecs, LZW, etc.).
+ */
+function pdfDecodeStream(
+  obj: PdfObject,
+  objects: ReadonlyMap<number, PdfObject>,
+  budget: DiscoveryBudget,
+): string | null {
+  if (obj.stream === undefined) return null;
+  const dict = isPdfDict(obj.value) ? obj.value : undefined;
+  const filterValue = pdfResolve(dict?.entries.get("Filter"), objects);
+  const filters = Array.isArray(filterValue)
+    ? filterValue.map((f) => pdfNameOf(pdfResolve(f, objects)))
+    : filterValue === undefined ? [] : [pdfNameOf(filterValue)];
+
+  let data = obj.stream;
+  for (const filter of filters) {
+    if (filter !== "FlateDecode" && filter !== "Fl") return null;
+    const input = Buffer.from(data, "latin1");
+    try {
+      data = inflateWithinBudget(input, budget).toString("latin1");
+    } catch (error) {
+      if (isOutputTooLarge(error)) throw error;
+      // Truncated streams are common; salvage what inflates cleanly
+      try {
+        data = inflateWithinBudget(input, budget, { finishFlush: zlibConstants.Z_SYNC_FLUSH }).toString("latin1");
+      } catch (error) {
+        if (isOutputTooLarge(error)) throw error;
+        return null;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Collect every indirect object in the file, including those packed
+ * inside object streams (/Type /ObjStm, PDF 1.5+). Later definitions of
+ * the same object number win, matching incremental-update semantics.
+ */
+function pdfParseObjects(src: string, budget: DiscoveryBudget): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(src)) !== null) {
+    const cur: PdfCursor = { src, pos: match.index + match[0].length };
+    const value = pdfParseValue(cur);
+    if (value === undefined || isPdfKeyword(value)) continue;
+
+    let stream: string | undefined;
+    pdfSkipWhitespace(cur);
+    if (src.startsWith("stream", cur.pos)) {
+      let start = cur.pos + "stream".length;
+      if (src[start] === "\r") start++;
+      if (src[start] === "\n") start++;
+
+      const length = isPdfDict(value) ? value.entries.get("Length") : undefined;
+      let end = -1;
+      if (typeof length === "number") {
+        const check: PdfCursor = { src, pos: start + length };
+        pdfSkipWhitespace(check);
+        if (src.startsWith("endstream", check.pos)) end = start + length;
+      }
+      if (end === -1) {
+        // Indirect or wrong /Length — fall back to scanning for the keyword
+        end = src.indexOf("endstream", start);
+        if (end === -1) end = src.length;
+        if (src[end - 1] === "\n") end--;
+        if (src[end - 1] === "\r") end--;
+      }
+      stream = src.slice(start, end);
+      header.lastIndex = end; // never match "obj" headers inside binary data
+    }
+
+    objects.set(Number(match[1]), { value, stream });
+  }
+
+  for (const obj of [...objects.values()]) {
+    if (!isPdfDict(obj.value) || pdfNameOf(obj.value.entries.get("Type")) !== "ObjStm") continue;
+    const data = pdfDecodeStream(obj, objects, budget);
+    const count = pdfResolve(obj.value.entries.get("N"), objects);
+    const first = pdfResolve(obj.value.entries.get("First"), objects);
+    if (data === null || typeof count !== "number" || typeof first !== "number") continue;
+
+    const cur: PdfCursor = { src: data, pos: 0 };
+    const offsets: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      const num = pdfParseValue(cur);
+      const offset = pdfParseValue(cur);
+      if (typeof num !== "number" || typeof offset !== "number") break;
+      offsets.push([num, offset]);
+    }
+    for (const [num, offset] of offsets) {
+      if (objects.has(num)) continue;
+      const value = pdfParseValue({ src: data, pos: first + offset });
+      if (value !== undefined && !isPdfKeyword(value)) {
+        objects.set(num, { value });
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Walk the page tree from the document catalog, in reading order.
+ * Resources are inherited from ancestor /Pages nodes per the PDF spec.
+ * Falls back to every /Type /Page object if the catalog is unusable.
+ */
+function pdfCollectPages(
+  objects: ReadonlyMap<number, PdfObject>,
+): { page: PdfDict; resources?: PdfDict }[] {
+  const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+  const visited = new Set<number>();
+
+  function walk(node: PdfValue | undefined, inherited: PdfDict | undefined): void {
+    const num = pdfRefNum(node);
+    if (num !== undefined) {
+      if (visited.has(num)) return;
+      visited.add(num);
+    }
+    const dict = pdfResolve(node, objects);
+    if (!isPdfDict(dict)) return;
+
+    const own = pdfResolve(dict.entries.get("Resources"), objects);
+    const resources = isPdfDict(own) ? own : inherited;
+    const kids = pdfResolve(dict.entries.get("Kids"), objects);
+
+    if (Array.isArray(kids)) {
+      for (const kid of kids) walk(kid, resources);
+    } else if (pdfNameOf(dict.entries.get("Type")) === "Page") {
+      pages.push({ page: dict, resources });
+    }
+  }
+
+  for (const obj of objects.values()) {
+    if (isPdfDict(obj.value) && pdfNameOf(obj.value.entries.get("Type")) === "Catalog") {
+      walk(obj.value.entries.get("Pages"), undefined);
+      if (pages.length > 0) return pages;
+    }
+  }
+
+  const fallback = [...objects.entries()]
+    .filter(([, obj]) => isPdfDict(obj.value) && pdfNameOf(obj.value.entries.get("Type")) === "Page")
+    .sort(([a], [b]) => a - b);
+  for (const [, obj] of fallback) {
+    const page = obj.value as PdfDict;
+    const resources = pdfResolve(page.entries.get("Resources"), objects);
+    pages.push({ page, resources: isPdfDict(resources) ? resources : undefined });
+  }
+  return pages;
+}
+
+/** Decode a UTF-16BE byte string (as found in ToUnicode CMaps). */
+function pdfDecodeUtf16(bytes: string): string {
+  let out = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+/**
+ * Parse a ToUnicode CMap into a code → text map.
+ * Handles codespacerange (for code width), bfchar, and both bfrange forms.
+ */
+function pdfParseToUnicode(cmap: string): { codeWidth: number; map: Map<string, string> } {
+  const map = new Map<string, string>();
+  const space = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeWidth = space ? Math.max(1, Math.ceil(space[1]!.length / 2)) : 1;
+
+  const codeString = (code: number): string => {
+    let out = "";
+    for (let i = codeWidth - 1; i >= 0; i--) {
+      out += String.fromCharCode((code >> (i * 8)) & 0xff);
+    }
+    return out;
+  };
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(pdfHexToBytes(pair[1]!), pdfDecodeUtf16(pdfHexToBytes(pair[2]!)));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = block[1]!.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g,
+    );
+    for (const entry of entries) {
+      const lo = parseInt(entry[1]!, 16);
+      const hi = parseInt(entry[2]!, 16);
+      if (hi < lo || hi - lo > 0xffff) continue;
+
+      if (entry[3] !== undefined) {
+        const base = pdfDecodeUtf16(pdfHexToBytes(entry[3]));
+        if (base.length === 0) continue;
+        const prefix = base.slice(0, -1);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = lo; code <= hi; code++) {
+          map.set(codeString(code), prefix + String.fromCharCode(last + code - lo));
+        }
+      } else {
+        const targets = [...entry[4]!.matchAll(/<([0-9a-fA-F]*)>/g)];
+        targets.forEach((t, i) => {
+          if (lo + i <= hi) {
+            map.set(codeString(lo + i), pdfDecodeUtf16(pdfHexToBytes(t[1]!)));
+          }
+        });
+      }
+    }
+  }
+
+  return { codeWidth, map };
+}
+
+function pdfLoadFonts(
+  resources: PdfDict | undefined,
+  objects: ReadonlyMap<number, PdfObject>,
+  cache: Map<number, PdfFont>,
+  budget: DiscoveryBudget,
+): Map<string, PdfFont> {
+  const fonts = new Map<string, PdfFont>();
+  const fontDict = pdfResolve(resources?.entries.get("Font"), objects);
+  if (!isPdfDict(fontDict)) return fonts;
+
+  for (const [name, ref] of fontDict.entries) {
+    const num = pdfRefNum(ref);
+    const cached = num !== undefined ? cache.get(num) : undefined;
+    if (cached) {
+      fonts.set(name, cached);
+      continue;
+    }
+
+    const font = pdfResolve(ref, objects);
+    if (!isPdfDict(font)) continue;
+
+    // Composite (Type0) fonts default to 2-byte codes (Identity-H)
+    let codeWidth = pdfNameOf(font.entries.get("Subtype")) === "Type0" ? 2 : 1;
+    let toUnicode: Map<string, string> | undefined;
+
+    const cmapNum = pdfRefNum(font.entries.get("ToUnicode"));
+    const cmapObj = cmapNum !== undefined ? objects.get(cmapNum) : undefined;
+    const cmapData = cmapObj ? pdfDecodeStream(cmapObj, objects, budget) : null;
+    if (cmapData !== null) {
+      const parsed = pdfParseToUnicode(cmapData);
+      codeWidth = parsed.codeWidth;
+      toUnicode = parsed.map;
+    }
+
+    const entry: PdfFont = { codeWidth, toUnicode };
+    if (num !== undefined) cache.set(num, entry);
+    fonts.set(name, entry);
+  }
+
+  return fonts;
+}
+
+function pdfDecodeText(bytes: string, font: PdfFont | undefined): string {
+  if (!font?.toUnicode) {
+    // Without a ToUnicode map, 2-byte glyph IDs are not recoverable text.
+    // Single-byte fonts are close enough to latin1 for standard encodings.
+    return font?.codeWidth === 2 ? "" : bytes;
+  }
+  let out = "";
+  for (let i = 0; i < bytes.length; i += font.codeWidth) {
+    out += font.toUnicode.get(bytes.slice(i, i + font.codeWidth)) ?? "";
+  }
+  return out;
+}
+
+/**
+ * Run a page content stream and reconstruct its text.
+ * Lines are broken when the text position moves vertically; a gap
+ * larger than PDF_PARAGRAPH_GAP font sizes becomes a blank line so
+ * pages can be split into paragraphs downstream.
+ */
+function pdfExtractText(content: string, fonts: ReadonlyMap<string, PdfFont>): string {
+  const lines: string[] = [];
+  let line = "";
+  let font: PdfFont | undefined;
+  let fontSize = 0;
+  let leading = 0;
+  let scale = 1;
+  let lineY = 0;
+  let lastY: number | undefined;
+  let pendingSpace = false;
+
+  function show(text: string): void {
+    if (text === "") return;
+    if (lastY !== undefined && Math.abs(lineY - lastY) > 0.01) {
+      lines.push(line.trimEnd());
+      line = "";
+      if (fontSize > 0 && Math.abs(lastY - lineY) > PDF_PARAGRAPH_GAP * fontSize * scale) {
+        lines.push("");
+      }
+      pendingSpace = false;
+    }
+    if (pendingSpace && line !== "" && !/\s$/.test(line) && !/^\s/.test(text)) {
+      line += " ";
+    }
+    pendingSpace = false;
+    line += text;
+    lastY = lineY;
+  }
+
+  function nextLine(): void {
+    lineY -= leading * scale;
+  }
+
+  const cur: PdfCursor = { src: content, pos: 0 };
+  const operands: PdfValue[] = [];
+
+  while (true) {
+    const token = pdfParseValue(cur);
+    if (token === undefined) break;
+    if (!isPdfKeyword(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const num = (i: number): number => {
+      const v = operands[i];
+      return typeof v === "number" ? v : 0;
+    };
+
+    switch (token.value) {
+      case "BI": {
+        // Inline image: skip the binary payload between ID and EI
+        const data = content.indexOf("ID", cur.pos);
+        const end = data === -1 ? -1 : content.slice(data + 2).search(/\sEI(?:\s|$)/);
+        cur.pos = end === -1 ? content.length : data + 2 + end + 3;
+        break;
+      }
+      case "BT":
+        lineY = 0;
+        scale = 1;
+        pendingSpace = true;
+        break;
+      case "Tf":
+        font = fonts.get(pdfNameOf(operands[0]) ?? "");
+        fontSize = Math.abs(num(1));
+        break;
+      case "TL":
+        leading = num(0);
+        break;
+      case "Td":
+      case "TD":
+        lineY += num(1) * scale;
+        if (token.value === "TD") leading = -num(1);
+        if (num(1) === 0 && num(0) !== 0) pendingSpace = true;
+        break;
+      case "Tm":
+        scale = Math.abs(num(3)) || 1;
+        lineY = num(5);
+        pendingSpace = true;
+        break;
+      case "T*":
+        nextLine();
+        break;
+      case "Tj":
+        show(pdfDecodeText(pdfStringOf(operands[0]) ?? "", font));
+        break;
+      case "'":
+        nextLine();
+        show(pdfDecodeText(pdfStringOf(operands[0]) ?? "", font));
+        break;
+      case '"':
+        nextLine();
+        show(pdfDecodeText(pdfStringOf(operands[2]) ?? "", font));
+        break;
+      case "TJ": {
+        const items = operands[0];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === "number") {
+              if (item < PDF_TJ_SPACE_THRESHOLD) pendingSpace = true;
+            } else {
+              show(pdfDecodeText(pdfStringOf(item) ?? "", font));
+            }
+          }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  lines.push(line.trimEnd());
+  return lines.join("\n");
+}
+
+/**
+ * Extract the text of every page of a PDF, in page order.
+ * Throws if the data is not a PDF or is encrypted.
+ */
+function extractPdfPages(data: Buffer, fileId: string, budget: DiscoveryBudget): string[] {
+  const src = data.toString("latin1");
+  const headerAt = src.indexOf("%PDF-");
+  if (headerAt === -1 || headerAt > 1024) {
+    throw new Error(`Not a valid PDF file: ${fileId}`);
+  }
+
+  const objects = pdfParseObjects(src, budget);
+  const trailerAt = src.lastIndexOf("trailer");
+  const encrypted =
+    (trailerAt !== -1 && /\/Encrypt\b/.test(src.slice(trailerAt))) ||
+    [...objects.values()].some(
+      (obj) => isPdfDict(obj.value) && obj.value.entries.has("Encrypt"),
+    );
+  if (encrypted) {
+    throw new Error(`Encrypted PDFs are not supported: ${fileId}`);
+  }
+
+  const fontCache = new Map<number, PdfFont>();
+  return pdfCollectPages(objects).map(({ page, resources }) => {
+    const fonts = pdfLoadFonts(resources, objects, fontCache, budget);
+    const contents = pdfResolve(page.entries.get("Contents"), objects);
+    const refs = Array.isArray(contents) ? contents : [page.entries.get("Contents")];
+
+    const streams: string[] = [];
+    for (const ref of refs) {
+      const num = pdfRefNum(ref);
+      const obj = num !== undefined ? objects.get(num) : undefined;
+      const decoded = obj ? pdfDecodeStream(obj, objects, budget) : null;
+      if (decoded !== null) streams.push(decoded);
+    }
+    // Content streams may split mid-token; the spec joins them with whitespace
+    return pdfExtractText(streams.join("\n"), fonts);
+  });
+}
+
+/**
+ * Split a PDF into chunks: one per paragraph, each tagged with its
+ * 1-based page number. PDFs have no stable line numbers, so `page`
+ * is the only locator.
+ */
+function chunkPdf(data: Buffer, fileId: string, budget: DiscoveryBudget): Chunk[] {
+  const chunks: Chunk[] = [];
+  let chunkIndex = 0;
+
+  extractPdfPages(data, fileId, budget).forEach((pageText, i) => {
+    const paragraphs = pageText
+      .split(/\n\s*\n/)
+      .map((p) => p.trim())
+      .filter((p) => p.length > 0);
+    for (const text of paragraphs) {
+      chunks.push({
+        chunk_id: makeChunkId(fileId, chunkIndex),
+        file_id: fileId,
+        text,
+        source_ref: { file_id: fileId, page: i + 1 },
+      });
+      chunkIndex++;
+    }
+  });
+
+  return chunks;
+}
+
+// ── OOXML extraction ────────────────────────────────────────────
+//
+// .pptx and .docx files are ZIP packages of XML parts. The XML we need is regular
+// enough that targeted regexes are more robust here than a general parser:
+// we only read paragraph runs (<a:t>), placeholders, and relationships.
+
+/** Placeholder types on notes slides that are not part of the notes text. */
+const PPTX_NOTES_SKIP_PLACEHOLDERS = new Set(["sldImg", "sldNum", "hdr", "ftr", "dt"]);
+
+/**
+ * Decode the five predefined XML entities plus numeric character references.
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
+
+/**
+ * Read the value of an attribute from an XML start tag, e.g.
+ * xmlAttr('<p:ph type="title"/>', "type") === "title". Unqualified names
+ * match any namespace prefix; qualified names ("r:id") must match exactly.
+ */
+function xmlAttr(tag: string, name: string): string | undefined {
+  const prefix = name.includes(":") ? "" : "(?:[\\w-]+:)?";
+  const match = new RegExp(`\\s${prefix}${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXmlEntities(match[1]!) : undefined;
+}
+
+/**
+ * Extract the text of every DrawingML paragraph (<a:p>) in document order.
+ * Runs are concatenated; <a:br/> becomes a newline and <a:tab/> a tab.
+ * Empty paragraphs are dropped.
+ */
+function drawingMlParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const match of xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)) {
+    let text = "";
+    for (const piece of match[1]!.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>|<a:tab\b[^>]*\/>/g)) {
+      if (piece[1] !== undefined) text += decodeXmlEntities(piece[1]);
+      else if (piece[0].startsWith("<a:br")) text += "\n";
+      else text += "\t";
+    }
+    if (text.trim() !== "") paragraphs.push(text.trim());
+  }
+  return paragraphs;
+}
+
+/**
+ * Split slide XML into shapes (<p:sp>) with their placeholder type, if any.
+ */
+function pptxShapes(xml: string): { xml: string; placeholder?: string }[] {
+  return [...xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)].map((match) => {
+    const ph = /<p:ph\b[^>]*>/.exec(match[0]);
+    return {
+      xml: match[0],
+      // A placeholder with no type attribute is a body placeholder
+      placeholder: ph ? (xmlAttr(ph[0], "type") ?? "body") : undefined,
+    };
+  });
+}
+
+/**
+ * Open an OOXML package, turning ZIP errors into a message that names
+ * the file and the expected format (e.g. "Not a valid Word document: x").
+ * Its parts count toward max_bytes at their recorded sizes, which bound
+ * what reading them inflates.
+ */
+function openPackage(data: Buffer, fileId: string, description: string, budget: DiscoveryBudget): ZipArchive {
+  let zip: ZipArchive;
+  try {
+    zip = openZip(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Not a valid ${description}: ${fileId} (${message})`);
+  }
+  countBytes(budget, zip.entries.reduce((sum, part) => sum + zip.size(part)!, 0), fileId);
+  return zip;
+}
+
+/**
+ * Parse a package relationships part into an Id → target path map.
+ * Targets are resolved relative to the directory of the source part.
+ */
+function readRelationships(
+  zip: ZipArchive,
+  partPath: string,
+): Map<string, { type: string; target: string }> {
+  const dir = posix.dirname(partPath);
+  const relsPath = posix.join(dir, "_rels", `${posix.basename(partPath)}.rels`);
+  const rels = new Map<string, { type: string; target: string }>();
+  const xml = zip.read(relsPath)?.toString("utf-8");
+  if (!xml) return rels;
+
+  for (const match of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttr(match[0], "Id");
+    const target = xmlAttr(match[0], "Target");
+    if (!id || !target) continue;
+    rels.set(id, {
+      type: xmlAttr(match[0], "Type") ?? "",
+      target: posix.normalize(target.startsWith("/") ? target.slice(1) : posix.join(dir, target)),
+    });
+  }
+  return rels;
+}
+
+/**
+ * Return slide part paths in presentation order. Uses the slide id list in
+ * presentation.xml; falls back to numeric filename order if it is missing.
+ */
+function pptxSlidePaths(zip: ZipArchive): string[] {
+  const presentation = zip.read("ppt/presentation.xml")?.toString("utf-8");
+  if (presentation) {
+    const rels = readRelationships(zip, "ppt/presentation.xml");
+    const ordered: string[] = [];
+    for (const match of presentation.matchAll(/<p:sldId\b[^>]*>/g)) {
+      const rel = rels.get(xmlAttr(match[0], "r:id") ?? "");
+      if (rel && zip.read(rel.target) !== undefined) ordered.push(rel.target);
+    }
+    if (ordered.length > 0) return ordered;
+  }
+
+  const slideNumber = (path: string): number => Number(/(\d+)\.xml$/.exec(path)?.[1] ?? 0);
+  return zip.entries
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/**
+ * Split a PowerPoint deck into one chunk per slide. Each chunk carries the
+ * slide number as `page` and the slide title (if any) as `section`; the
+ * slide's speaker notes are appended after the slide text.
+ */
+function chunkPptx(data: Buffer, fileId: string, budget: DiscoveryBudget): Chunk[] {
+  const zip = openPackage(data, fileId, "PowerPoint file", budget);
+
+  const chunks: Chunk[] = [];
+  let chunkIndex = 0;
+
+  pptxSlidePaths(zip).forEach((slidePath, i) => {
+    const slideXml = zip.read(slidePath)?.toString("utf-8") ?? "";
+    const titleShape = pptxShapes(slideXml).find(
+      (shape) => shape.placeholder === "title" || shape.placeholder === "ctrTitle",
+    );
+    const title = titleShape ? drawingMlParagraphs(titleShape.xml).join(" ") : "";
+    const body = drawingMlParagraphs(
+      titleShape ? slideXml.replace(titleShape.xml, "") : slideXml,
+    );
+
+    const notesRel = [...readRelationships(zip, slidePath).values()].find((rel) =>
+      rel.type.endsWith("/notesSlide"),
+    );
+    const notesXml = notesRel ? zip.read(notesRel.target)?.toString("utf-8") ?? "" : "";
+    const notes = pptxShapes(notesXml)
+      .filter((shape) => !PPTX_NOTES_SKIP_PLACEHOLDERS.has(shape.placeholder ?? ""))
+      .flatMap((shape) => drawingMlParagraphs(shape.xml));
+
+    const parts = [title, ...body].filter((p) => p !== "");
+    if (notes.length > 0) parts.push(`Speaker notes:\n${notes.join("\n")}`);
+    if (parts.length === 0) return;
+
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunkIndex),
+      file_id: fileId,
+      text: parts.join("\n"),
+      source_ref: {
+        file_id: fileId,
+        page: i + 1,
+        ...(title ? { section: title } : {}),
+      },
+    });
+    chunkIndex++;
+  });
+
+  return chunks;
+}
+
+/** Style names Word uses for document titles; treated as top-level headings. */
+const DOCX_TITLE_STYLES = new Set(["title"]);
+
+/** Section locator for Word content that precedes the first heading. */
+const PREAMBLE_SECTION = "Preamble";
+
+/**
+ * Map paragraph style ids to heading levels (1-based) using styles.xml.
+ * A style is a heading if its name is "heading N" / "Title", or if it
+ * declares an outline level. Localized documents use translated style ids,
+ * so the name and outline level are more reliable than the id.
+ */
+function docxHeadingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const match of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const tag = `<w:style${match[1]}>`;
+    const id = xmlAttr(tag, "styleId");
+    if (!id || xmlAttr(tag, "type") !== "paragraph") continue;
+
+    const nameTag = /<w:name\b[^>]*>/.exec(match[2]!);
+    const name = (nameTag ? xmlAttr(nameTag[0], "val") : undefined)?.toLowerCase() ?? "";
+    const outlineTag = /<w:outlineLvl\b[^>]*>/.exec(match[2]!);
+    const outline = outlineTag ? Number(xmlAttr(outlineTag[0], "val")) : NaN;
+
+    const heading = /^heading\s*(\d)$/.exec(name);
+    if (heading) levels.set(id, Number(heading[1]));
+    else if (DOCX_TITLE_STYLES.has(name)) levels.set(id, 1);
+    else if (outline >= 0 && outline < 9) levels.set(id, outline + 1);
+  }
+  return levels;
+}
+
+/**
+ * Extract the visible text of a WordprocessingML paragraph (<w:p>).
+ * Paragraph properties are stripped first so tab-stop definitions are not
+ * mistaken for tab characters. Deleted text and field codes are ignored.
+ */
+function docxParagraphText(paragraphXml: string): string {
+  const body = paragraphXml.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/, "");
+  let text = "";
+  for (const piece of body.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\b[^>]*\/>|<w:(?:br|cr)\b[^>]*\/>/g)) {
+    if (piece[1] !== undefined) text += decodeXmlEntities(piece[1]);
+    else if (piece[0].startsWith("<w:tab")) text += "\t";
+    else text += "\n";
+  }
+  return text.trim();
+}
+
+/**
+ * Determine a paragraph's heading level, or undefined for body text.
+ * Direct outline levels take precedence over the paragraph style.
+ */
+function docxHeadingLevel(
+  paragraphXml: string,
+  headingStyles: ReadonlyMap<string, number>,
+): number | undefined {
+  const props = /<w:pPr>([\s\S]*?)<\/w:pPr>/.exec(paragraphXml)?.[1] ?? "";
+
+  const outlineTag = /<w:outlineLvl\b[^>]*>/.exec(props);
+  const outline = outlineTag ? Number(xmlAttr(outlineTag[0], "val")) : NaN;
+  if (outline >= 0 && outline < 9) return outline + 1;
+
+  const styleTag = /<w:pStyle\b[^>]*>/.exec(props);
+  const styleId = styleTag ? xmlAttr(styleTag[0], "val") : undefined;
+  if (!styleId) return undefined;
+
+  const level = headingStyles.get(styleId);
+  if (level !== undefined) return level;
+  // Documents without styles.xml still tend to use the built-in ids
+  const builtIn = /^heading(\d)$/i.exec(styleId);
+  return builtIn ? Number(builtIn[1]) : undefined;
+}
+
+/**
+ * Split a Word document into chunks by headings, mirroring chunkMarkdown:
+ * each heading and its following content become one chunk, and content
+ * before the first heading becomes a preamble chunk. Word has no stable
+ * line numbers, so `section` (the heading text) is the locator; the
+ * preamble uses PREAMBLE_SECTION. Tables are rendered one row per
+ * line with cells separated by " | ".
+ */
+function chunkDocx(data: Buffer, fileId: string, budget: DiscoveryBudget): Chunk[] {
+  const zip = openPackage(data, fileId, "Word document", budget);
+  const documentXml = zip.read("word/document.xml")?.toString("utf-8");
+  if (documentXml === undefined) {
+    throw new Error(`Not a valid Word document: ${fileId} (word/document.xml missing)`);
+  }
+  const headingStyles = docxHeadingStyles(zip.read("word/styles.xml")?.toString("utf-8") ?? "");
+
+  const chunks: Chunk[] = [];
+  let chunkIndex = 0;
+  let section = PREAMBLE_SECTION;
+  let lines: string[] = [];
+
+  function flushChunk(): void {
+    if (lines.length === 0) return;
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunkIndex),
+      file_id: fileId,
+      text: lines.join("\n"),
+      source_ref: { file_id: fileId, section },
+    });
+    chunkIndex++;
+    lines = [];
+  }
+
+  const blocks = documentXml.matchAll(
+    /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b(?:[^>]*[^/])?>[\s\S]*?<\/w:p>/g,
+  );
+  for (const block of blocks) {
+    const xml = block[0];
+
+    if (xml.startsWith("<w:tbl>")) {
+      for (const row of xml.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)) {
+        const cells = [...row[0].matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)].map((cell) =>
+          [...cell[0].matchAll(/<w:p\b(?:[^>]*[^/])?>[\s\S]*?<\/w:p>/g)]
+            .map((p) => docxParagraphText(p[0]))
+            .filter((t) => t !== "")
+            .join(" "),
+        );
+        if (cells.some((c) => c !== "")) lines.push(cells.join(" | "));
+      }
+      continue;
+    }
+
+    const text = docxParagraphText(xml);
+    if (text === "") continue;
+
+    if (docxHeadingLevel(xml, headingStyles) !== undefined) {
+      flushChunk();
+      section = text;
+      lines = [text];
+    } else {
+      lines.push(/<w:numPr>/.test(xml) ? `- ${text}` : text);
+    }
+  }
+  flushChunk();
+
+  return chunks;
+}
+
+// ── HTML chunking ───────────────────────────────────────────────
+//
+// Saved web pages are tokenized with a small tag scanner rather than a DOM:
+// we only need block boundaries, headings with their ids, list and table
+// structure, and enough nesting to drop navigation chrome.
+
+/** Block-level HTML elements that end a line of text. */
+const HTML_BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "blockquote", "pre", "ul", "ol", "li", "dl", "dt", "dd",
+  "table", "thead", "tbody", "tfoot", "tr", "caption", "h1", "h2", "h3", "h4", "h5", "h6", "hr", "br",
+  "figure", "figcaption", "details", "summary",
+]);
+
+/** Elements whose whole subtree is page chrome or non-text content. */
+const HTML_CHROME_TAGS = new Set(["nav", "aside", "noscript", "template", "svg", "form", "button", "iframe"]);
+
+/** Page-level banners; kept when inside <article> or <main>, where they hold the title. */
+const HTML_PAGE_CHROME_TAGS = new Set(["header", "footer"]);
+
+/** ARIA landmark roles that mark navigation chrome. */
+const HTML_CHROME_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search"]);
+
+/** Elements that never have a closing tag. */
+const HTML_VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+/** HTML entities beyond the XML ones that show up in authored pages. */
+const HTML_NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  nbsp: " ", ndash: "–", mdash: "—", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  hellip: "…", times: "×", le: "≤", ge: "≥", ne: "≠", copy: "©", middot: "·", bull: "•",
+};
+
+/** A line of page text; headings carry their level and id, if any. */
+interface HtmlBlock {
+  text: string;
+  headingLevel?: number;
+  anchor?: string;
+}
+
+/** Read an attribute from the attribute part of an HTML start tag. */
+function htmlAttr(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i").exec(attrs);
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeHtmlEntities(value);
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&([a-z]+);/g, (entity, key: string) => HTML_NAMED_ENTITIES[key] ?? entity)
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (entity) => decodeXmlEntities(entity));
+}
+
+/**
+ * Convert an HTML page into text blocks in document order. Navigation,
+ * sidebars and page headers/footers are dropped along with scripts,
+ * styles and comments. Headings carry their level and anchor (their own
+ * id, an id/name inside them, or the id of an enclosing section); list
+ * items become "- " or "1. " lines indented by depth, table rows are
+ * joined with " | ", and <pre> keeps its line breaks.
+ */
+function htmlBlocks(html: string): HtmlBlock[] {
+  const body = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+  const blocks: HtmlBlock[] = [];
+  let text = "";
+  let heading: { level: number; anchor?: string } | undefined;
+  let pendingAnchor: string | undefined;
+  let rowCells: string[] | undefined;
+  let inPre = false;
+  let chrome: { name: string; depth: number } | undefined;
+  let contentDepth = 0; // open <article>/<main> elements
+  const lists: { ordered: boolean; count: number }[] = [];
+
+  function flush(): void {
+    if (inPre) return;
+    let line = text.replace(/[ \t\r\n]+/g, " ").trim();
+    text = "";
+    if (heading) line = line.replace(/\s*[¶§#]$/, ""); // permalink markers
+    if (line === "" || /^(?:-|\d+\.)$/.test(line.trim())) return;
+
+    if (rowCells !== undefined) {
+      rowCells.push(line);
+    } else if (heading) {
+      const anchor = heading.anchor ?? pendingAnchor;
+      blocks.push({ text: line, headingLevel: heading.level, ...(anchor ? { anchor } : {}) });
+      pendingAnchor = undefined;
+    } else {
+      blocks.push({ text: `${"  ".repeat(Math.max(0, lists.length - 1))}${line}` });
+      pendingAnchor = undefined;
+    }
+  }
+
+  const tokens = body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .matchAll(/<(\/?)([a-zA-Z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g);
+  for (const token of tokens) {
+    const name = token[2]?.toLowerCase();
+    const closing = token[1] === "/";
+    const attrs = token[3] ?? "";
+
+    if (chrome) {
+      if (name === chrome.name && !HTML_VOID_TAGS.has(name) && !attrs.endsWith("/")) {
+        chrome.depth += closing ? -1 : 1;
+        if (chrome.depth === 0) chrome = undefined;
+      }
+      continue;
+    }
+
+    if (name === undefined) {
+      text += decodeHtmlEntities(token[0]);
+      continue;
+    }
+
+    if (!closing) {
+      const role = htmlAttr(attrs, "role")?.toLowerCase();
+      const isChrome =
+        HTML_CHROME_TAGS.has(name) ||
+        (HTML_PAGE_CHROME_TAGS.has(name) && contentDepth === 0) ||
+        (role !== undefined && HTML_CHROME_ROLES.has(role));
+      if (isChrome && !HTML_VOID_TAGS.has(name) && !attrs.endsWith("/")) {
+        chrome = { name, depth: 1 };
+        continue;
+      }
+    }
+
+    if (name === "article" || name === "main") {
+      contentDepth = Math.max(0, contentDepth + (closing ? -1 : 1));
+    }
+
+    if (name === "a" && !closing && heading && heading.anchor === undefined) {
+      const id = htmlAttr(attrs, "id") ?? htmlAttr(attrs, "name");
+      if (id) heading.anchor = id;
+      continue;
+    }
+    if (name === "td" || name === "th") {
+      if (rowCells !== undefined) flush();
+      continue;
+    }
+    if (!HTML_BLOCK_TAGS.has(name)) continue;
+
+    flush();
+    if (name === "pre") {
+      if (!closing) {
+        inPre = true;
+      } else if (inPre) {
+        inPre = false;
+        const lines = text.replace(/\r\n?/g, "\n").split("\n");
+        const trimmed = trimBlankLines(lines);
+        if (trimmed) blocks.push({ text: trimmed.trimmedLines.join("\n") });
+        text = "";
+        pendingAnchor = undefined;
+      }
+    } else if (name === "tr") {
+      if (!closing) {
+        rowCells = [];
+      } else if (rowCells !== undefined) {
+        if (rowCells.length > 0) blocks.push({ text: rowCells.join(" | ") });
+        rowCells = undefined;
+        pendingAnchor = undefined;
+      }
+    } else if (name === "ul" || name === "ol") {
+      if (closing) lists.pop();
+      else lists.push({ ordered: name === "ol", count: 0 });
+    } else if (name === "li" && !closing) {
+      const list = lists[lists.length - 1];
+      if (list) list.count++;
+      text = list?.ordered ? `${list.count}. ` : "- ";
+    } else if (/^h[1-6]$/.test(name)) {
+      const id = closing ? undefined : htmlAttr(attrs, "id");
+      heading = closing ? undefined : { level: Number(name[1]), ...(id ? { anchor: id } : {}) };
+    } else if (!closing && (name === "section" || name === "div" || name === "article")) {
+      const id = htmlAttr(attrs, "id");
+      if (id) pendingAnchor = id;
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Split an HTML page into chunks by h1–h6. Each chunk's section is its
+ * heading path ("Lab 3 > Requirements > Part A") and its anchor is the
+ * id of the innermost heading that has one, so a citation can link to
+ * "page.html#part-a". Content before the first heading uses the page
+ * <title>, or PREAMBLE_SECTION. Oversized sections are split into
+ * overlapping pieces that share the locator.
+ */
+function chunkHtml(content: string, fileId: string): Chunk[] {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(content)?.[1];
+  const pageTitle = title ? decodeHtmlEntities(title).replace(/\s+/g, " ").trim() : "";
+
+  const chunks: Chunk[] = [];
+  const headings: HeadingStack = [];
+  let section = pageTitle || PREAMBLE_SECTION;
+  let anchor: string | undefined;
+  let lines: string[] = [];
+
+  function flushChunk(): void {
+    if (lines.length === 0) return;
+    for (const piece of sizeBoundedPieces(lines, 1)) {
+      chunks.push({
+        chunk_id: makeChunkId(fileId, chunks.length),
+        file_id: fileId,
+        text: piece.text,
+        source_ref: { file_id: fileId, section, ...(anchor ? { anchor } : {}) },
+      });
+    }
+    lines = [];
+  }
+
+  for (const block of htmlBlocks(content)) {
+    if (block.headingLevel !== undefined) {
+      flushChunk();
+      pushHeading(headings, {
+        level: block.headingLevel,
+        text: block.text,
+        ...(block.anchor ? { anchor: block.anchor } : {}),
+      });
+      section = headings.map((h) => h.text).join(SECTION_SEPARATOR);
+      anchor = headings.findLast((h) => h.anchor !== undefined)?.anchor;
+    }
+    lines.push(block.text);
+  }
+  flushChunk();
+
+  return chunks;
+}
+
+// ── Forum Q&A exports ───────────────────────────────────────────
+//
+// Course forums (Piazza, Ed, Discourse, ...) are where a spec gets
+// clarified after it is published. An export of their threads becomes one
+// chunk per post, carrying the author's role and the post date so that
+// instructor answers can be told apart from student questions.
+
+/** Role names used in exports, mapped to the roles recorded on posts. */
+const FORUM_ROLES: Readonly<Record<string, ForumRole>> = {
+  instructor: "instructor", professor: "instructor", lecturer: "instructor", staff: "instructor",
+  ta: "ta", "teaching assistant": "ta", tutor: "ta",
+  student: "student",
+};
+
+/** Markdown post heading: "## Prof. Lee (instructor), 2024-02-04" (date optional). */
+const FORUM_POST_HEADING = /^#{2,6}\s+(.+?)\s+\(([^)]+)\)\s*(?:[,\u00B7\u2013\u2014-]\s*(.*?))?\s*$/;
+
+/** A post's metadata from a Markdown post heading, or undefined for other lines. */
+function forumPostHeading(line: string): ForumPost | undefined {
+  const match = FORUM_POST_HEADING.exec(line);
+  const role = match ? FORUM_ROLES[match[2]!.trim().toLowerCase()] : undefined;
+  if (!match || !role) return undefined;
+  return { author: match[1]!, role, ...(match[3] ? { date: match[3] } : {}) };
+}
+
+/**
+ * Whether a Markdown file is a forum export. A heading like "## Prof. Lee
+ * (instructor)" also turns up in an ordinary README, and a forum export
+ * overrides the spec, so one post heading is enough only when the
+ * manifest tags the file "clarification" or its path names a forum.
+ * Otherwise some thread must hold a student post and a staff post.
+ */
+function isForumMarkdown(content: string, file: DiscoveredFile): boolean {
+  const lines = content.split("\n");
+  if (!lines.some((line) => forumPostHeading(line) !== undefined)) return false;
+  if (file.tag === "clarification" || pathSuggestsTag(file.fileId, "clarification")) return true;
+
+  let roles = new Set<ForumRole>();
+  for (const line of lines) {
+    const post = forumPostHeading(line);
+    if (post) {
+      roles.add(post.role);
+      if (roles.has("student") && (roles.has("instructor") || roles.has("ta"))) return true;
+    } else if (/^#{1,6}\s/.test(line)) {
+      roles = new Set(); // a new thread
+    }
+  }
+  return false;
+}
+
+/**
+ * Chunk a Markdown forum export: each thread starts at a heading that is
+ * not a post heading, and each post at a "## Author (role), date"
+ * heading. A post's chunk is its heading and body, located by lines with
+ * the thread title as section. Text under a thread heading before its
+ * first post becomes a chunk without post metadata. A post longer than
+ * MAX_CHUNK_CHARS is split like a markdown section, so tables and code
+ * blocks in it stay readable.
+ */
+function chunkForumMarkdown(content: string, fileId: string): Chunk[] {
+  const lines = content.split("\n");
+  const chunks: Chunk[] = [];
+  let thread: string | undefined;
+  let post: ForumPost | undefined;
+  let start = 0;
+
+  function flush(end: number): void {
+    const trimmed = trimBlankLines(lines.slice(start, end));
+    if (!trimmed) return;
+    const postLines = trimmed.trimmedLines;
+    const firstLine = start + trimmed.startOffset + 1;
+    const pieces = postLines.join("\n").length <= MAX_CHUNK_CHARS
+      ? sizeBoundedPieces(postLines, firstLine)
+      : markdownBlocks(postLines).flatMap((block) => {
+        const blockLines = trimBlankLines(postLines.slice(block.start, block.end + 1));
+        return blockLines
+          ? markdownBlockPieces(blockLines.trimmedLines, firstLine + block.start + blockLines.startOffset, block.kind)
+          : [];
+      });
+    for (const piece of pieces) {
+      chunks.push({
+        chunk_id: makeChunkId(fileId, chunks.length),
+        file_id: fileId,
+        text: piece.text,
+        source_ref: {
+          file_id: fileId,
+          ...(thread !== undefined ? { section: thread } : {}),
+          line_start: piece.lineStart,
+          line_end: piece.lineEnd,
+        },
+        ...(post ? { post } : {}),
+      });
+    }
+  }
+
+  lines.forEach((line, i) => {
+    const heading = forumPostHeading(line);
+    const threadHeading = heading ? undefined : /^#{1,6}\s+(.*?)\s*#*\s*$/.exec(line)?.[1];
+    if (!heading && !threadHeading) return;
+    flush(i);
+    start = i;
+    if (heading) {
+      post = heading;
+    } else {
+      thread = threadHeading;
+      post = undefined;
+      start = i + 1; // the thread title is the section, not post text
+    }
+  });
+  flush(lines.length);
+  return chunks;
+}
+
+/** First string-valued field among `names`. */
+function stringField(record: Record<string, unknown>, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = record[name];
+    if (typeof value === "string" && value.trim() !== "") return value.trim();
+  }
+  return undefined;
+}
+
+/** A forum thread read from a JSON export. */
+interface ForumThread {
+  title: string;
+  posts: { post: ForumPost; body: string }[];
+}
+
+/**
+ * Read a JSON forum export: an array of threads, or `{ "threads": [...] }`.
+ * A thread has a `title` (or `subject`) and `posts` (or `replies`); a post
+ * has a `body` (or `content`, `text`) and optionally `author`, `role` and
+ * `date` (or `created_at`). Replies nested in a post's own `replies`
+ * follow it. Posts with a missing or unknown role count as student posts.
+ * Returns undefined if the JSON does not have this shape.
+ */
+function parseForumJson(content: string): ForumThread[] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+  const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+  const rawThreads = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.threads : undefined;
+  if (!Array.isArray(rawThreads) || rawThreads.length === 0) return undefined;
+
+  function collectPosts(raw: unknown, into: ForumThread["posts"]): boolean {
+    if (!Array.isArray(raw)) return false;
+    for (const entry of raw) {
+      if (!isRecord(entry)) return false;
+      const body = stringField(entry, "body", "content", "text");
+      if (body === undefined) return false;
+      const author = stringField(entry, "author", "name");
+      const date = stringField(entry, "date", "created_at", "created");
+      const role = FORUM_ROLES[stringField(entry, "role")?.toLowerCase() ?? ""] ?? "student";
+      into.push({ post: { ...(author ? { author } : {}), role, ...(date ? { date } : {}) }, body });
+      if (entry.replies !== undefined && !collectPosts(entry.replies, into)) return false;
+    }
+    return true;
+  }
+
+  const threads: ForumThread[] = [];
+  for (const raw of rawThreads) {
+    if (!isRecord(raw)) return undefined;
+    const title = stringField(raw, "title", "subject");
+    const posts: ForumThread["posts"] = [];
+    if (title === undefined || !collectPosts(raw.posts ?? raw.replies, posts) || posts.length === 0) {
+      return undefined;
+    }
+    threads.push({ title, posts });
+  }
+  return threads;
+}
+
+/** An HTML tag, as in the post bodies of forums that store rich text. */
+const HTML_TAG = /<\/?[a-z][a-z0-9]*\b[^>]*>/i;
+
+/**
+ * Chunk a JSON forum export: one chunk per post (long posts are split),
+ * located by the thread title as section. HTML post bodies are reduced
+ * to their text.
+ */
+function chunkForumJson(threads: readonly ForumThread[], fileId: string): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (const thread of threads) {
+    for (const { post, body } of thread.posts) {
+      const text = normalizeText(HTML_TAG.test(body) ? htmlBlocks(body).map((b) => b.text).join("\n") : body);
+      const lines = trimBlankLines(text.split("\n"));
+      if (!lines) continue;
+      for (const piece of sizeBoundedPieces(lines.trimmedLines, 1)) {
+        chunks.push({
+          chunk_id: makeChunkId(fileId, chunks.length),
+          file_id: fileId,
+          text: piece.text,
+          source_ref: { file_id: fileId, section: thread.title },
+          post,
+        });
+      }
+    }
+  }
+  return chunks;
+}
+
+// ── Common Cartridge (IMSCC) course exports ─────────────────────
+//
+// An LMS course export is a ZIP with imsmanifest.xml at its root. Canvas
+// writes each assignment to its own directory as a description page plus
+// assignment_settings.xml, and every rubric in the course to
+// course_settings/rubrics.xml. Course files live under web_resources/ and
+// are ingested like any other archive member.
+
+const CARTRIDGE_MANIFEST = "imsmanifest.xml";
+const CARTRIDGE_SETTINGS_DIR = "course_settings/";
+const CARTRIDGE_RUBRICS = "course_settings/rubrics.xml";
+const CARTRIDGE_ASSIGNMENT_SETTINGS = "assignment_settings.xml";
+
+/** Classification evidence for cartridge parts, which are always spec. */
+const CARTRIDGE_PART_EVIDENCE: Readonly<Record<"assignment" | "rubrics", string>> = {
+  assignment: "assignment description in course export",
+  rubrics: "rubric in course export",
+};
+
+/**
+ * How a Common Cartridge member is ingested: a Canvas assignment
+ * description, the course rubrics, export metadata (dropped without a
+ * skip report), or an attachment treated as a normal file.
+ */
+function cartridgeRole(
+  entries: ReadonlySet<string>,
+  member: string,
+): "assignment" | "rubrics" | "metadata" | "attachment" {
+  if (member === CARTRIDGE_RUBRICS) return "rubrics";
+  if (member === CARTRIDGE_MANIFEST || member.startsWith(CARTRIDGE_SETTINGS_DIR)) return "metadata";
+  const ext = extname(member).toLowerCase();
+  if (ext === ".xml" || ext === ".qti") return "metadata";
+  const dir = posix.dirname(member);
+  if ((ext === ".html" || ext === ".htm") && entries.has(posix.join(dir, CARTRIDGE_ASSIGNMENT_SETTINGS))) {
+    return "assignment";
+  }
+  return "attachment";
+}
+
+/** Text of the first <name> element in an XML fragment, entity-decoded and trimmed. */
+function xmlElementText(xml: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xml);
+  return match ? decodeXmlEntities(match[1]!).trim() : undefined;
+}
+
+/**
+ * Chunk a Canvas assignment: a summary chunk from assignment_settings.xml
+ * (title, points, due date, submission types), then the description page
+ * split on its headings. Locators are sections under the assignment title.
+ */
+function chunkCanvasAssignment(reader: Archive, member: string, fileId: string): Chunk[] {
+  const settings = reader.read(posix.join(posix.dirname(member), CARTRIDGE_ASSIGNMENT_SETTINGS))
+    ?.toString("utf-8") ?? "";
+  const html = reader.read(member)!.toString("utf-8");
+  const title = xmlElementText(settings, "title")
+    || /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1]?.trim()
+    || posix.basename(member, extname(member));
+
+  const chunks: Chunk[] = [];
+  let section = title;
+  let lines: string[] = [];
+
+  function flushChunk(): void {
+    if (lines.length === 0) return;
+    chunks.push({
+      chunk_id: makeChunkId(fileId, chunks.length),
+      file_id: fileId,
+      text: lines.join("\n"),
+      source_ref: { file_id: fileId, section },
+    });
+    lines = [];
+  }
+
+  const summary = [
+    ["Points possible", xmlElementText(settings, "points_possible")],
+    ["Due", xmlElementText(settings, "due_at")],
+    ["Submission types", xmlElementText(settings, "submission_types")?.replace(/,/g, ", ")],
+  ].filter((field): field is [string, string] => field[1] !== undefined && field[1] !== "");
+  lines = [title, ...summary.map(([label, value]) => `${label}: ${value}`)];
+
+  const headings: HeadingStack = [];
+  for (const block of htmlBlocks(html)) {
+    if (block.headingLevel !== undefined) {
+      flushChunk();
+      pushHeading(headings, { level: block.headingLevel, text: block.text });
+      section = [title, ...headings.map((h) => h.text)].join(SECTION_SEPARATOR);
+    }
+    lines.push(block.text);
+  }
+  flushChunk();
+
+  return chunks;
+}
+
+/**
+ * Chunk a Canvas rubrics file: one chunk per criterion with its point
+ * value, long description and rating levels, sectioned as
+ * "<rubric title> > <criterion>".
+ */
+function chunkCanvasRubrics(xml: string, fileId: string): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (const rubric of xml.matchAll(/<rubric\b[^>]*>([\s\S]*?)<\/rubric>/g)) {
+    const criteriaXml = /<criteria>([\s\S]*?)<\/criteria>/.exec(rubric[1]!)?.[1] ?? "";
+    const rubricTitle = xmlElementText(rubric[1]!.replace(criteriaXml, ""), "title") || "Rubric";
+
+    for (const criterion of criteriaXml.matchAll(/<criterion>([\s\S]*?)<\/criterion>/g)) {
+      const ratingsXml = /<ratings>([\s\S]*?)<\/ratings>/.exec(criterion[1]!)?.[1] ?? "";
+      const own = criterion[1]!.replace(ratingsXml, "");
+      const description = xmlElementText(own, "description") || "Criterion";
+      const points = xmlElementText(own, "points");
+      const longDescription = xmlElementText(own, "long_description");
+
+      const lines = [points ? `${description} (${points} pts)` : description];
+      if (longDescription) lines.push(longDescription);
+      for (const rating of ratingsXml.matchAll(/<rating>([\s\S]*?)<\/rating>/g)) {
+        const ratingText = xmlElementText(rating[1]!, "description");
+        const ratingPoints = xmlElementText(rating[1]!, "points");
+        if (!ratingText && !ratingPoints) continue;
+        lines.push(`- ${ratingText || "Rating"}${ratingPoints ? ` (${ratingPoints} pts)` : ""}`);
+      }
+
+      chunks.push({
+        chunk_id: makeChunkId(fileId, chunks.length),
+        file_id: fileId,
+        text: lines.join("\n"),
+        source_ref: { file_id: fileId, section: `${rubricTitle}${SECTION_SEPARATOR}${description}` },
+      });
+    }
+  }
+  return chunks;
+}
+
+/** Read a file's bytes from disk, or from its archive for archive members. */
+function readFileData(file: DiscoveredFile): Buffer {
+  return file.archive
+    ? file.archive.reader.read(file.archive.member)!
+    : readFileSync(file.filePath);
+}
+
+/**
+ * Split a file's content into chunks with source refs. Text formats are
+ * decoded with encoding detection and normalized before chunking, so
+ * line locators still match the normalized text; text extracted from
+ * binary formats is normalized per chunk.
+ */
+function chunkFile(file: DiscoveredFile, data: Buffer, budget: DiscoveryBudget): Chunk[] {
+  const { filePath, fileId } = file;
+  const ext = extname(filePath).toLowerCase();
+
+  if (file.archive?.cartridgePart === "assignment") {
+    return chunkCanvasAssignment(file.archive.reader, file.archive.member, fileId)
+      .map((chunk) => ({ ...chunk, text: normalizeText(chunk.text) }));
+  }
+
+  if (BINARY_FORMAT_EXTENSIONS.has(ext)) {
+    let chunks: Chunk[];
+    try {
+      chunks = ext === ".pdf"
+        ? chunkPdf(data, fileId, budget)
+        : ext === ".pptx"
+          ? chunkPptx(data, fileId, budget)
+          : chunkDocx(data, fileId, budget);
+    } catch (error) {
+      if (isOutputTooLarge(error)) throw bytesLimitError(budget, fileId);
+      throw error;
+    }
+    return chunks.map((chunk) => ({ ...chunk, text: normalizeText(chunk.text) }));
+  }
+
+  const content = normalizeText(decodeText(data).text);
+  if (content.trim().length === 0) return [];
+
+  if (file.archive?.cartridgePart === "rubrics") {
+    return chunkCanvasRubrics(content, fileId);
+  }
+
+  if (ext === ".md") {
+    return isForumMarkdown(content, file) ? chunkForumMarkdown(content, fileId) : chunkMarkdown(content, fileId);
+  }
+  if (ext === ".json") {
+    return chunkForumJson(parseForumJson(content) ?? [], fileId);
+  }
+  if (ext === ".ipynb") {
+    return chunkNotebook(content, fileId);
+  }
+  if (ext === ".tex") {
+    return chunkLatex(content, fileId);
+  }
+  if (ext === ".html" || ext === ".htm") {
+    return chunkHtml(content, fileId);
+  }
+  if (CODE_EXTENSIONS.has(ext)) {
+    return chunkCode(content, fileId, ext);
+  }
+  return chunkPlainText(content, fileId);
+}
+
+// ── Incremental rebuilds ────────────────────────────────────────
+
+/** Written to the output directory; read back to reuse unchanged files' chunks. */
+const INGEST_OUTPUT_FILENAME = "chunks.json";
+
+/**
+ * Bump when any chunker's output changes, so chunks cached by an older
+ * build are re-chunked rather than reused.
+ */
+const CHUNKER_VERSION = 4;
+
+/** A file's chunks from the previous ingest, before deduplication. */
+interface CachedFile {
+  fingerprint: IngestedFile;
+  chunks: Chunk[];
+}
+
+/**
+ * Load the previous ingest output in `outputDir`, keyed by file_id.
+ * Returns an empty map if there is none, it fails validation or it was
+ * written by another chunker version.
+ */
+function loadIngestCache(outputDir: string): Map<string, CachedFile> {
+  const cache = new Map<string, CachedFile>();
+  const path = join(outputDir, INGEST_OUTPUT_FILENAME);
+  if (!existsSync(path)) return cache;
+
+  let previous: IngestOutput;
+  try {
+    const parsed = IngestOutputSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+    if (!parsed.success) return cache;
+    previous = parsed.data;
+  } catch {
+    return cache;
+  }
+  if (previous.chunker_version !== CHUNKER_VERSION || !previous.files) return cache;
+
+  // Undo deduplication: survivors lose their `duplicates`, merged chunks come back
+  const byId = new Map<string, Chunk>();
+  for (const chunk of [...previous.chunks, ...(previous.merged_chunks ?? [])]) {
+    const plain = { ...chunk };
+    delete plain.duplicates;
+    byId.set(chunk.chunk_id, plain);
+  }
+  for (const [fileId, fingerprint] of Object.entries(previous.files)) {
+    // Chunk ids derive from (file_id, index), which restores chunking order;
+    // missing indices are chunks that boilerplate stripping emptied
+    const chunks: Chunk[] = [];
+    for (let i = 0; i < fingerprint.chunk_count; i++) {
+      const chunk = byId.get(makeChunkId(fileId, i));
+      if (chunk) chunks.push(chunk);
+    }
+    cache.set(fileId, { fingerprint, chunks });
+  }
+  return cache;
+}
+
+/**
+ * SHA-256 of the bytes a file's chunks depend on: its content, plus the
+ * settings file a Canvas assignment's summary chunk is built from.
+ */
+function contentHash(file: DiscoveredFile, data: Buffer): string {
+  const hash = createHash("sha256").update(data);
+  if (file.archive?.cartridgePart === "assignment") {
+    const { reader, member } = file.archive;
+    const settings = reader.read(posix.join(posix.dirname(member), CARTRIDGE_ASSIGNMENT_SETTINGS));
+    if (settings) hash.update(settings);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Ingest stage: reads input files, splits into chunks, returns validated output.
+ * Files whose content is unchanged since the previous ingest into the same
+ * output directory reuse its chunks instead of being re-chunked.
+ * Throws on unrecoverable errors (missing paths, no files, no chunks).
+ */
+async function run(_input: unknown, ctx: RunContext): Promise<IngestOutput> {
+  const { files: discovered, skipped, budget } = discoverFiles(ctx.config.input_paths, ctx.config.ingest_limits);
+
+  if (discovered.length === 0) {
+    throw new Error(
+      `No supported files found (extensions: ${[...SUPPORTED_EXTENSIONS, ...ARCHIVE_SUFFIXES].join(", ")}). ` +
+      `Searched: ${ctx.config.input_paths.join(", ")}` +
+      (skipped.length > 0 ? ` (${skipped.length} path(s) skipped as ignored or unsupported)` : ""),
+    );
+  }
+
+  const cache = loadIngestCache(ctx.config.output_dir);
+  const allChunks: Chunk[] = [];
+  const fileTags: Record<string, FileTag> = {};
+  const classifications: Record<string, FileClassification> = {};
+  const authoritativeFiles: string[] = [];
+  const files: Record<string, IngestedFile> = {};
+  const added: string[] = [];
+  const modified: string[] = [];
+  let unchanged = 0;
+
+  for (const file of discovered) {
+    const { filePath, fileId, tag, authoritative } = file;
+    const stat = statSync(file.archive?.archivePath ?? filePath);
+    // A retagged file is re-chunked: a clarification tag turns Markdown into forum posts
+    const cached = cache.get(fileId);
+    const reusable = cached !== undefined && cached.fingerprint.declared_tag === tag;
+
+    let chunks: Chunk[];
+    let fingerprint: IngestedFile;
+    if (reusable && !file.archive && cached.fingerprint.mtime_ms === stat.mtimeMs && cached.fingerprint.size === stat.size) {
+      // Same mtime and size on disk: trust the cache without reading the file
+      chunks = cached.chunks;
+      fingerprint = cached.fingerprint;
+      unchanged++;
+    } else {
+      let data: Buffer;
+      try {
+        data = readFileData(file);
+      } catch (error) {
+        // An archive member the reader cannot decode (an unsupported
+        // compression method, encryption) is skipped like a malformed file
+        const detail = error instanceof Error ? error.message : String(error);
+        skipped.push({ path: fileId, reason: "unreadable", detail });
+        continue;
+      }
+      const sha256 = contentHash(file, data);
+      if (reusable && cached.fingerprint.sha256 === sha256) {
+        chunks = cached.chunks;
+        fingerprint = { ...cached.fingerprint, mtime_ms: stat.mtimeMs };
+        unchanged++;
+      } else {
+        const binary = BINARY_FORMAT_EXTENSIONS.has(extname(filePath).toLowerCase()) ? undefined : sniffBinary(data);
+        if (binary) {
+          skipped.push({ path: fileId, reason: "binary", detail: binary });
+          continue;
+        }
+        let raw: Chunk[];
+        try {
+          raw = chunkFile(file, data, budget);
+        } catch (error) {
+          if (error instanceof Error && error.name === LIMIT_ERROR_NAME) throw error;
+          // One malformed file (a corrupt PDF, an Office lock file) should not fail the whole ingest
+          const detail = error instanceof Error ? error.message : String(error);
+          skipped.push({ path: fileId, reason: "unreadable", detail });
+          continue;
+        }
+        // Repeated page headers/footers would otherwise crowd out distinct content
+        chunks = stripBoilerplate(raw);
+        fingerprint = {
+          sha256,
+          mtime_ms: stat.mtimeMs,
+          size: data.length,
+          chunk_count: raw.length,
+          ...(tag ? { declared_tag: tag } : {}),
+        };
+        (cached ? modified : added).push(fileId);
+      }
+    }
+    allChunks.push(...chunks);
+    files[fileId] = fingerprint;
+
+    const cartridgePart = file.archive?.cartridgePart;
+    const classification = tag
+      ? { tag, confidence: 1, evidence: ["declared in manifest"] }
+      : cartridgePart
+        ? { tag: "spec" as const, confidence: 1, evidence: [CARTRIDGE_PART_EVIDENCE[cartridgePart]] }
+        : inferFileTag(filePath, chunks);
+    fileTags[fileId] = classification.tag;
+    classifications[fileId] = { confidence: classification.confidence, evidence: classification.evidence };
+    if (authoritative) authoritativeFiles.push(fileId);
+  }
+
+  if (allChunks.length === 0) {
+    throw new Error(
+      `All ${discovered.length} supported file(s) produced zero chunks (files may be empty, whitespace-only, binary or unreadable)`,
+    );
+  }
+  skipped.sort((a, b) => a.path.localeCompare(b.path));
+
+  // Copies of the same text would otherwise take several retrieval slots.
+  // Deduplication is global, so it reruns over reused chunks too. The copy
+  // kept is the one retrieval by tag looks for first.
+  const authoritativeSet = new Set(authoritativeFiles);
+  const chunks = mergeDuplicates(allChunks, (fileId) =>
+    (authoritativeSet.has(fileId) ? 0 : DUPLICATE_SURVIVOR_TAGS.length) +
+    DUPLICATE_SURVIVOR_TAGS.indexOf(fileTags[fileId]!));
+  const survivors = new Set(chunks.map((chunk) => chunk.chunk_id));
+  const mergedChunks = allChunks.filter((chunk) => !survivors.has(chunk.chunk_id));
+
+  return {
+    chunks,
+    file_tags: fileTags,
+    file_classifications: classifications,
+    skipped,
+    ...(authoritativeFiles.length > 0 ? { authoritative_files: authoritativeFiles } : {}),
+    chunker_version: CHUNKER_VERSION,
+    files,
+    ...(mergedChunks.length > 0 ? { merged_chunks: mergedChunks } : {}),
+    changes: {
+      added,
+      modified,
+      removed: [...cache.keys()].filter((fileId) => !(fileId in files)).sort(),
+      unchanged,
+    },
+  };
 }
 
 export const ingestStage: PipelineStage = {
   name: "ingest",
   run,
   outputSchema: IngestOutputSchema,
-  outputFilename: "chunks.json",
+  outputFilename: INGEST_OUTPUT_FILENAME,
 };
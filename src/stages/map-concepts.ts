@@ -1,5 +1,7 @@
 import type { RunContext } from "../schemas/stage.js";
 import type { Chunk } from "../schemas/chunk.js";
+import type { Diversity } from "../schemas/run-config.js";
+import type { FileTag } from "../schemas/file-tag.js";
 import {
   RequirementsOutputSchema,
   type RequirementsOutput,
@@ -8,9 +10,37 @@ import { ConceptsOutputSchema } from "../schemas/concept.js";
 import { callLLM } from "../llm.js";
 import { parseJSON } from "./extract-requirements.js";
 import { buildDynamicQuery } from "../query-builder.js";
+import { formatTagWeights, resolveTagWeights } from "../storage.js";
+import { formatBudgetUse, packToBudget } from "../tokens.js";
 import type { PipelineStage } from "../orchestrator.js";
 
-const RETRIEVAL_LIMIT = 30;
+/** Estimated tokens of material in the prompt. */
+const CONTEXT_TOKEN_BUDGET = 12_000;
+
+/**
+ * Concepts come from across the materials, so no single file may fill the
+ * context and slides get a chance next to a long spec.
+ */
+const DIVERSITY: Diversity = { lambda: 0.7, max_per_file: 8, max_per_section: 3 };
+
+/**
+ * Lecture slides present concepts the way the course teaches them, so they
+ * outrank the spec here. The manifest's `weights` apply on top.
+ */
+const TAG_WEIGHTS: Readonly<Record<FileTag, number>> = {
+  spec: 1.0,
+  clarification: 0.8,
+  slides: 1.5,
+  notes: 1.0,
+  code: 0.3,
+  other: 0.5,
+};
+
+/** Slides chunks fetched for the fallback before the budget is applied. */
+const TAG_CANDIDATE_LIMIT = 200;
+
+/** Chunks on either side of each match included with it, e.g. a heading's list. */
+const NEIGHBOR_CHUNKS = 1;
 
 const SYSTEM_PROMPT = `You are a precise concept mapping system. Your job is to identify the key concepts a student needs to understand in order to complete an assignment, and link each concept to specific requirements.
 
@@ -23,7 +53,7 @@ For each concept you identify, produce a JSON object with:
 - "name": A concise name for the concept (e.g., "Binary Search Tree Insertion", "Memory Management in C")
 - "description": A one-sentence description of what the student needs to understand about this concept
 - "requirement_ids": An array of requirement IDs (e.g., ["REQ-001", "REQ-003"]) that this concept relates to. Every concept MUST link to at least one requirement. Use ONLY IDs from the REQUIREMENTS list provided — do NOT invent requirement IDs.
-- "source_refs": An array of source references indicating where this concept appears in the materials. Each source_ref must have "file_id" and at least one locator. IMPORTANT: Copy locator values (file_id, section, line_start, line_end, page) verbatim from the chunk metadata — do NOT invent or guess locators.
+- "source_refs": An array of source references indicating where this concept appears in the materials. Each source_ref must have "file_id" and at least one locator. IMPORTANT: Copy locator values (file_id, section, line_start, line_end, page, cell) verbatim from the chunk metadata — do NOT invent or guess locators.
 
 Rules:
 - Identify concepts that are NECESSARY to complete the assignment — not every topic mentioned
@@ -59,11 +89,16 @@ export function formatChunks(chunks: Chunk[]): string {
       const ref = chunk.source_ref;
       const locators: string[] = [`file: ${ref.file_id}`];
       if (ref.section) locators.push(`section: ${ref.section}`);
+      if (ref.anchor) locators.push(`anchor: #${ref.anchor}`);
       if (ref.line_start != null)
         locators.push(
           `lines: ${ref.line_start}-${ref.line_end ?? ref.line_start}`,
         );
       if (ref.page != null) locators.push(`page: ${ref.page}`);
+      if (ref.cell != null) locators.push(`cell: ${ref.cell}`);
+      if (chunk.duplicates?.length) {
+        locators.push(`also in: ${[...new Set(chunk.duplicates.map((d) => d.file_id))].join(", ")}`);
+      }
 
       return `--- Chunk ${i + 1} (${locators.join(", ")}) ---\n${chunk.text}`;
     })
@@ -161,10 +196,15 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
 
   let chunks: Chunk[];
   if (dynamicQuery) {
+    const weights = resolveTagWeights(ctx.config.tag_weights, TAG_WEIGHTS);
+    ctx.log?.(`Retrieval weights: ${formatTagWeights(weights)}`);
     chunks = storage.retrieve({
       query: dynamicQuery,
-      limit: RETRIEVAL_LIMIT,
-      bias: "slides",
+      maxTokens: CONTEXT_TOKEN_BUDGET,
+      weights,
+      mode: "hybrid",
+      diversity: { ...DIVERSITY, ...ctx.config.diversity?.map_concepts },
+      neighbors: NEIGHBOR_CHUNKS,
     });
   } else {
     chunks = [];
@@ -173,7 +213,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
   // Fallback: if no chunks matched (requirements too terse or unusual vocab),
   // retrieve all slides-tagged chunks directly.
   if (chunks.length === 0) {
-    chunks = storage.retrieveByTag("slides", RETRIEVAL_LIMIT);
+    chunks = packToBudget(storage.retrieveByTag("slides", TAG_CANDIDATE_LIMIT), CONTEXT_TOKEN_BUDGET).chunks;
   }
 
   if (chunks.length === 0) {
@@ -183,6 +223,7 @@ async function run(input: unknown, ctx: RunContext): Promise<unknown> {
     );
   }
 
+  ctx.log?.(`Context: ${formatBudgetUse(chunks, CONTEXT_TOKEN_BUDGET)}`);
   const userMessage = buildConceptsUserMessage(requirements, chunks);
   const response = await callLLM({
     system: SYSTEM_PROMPT,
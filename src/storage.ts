@@ -1,7 +1,20 @@
 import { Database } from "bun:sqlite";
 import { join } from "node:path";
-import type { Chunk } from "./schemas/chunk.js";
+import type { Chunk, ChunkKind } from "./schemas/chunk.js";
+import type { SourceRef } from "./schemas/source-ref.js";
 import type { FileTag } from "./schemas/file-tag.js";
+import type { IngestedFile } from "./schemas/ingest-output.js";
+import type { Diversity, TagWeights } from "./schemas/run-config.js";
+import { packToBudget } from "./tokens.js";
+import {
+  VECTORS_FILENAME,
+  buildVectorIndex,
+  corpusFingerprint,
+  loadVectorIndex,
+  saveVectorIndex,
+  searchVectorIndex,
+  type VectorIndex,
+} from "./vectors.js";
 
 export const DB_FILENAME = "chunks.db";
 
@@ -10,52 +23,133 @@ export interface RetrievalOptions {
   readonly query: string;
   /** Maximum number of chunks to return */
   readonly limit?: number;
-  /** Boost chunks from files with this tag */
-  readonly bias?: FileTag;
+  /**
+   * Greedily pack the highest-ranked chunks into this many estimated
+   * tokens (see estimateTokens). `limit` then bounds how many ranked
+   * candidates are considered, BUDGET_CANDIDATE_LIMIT if unset.
+   */
+  readonly maxTokens?: number;
+  /**
+   * Relevance multiplier per effective tag (chunk override, else file
+   * tag); tags not listed weigh 1.0. See resolveTagWeights.
+   */
+  readonly weights?: TagWeights;
+  /**
+   * "keyword" (default) ranks by FTS5 BM25 alone. "hybrid" also ranks by
+   * similarity in the vector index, which catches paraphrases, and fuses
+   * the two rankings with reciprocal rank fusion.
+   */
+  readonly mode?: "keyword" | "hybrid";
+  /**
+   * Also return this many chunks before and after each match from the
+   * same file, in ingest order. A match and its neighbors, and any
+   * matches whose ranges touch, become one block: the best match's
+   * chunk_id with the members' text joined and a source_ref spanning
+   * their combined line range.
+   */
+  readonly neighbors?: number;
+  /**
+   * Re-rank by maximal marginal relevance, trading relevance for chunks
+   * unlike those already picked, with optional per-file and per-section
+   * caps (see diversify). Applies to matches, before neighbors.
+   */
+  readonly diversity?: Diversity;
+}
+
+/**
+ * Default ranking weights: forum answers from staff refine the spec and
+ * outrank it, slides and notes support it, and starter code mostly
+ * matches on identifiers rather than meaning.
+ */
+export const DEFAULT_TAG_WEIGHTS: Readonly<Record<FileTag, number>> = {
+  spec: 1.0,
+  clarification: 1.5,
+  slides: 0.6,
+  notes: 0.6,
+  code: 0.3,
+  other: 0.5,
+};
+
+/**
+ * A stage's default weights (DEFAULT_TAG_WEIGHTS unless the stage favors
+ * other material) with a run config's overrides applied.
+ */
+export function resolveTagWeights(
+  overrides: TagWeights = {},
+  defaults: Readonly<Record<FileTag, number>> = DEFAULT_TAG_WEIGHTS,
+): Record<FileTag, number> {
+  return { ...defaults, ...overrides };
+}
+
+/** "spec 1, clarification 1.5, slides 0.6, ..." for the run log. */
+export function formatTagWeights(weights: TagWeights): string {
+  return Object.entries(weights).map(([tag, weight]) => `${tag} ${weight}`).join(", ");
 }
 
 export interface StorageReader {
-  /** Retrieve chunks matching a keyword query, ranked by relevance. */
+  /** Retrieve chunks matching a query, ranked by relevance. */
   retrieve(options: RetrievalOptions): Chunk[];
-  /** Retrieve chunks from files with the given tag, ordered by insertion. */
-  retrieveByTag(tag: FileTag, limit?: number): Chunk[];
+  /**
+   * Retrieve chunks with the given tag (chunk override or file tag),
+   * authoritative files first, then in ingest order. With `kind`, only
+   * chunks of that kind (e.g. the tables in spec files).
+   */
+  retrieveByTag(tag: FileTag, limit?: number, kind?: ChunkKind): Chunk[];
+  /** file_ids marked authoritative at ingest (e.g. by the manifest). */
+  authoritativeFiles(): Set<string>;
   /** Close the database connection. */
   close(): void;
 }
 
 /**
- * Create a new storage database and index chunks.
- * Writes chunks.db to the given directory.
- * Returns a StorageReader for querying.
+ * Bumped when the table layout changes; a database with another version
+ * is rebuilt from scratch instead of synced.
  */
-export function createStorage(
-  outputDir: string,
-  chunks: Chunk[],
-  fileTags: ReadonlyMap<string, FileTag>,
-): StorageReader {
-  const dbPath = join(outputDir, DB_FILENAME);
-  const db = new Database(dbPath);
+const SCHEMA_VERSION = 4;
 
-  db.run("PRAGMA journal_mode = WAL");
+function createTables(db: Database): void {
+  db.run("DROP TABLE IF EXISTS chunks_fts");
+  db.run("DROP TABLE IF EXISTS chunks");
+  db.run("DROP TABLE IF EXISTS files");
 
-  // Files table: maps file_id to its tag
+  // Files table: maps file_id to its tag, whether it is authoritative and
+  // the content fingerprint it was indexed from (NULL if not given)
   db.run(`
     CREATE TABLE files (
-      file_id TEXT PRIMARY KEY,
-      tag     TEXT NOT NULL
+      file_id       TEXT PRIMARY KEY,
+      tag           TEXT NOT NULL,
+      authoritative INTEGER NOT NULL DEFAULT 0,
+      sha256        TEXT,
+      mtime_ms      REAL,
+      size          INTEGER
     )
   `);
 
-  // Chunks table: stores chunk data with FK to files
+  // Chunks table: stores chunk data with FK to files.
+  // tag is a per-chunk override; NULL means the file's tag applies.
+  // kind and language are NULL for chunkers that do not set them.
+  // post holds the JSON author, role and date of a forum post.
+  // duplicates holds the JSON source refs of merged copies, if any.
+  // position is the chunk's index in ingest order (files in discovery
+  // order, each file's chunks in document order); rowids depend on which
+  // files were re-inserted by earlier syncs, so results are ordered by
+  // position instead.
   db.run(`
     CREATE TABLE chunks (
       chunk_id   TEXT PRIMARY KEY,
       file_id    TEXT NOT NULL,
+      position   INTEGER NOT NULL,
       text       TEXT NOT NULL,
       source_ref TEXT NOT NULL,
+      tag        TEXT,
+      kind       TEXT,
+      language   TEXT,
+      post       TEXT,
+      duplicates TEXT,
       FOREIGN KEY (file_id) REFERENCES files(file_id)
     )
   `);
+  db.run("CREATE INDEX chunks_file_position ON chunks (file_id, position)");
 
   // FTS5 virtual table for full-text search on chunk text
   db.run(`
@@ -66,42 +160,126 @@ export function createStorage(
     )
   `);
 
-  // Insert files
-  const insertFile = db.prepare(
-    "INSERT OR IGNORE INTO files (file_id, tag) VALUES (?, ?)",
-  );
-  const insertFileTxn = db.transaction(
-    (tags: ReadonlyMap<string, FileTag>) => {
-      for (const [fileId, tag] of tags) {
-        insertFile.run(fileId, tag);
-      }
-    },
-  );
-  insertFileTxn(fileTags);
+  db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+}
 
-  // Insert chunks and populate FTS
+/** A chunk's values for insertChunk, in column order, without the trailing position. */
+function chunkRow(chunk: Chunk): (string | null)[] {
+  return [
+    chunk.chunk_id,
+    chunk.file_id,
+    chunk.text,
+    JSON.stringify(chunk.source_ref),
+    chunk.tag ?? null,
+    chunk.kind ?? null,
+    chunk.language ?? null,
+    chunk.post ? JSON.stringify(chunk.post) : null,
+    chunk.duplicates ? JSON.stringify(chunk.duplicates) : null,
+  ];
+}
+
+/**
+ * Create or update the storage database in the given directory and index
+ * chunks, which must be in ingest order. An existing chunks.db is synced
+ * rather than rebuilt: file rows are upserted, only files whose chunks
+ * differ from the indexed ones have their chunks deleted and re-inserted,
+ * and the rest have their positions updated, so the result matches a fresh
+ * build. The vector index (vectors.bin) is
+ * rebuilt whenever the chunks differ from the ones it was built from.
+ * Returns a StorageReader for querying.
+ */
+export function createStorage(
+  outputDir: string,
+  chunks: Chunk[],
+  fileTags: ReadonlyMap<string, FileTag>,
+  authoritativeFiles: ReadonlySet<string> = new Set(),
+  fingerprints: ReadonlyMap<string, IngestedFile> = new Map(),
+): StorageReader {
+  const dbPath = join(outputDir, DB_FILENAME);
+  const db = new Database(dbPath);
+
+  db.run("PRAGMA journal_mode = WAL");
+
+  const { user_version } = db.query("PRAGMA user_version").get() as { user_version: number };
+  if (user_version !== SCHEMA_VERSION) createTables(db);
+
+  const upsertFile = db.prepare(
+    `INSERT INTO files (file_id, tag, authoritative, sha256, mtime_ms, size) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(file_id) DO UPDATE SET
+       tag = excluded.tag, authoritative = excluded.authoritative,
+       sha256 = excluded.sha256, mtime_ms = excluded.mtime_ms, size = excluded.size`,
+  );
+  const deleteFile = db.prepare("DELETE FROM files WHERE file_id = ?");
   const insertChunk = db.prepare(
-    "INSERT INTO chunks (chunk_id, file_id, text, source_ref) VALUES (?, ?, ?, ?)",
+    "INSERT INTO chunks (chunk_id, file_id, text, source_ref, tag, kind, language, post, duplicates, position) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
   );
-  const insertChunkTxn = db.transaction((chunkList: Chunk[]) => {
-    for (const chunk of chunkList) {
-      insertChunk.run(
-        chunk.chunk_id,
-        chunk.file_id,
-        chunk.text,
-        JSON.stringify(chunk.source_ref),
+  const moveChunk = db.prepare("UPDATE chunks SET position = ? WHERE rowid = ?");
+  const deleteChunk = db.prepare("DELETE FROM chunks WHERE rowid = ?");
+  // External-content FTS tables are kept in sync by hand
+  const indexChunk = db.prepare("INSERT INTO chunks_fts(rowid, text) VALUES (?, ?)");
+  const unindexChunk = db.prepare("INSERT INTO chunks_fts(chunks_fts, rowid, text) VALUES ('delete', ?, ?)");
+
+  const sync = db.transaction(() => {
+    for (const [fileId, tag] of fileTags) {
+      const fingerprint = fingerprints.get(fileId);
+      upsertFile.run(
+        fileId,
+        tag,
+        authoritativeFiles.has(fileId) ? 1 : 0,
+        fingerprint?.sha256 ?? null,
+        fingerprint?.mtime_ms ?? null,
+        fingerprint?.size ?? null,
       );
     }
+
+    const wanted = new Map<string, { chunk: Chunk; position: number }[]>();
+    chunks.forEach((chunk, position) => {
+      const list = wanted.get(chunk.file_id) ?? [];
+      list.push({ chunk, position });
+      wanted.set(chunk.file_id, list);
+    });
+    const indexedRows = db.query("SELECT rowid, * FROM chunks ORDER BY position").all() as (ChunkRow & { rowid: number })[];
+    const indexed = new Map<string, typeof indexedRows>();
+    for (const row of indexedRows) {
+      const list = indexed.get(row.file_id) ?? [];
+      list.push(row);
+      indexed.set(row.file_id, list);
+    }
+
+    for (const fileId of new Set([...indexed.keys(), ...wanted.keys()])) {
+      const rows = indexed.get(fileId) ?? [];
+      const next = wanted.get(fileId) ?? [];
+      const same = rows.length === next.length && next.every(({ chunk }, i) =>
+        JSON.stringify(chunkRow(chunk)) === JSON.stringify(chunkRow(rowToChunk(rows[i]!))));
+      if (same) {
+        next.forEach(({ position }, i) => {
+          if (rows[i]!.position !== position) moveChunk.run(position, rows[i]!.rowid);
+        });
+        continue;
+      }
+
+      for (const row of rows) {
+        unindexChunk.run(row.rowid, row.text);
+        deleteChunk.run(row.rowid);
+      }
+      for (const { chunk, position } of next) {
+        const { lastInsertRowid } = insertChunk.run(...chunkRow(chunk), position);
+        indexChunk.run(lastInsertRowid, chunk.text);
+      }
+    }
+
+    for (const { file_id } of db.query("SELECT file_id FROM files").all() as { file_id: string }[]) {
+      if (!fileTags.has(file_id)) deleteFile.run(file_id);
+    }
   });
-  insertChunkTxn(chunks);
+  sync();
 
-  // Populate FTS index from chunks table
-  db.run(`
-    INSERT INTO chunks_fts(rowid, text)
-    SELECT rowid, text FROM chunks
-  `);
+  const vectorsPath = join(outputDir, VECTORS_FILENAME);
+  if (loadVectorIndex(vectorsPath)?.fingerprint !== corpusFingerprint(chunks)) {
+    saveVectorIndex(vectorsPath, buildVectorIndex(chunks));
+  }
 
-  return makeReader(db);
+  return makeReader(db, vectorsPath);
 }
 
 /**
@@ -110,74 +288,331 @@ export function createStorage(
 export function openStorage(outputDir: string): StorageReader {
   const dbPath = join(outputDir, DB_FILENAME);
   const db = new Database(dbPath, { readonly: true });
-  return makeReader(db);
+  return makeReader(db, join(outputDir, VECTORS_FILENAME));
 }
 
 const DEFAULT_LIMIT = 20;
-const BIAS_BOOST = 10.0;
 
-function makeReader(db: Database): StorageReader {
+/** Candidates considered for a token budget when no limit is given. */
+const BUDGET_CANDIDATE_LIMIT = 200;
+
+/** Candidates taken from each ranking in hybrid mode, per result wanted. */
+const HYBRID_CANDIDATE_FACTOR = 3;
+
+/** Reciprocal rank fusion constant: a chunk at rank r scores 1 / (RRF_K + r). */
+const RRF_K = 60;
+
+/** Candidates ranked per result wanted when re-ranking for diversity. */
+const DIVERSITY_CANDIDATE_FACTOR = 3;
+
+/** Most candidates re-ranked for diversity; MMR compares every pair. */
+const MAX_DIVERSITY_CANDIDATES = 200;
+
+/** MMR trade-off when a stage does not set one: mostly relevance. */
+const DEFAULT_MMR_LAMBDA = 0.7;
+
+/** FTS5 query operators, which are not words to look up in the vector index. */
+const FTS_OPERATORS = /\b(?:OR|AND|NOT|NEAR)\b/g;
+
+/** A chunks-table row; JSON columns are still strings. */
+interface ChunkRow {
+  chunk_id: string;
+  file_id: string;
+  position: number;
+  text: string;
+  source_ref: string;
+  tag: FileTag | null;
+  kind: ChunkKind | null;
+  language: string | null;
+  post: string | null;
+  duplicates: string | null;
+}
+
+/** A chunk row returned by a query, with its file's tag applied. */
+interface MatchRow extends ChunkRow {
+  effective_tag: FileTag;
+}
+
+/** A match with its relevance for this retrieval; higher is better. */
+interface ScoredRow extends MatchRow {
+  score: number;
+}
+
+/** Convert a chunks-table row back into a Chunk. */
+function rowToChunk(row: ChunkRow): Chunk {
+  return {
+    chunk_id: row.chunk_id,
+    file_id: row.file_id,
+    text: row.text,
+    source_ref: JSON.parse(row.source_ref),
+    ...(row.tag ? { tag: row.tag } : {}),
+    ...(row.kind ? { kind: row.kind } : {}),
+    ...(row.language ? { language: row.language } : {}),
+    ...(row.post ? { post: JSON.parse(row.post) } : {}),
+    ...(row.duplicates ? { duplicates: JSON.parse(row.duplicates) } : {}),
+  };
+}
+
+/** Lowercased words of a text, for measuring overlap between chunks. */
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+}
+
+function jaccard(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Maximal marginal relevance re-ranking. Repeatedly picks the candidate
+ * with the best λ·relevance − (1 − λ)·redundancy, where relevance is its
+ * score scaled to [0, 1] and redundancy its highest word overlap with a
+ * chunk already picked, skipping candidates whose file or section has
+ * reached its cap. Rows need a `score` (higher is better). Returns at
+ * most `limit` rows in pick order.
+ */
+function diversify(rows: readonly ScoredRow[], diversity: Diversity, limit: number): ScoredRow[] {
+  const lambda = diversity.lambda ?? DEFAULT_MMR_LAMBDA;
+  const top = Math.max(0, ...rows.map((row) => row.score));
+  const candidates = rows.map((row) => ({
+    row,
+    relevance: top > 0 ? row.score / top : 0,
+    words: wordSet(row.text),
+    section: JSON.parse(row.source_ref).section as string | undefined,
+    redundancy: 0,
+    taken: false,
+  }));
+  const perFile = new Map<string, number>();
+  const perSection = new Map<string, number>();
+  const sectionKey = (c: typeof candidates[number]) => `${c.row.file_id}\0${c.section}`;
+
+  const picked: ScoredRow[] = [];
+  while (picked.length < limit) {
+    let best: typeof candidates[number] | undefined;
+    let bestValue = -Infinity;
+    for (const c of candidates) {
+      if (c.taken) continue;
+      if (diversity.max_per_file !== undefined && (perFile.get(c.row.file_id) ?? 0) >= diversity.max_per_file) continue;
+      if (
+        diversity.max_per_section !== undefined && c.section !== undefined &&
+        (perSection.get(sectionKey(c)) ?? 0) >= diversity.max_per_section
+      ) continue;
+      const value = lambda * c.relevance - (1 - lambda) * c.redundancy;
+      if (value > bestValue) {
+        best = c;
+        bestValue = value;
+      }
+    }
+    if (!best) break;
+
+    best.taken = true;
+    picked.push(best.row);
+    perFile.set(best.row.file_id, (perFile.get(best.row.file_id) ?? 0) + 1);
+    if (best.section !== undefined) perSection.set(sectionKey(best), (perSection.get(sectionKey(best)) ?? 0) + 1);
+    for (const c of candidates) {
+      if (!c.taken) c.redundancy = Math.max(c.redundancy, jaccard(c.words, best.words));
+    }
+  }
+  return picked;
+}
+
+/**
+ * Length of the longest end of `before` that `after` starts with, up to
+ * `max` characters; size-bounded pieces of one section repeat the
+ * previous piece's last lines.
+ */
+function overlapLength(before: string, after: string, max: number): number {
+  for (let length = Math.min(before.length, after.length, max); length > 0; length--) {
+    if (before.endsWith(after.slice(0, length))) return length;
+  }
+  return 0;
+}
+
+/** Longest overlap searched for when joining consecutive chunks. */
+const MAX_OVERLAP_CHARS = 1000;
+
+/**
+ * Join consecutive chunks of one file into a single block that stands in
+ * for `best`. Text shared by overlapping pieces appears once. The source
+ * ref starts from the first member's and, when every member has line
+ * locators, spans all their lines. Kind and language are kept only if
+ * every member agrees. The block keeps `best`'s post, or else the first
+ * member's, so a forum answer still shows its author and role;
+ * duplicates describe one chunk and are dropped.
+ */
+function mergeBlock(best: Chunk, members: readonly Chunk[]): Chunk {
+  if (members.length <= 1) return best;
+
+  let text = members[0]!.text;
+  for (let i = 1; i < members.length; i++) {
+    const previous = members[i - 1]!.source_ref;
+    const next = members[i]!;
+    const overlaps = previous.line_end !== undefined && next.source_ref.line_start !== undefined &&
+      next.source_ref.line_start <= previous.line_end;
+    const skip = overlaps ? overlapLength(text, next.text, MAX_OVERLAP_CHARS) : 0;
+    text += skip > 0 ? next.text.slice(skip) : `\n\n${next.text}`;
+  }
+
+  const source_ref: SourceRef = { ...members[0]!.source_ref };
+  if (members.every((m) => m.source_ref.line_start !== undefined)) {
+    source_ref.line_start = Math.min(...members.map((m) => m.source_ref.line_start!));
+    source_ref.line_end = Math.max(...members.map((m) => m.source_ref.line_end ?? m.source_ref.line_start!));
+  }
+
+  const kind = members[0]!.kind;
+  const language = members[0]!.language;
+  const post = best.post ?? members.find((m) => m.post)?.post;
+  return {
+    chunk_id: best.chunk_id,
+    file_id: best.file_id,
+    text,
+    source_ref,
+    ...(best.tag ? { tag: best.tag } : {}),
+    ...(kind && members.every((m) => m.kind === kind) ? { kind } : {}),
+    ...(language && members.every((m) => m.language === language) ? { language } : {}),
+    ...(post ? { post } : {}),
+  };
+}
+
+function makeReader(db: Database, vectorsPath: string): StorageReader {
+  // Loaded on the first hybrid query; null if there is no usable index
+  let vectorIndex: VectorIndex | null | undefined;
+
+  /** FTS5 matches with their effective tag and position, best first by weighted BM25. */
+  const keywordMatches = (query: string, weights: TagWeights, limit: number): (MatchRow & { weighted_rank: number })[] =>
+    // FTS5 ranks by bm25, which is negative with lower meaning more
+    // relevant, so multiplying by a weight scales relevance regardless
+    // of the rank's magnitude for this query and corpus.
+    db
+      .query(
+        `SELECT c.position, c.chunk_id, c.file_id, c.text, c.source_ref, c.tag, c.kind, c.language,
+                c.post, c.duplicates, COALESCE(c.tag, f.tag) AS effective_tag,
+                chunks_fts.rank * COALESCE(w.value, 1.0) AS weighted_rank
+         FROM chunks_fts
+         JOIN chunks c ON chunks_fts.rowid = c.rowid
+         JOIN files f ON c.file_id = f.file_id
+         LEFT JOIN json_each(?) w ON w.key = COALESCE(c.tag, f.tag)
+         WHERE chunks_fts MATCH ?
+         ORDER BY weighted_rank, c.position
+         LIMIT ?`,
+      )
+      .all(JSON.stringify(weights), query, limit) as (MatchRow & { weighted_rank: number })[];
+
+  /** Rows for the given chunk ids, in no particular order. */
+  const rowsById = (chunkIds: readonly string[]): MatchRow[] =>
+    db
+      .query(
+        `SELECT c.position, c.chunk_id, c.file_id, c.text, c.source_ref, c.tag, c.kind, c.language,
+                c.post, c.duplicates, COALESCE(c.tag, f.tag) AS effective_tag
+         FROM chunks c
+         JOIN files f ON c.file_id = f.file_id
+         WHERE c.chunk_id IN (SELECT value FROM json_each(?))`,
+      )
+      .all(JSON.stringify(chunkIds)) as MatchRow[];
+
+  /**
+   * Up to `limit` chunk rows for a retrieval, best first, each with a
+   * `score` (higher is more relevant).
+   */
+  const rank = (options: RetrievalOptions, limit: number): ScoredRow[] => {
+    if (!options.query.trim()) return [];
+
+    if (options.mode !== "hybrid") {
+      return keywordMatches(options.query, options.weights ?? {}, limit)
+        .map((row) => ({ ...row, score: -row.weighted_rank }));
+    }
+
+    // Both rankings are unweighted; tag weights scale the fused score
+    const candidates = limit * HYBRID_CANDIDATE_FACTOR;
+    const keyword = keywordMatches(options.query, {}, candidates).map((row) => row.chunk_id);
+    if (vectorIndex === undefined) vectorIndex = loadVectorIndex(vectorsPath) ?? null;
+    const semantic = vectorIndex
+      ? searchVectorIndex(vectorIndex, options.query.replace(FTS_OPERATORS, " "), candidates)
+      : [];
+
+    const fused = new Map<string, number>();
+    for (const ranking of [keyword, semantic]) {
+      ranking.forEach((chunkId, i) => fused.set(chunkId, (fused.get(chunkId) ?? 0) + 1 / (RRF_K + i + 1)));
+    }
+    const weights: TagWeights = options.weights ?? {};
+    return rowsById([...fused.keys()])
+      .map((row) => ({ row, score: fused.get(row.chunk_id)! * (weights[row.effective_tag] ?? 1) }))
+      .sort((a, b) => b.score - a.score || a.row.position - b.row.position)
+      .slice(0, limit)
+      .map(({ row, score }) => ({ ...row, score }));
+  };
+
+  /**
+   * Widen each matched row to `count` rows either side within its file,
+   * merge ranges that overlap or touch, and read each range back as one
+   * block. Blocks keep the rank of their best match.
+   */
+  const expandNeighbors = (rows: readonly ScoredRow[], count: number): Chunk[] => {
+    const blocks: { fileId: string; first: number; last: number; best: ScoredRow }[] = [];
+    for (const row of rows) {
+      let first = row.position - count;
+      let last = row.position + count;
+      const touching = blocks.filter((b) =>
+        b.fileId === row.file_id && b.first <= last + 1 && first <= b.last + 1);
+      if (touching.length === 0) {
+        blocks.push({ fileId: row.file_id, first, last, best: row });
+        continue;
+      }
+      // Blocks are in rank order, so the first one touched holds the better match
+      const [target, ...absorbed] = touching;
+      for (const block of touching) {
+        first = Math.min(first, block.first);
+        last = Math.max(last, block.last);
+      }
+      target!.first = first;
+      target!.last = last;
+      for (const block of absorbed) blocks.splice(blocks.indexOf(block), 1);
+    }
+
+    const members = db.prepare(
+      "SELECT * FROM chunks WHERE file_id = ? AND position BETWEEN ? AND ? ORDER BY position",
+    );
+    return blocks.map((block) =>
+      mergeBlock(rowToChunk(block.best), (members.all(block.fileId, block.first, block.last) as ChunkRow[]).map(rowToChunk)));
+  };
+
   return {
     retrieve(options: RetrievalOptions): Chunk[] {
-      const limit = options.limit ?? DEFAULT_LIMIT;
-
-      if (!options.query.trim()) return [];
-
-      // FTS5 query with optional file-tag boosting.
-      // When bias is set, chunks from files with the matching tag
-      // get a rank boost (lower rank = more relevant in FTS5).
-      const sql = options.bias
-        ? `
-          SELECT c.chunk_id, c.file_id, c.text, c.source_ref,
-                 (chunks_fts.rank - CASE WHEN f.tag = ? THEN ? ELSE 0 END) AS adjusted_rank
-          FROM chunks_fts
-          JOIN chunks c ON chunks_fts.rowid = c.rowid
-          JOIN files f ON c.file_id = f.file_id
-          WHERE chunks_fts MATCH ?
-          ORDER BY adjusted_rank
-          LIMIT ?
-        `
-        : `
-          SELECT c.chunk_id, c.file_id, c.text, c.source_ref,
-                 chunks_fts.rank AS adjusted_rank
-          FROM chunks_fts
-          JOIN chunks c ON chunks_fts.rowid = c.rowid
-          WHERE chunks_fts MATCH ?
-          ORDER BY adjusted_rank
-          LIMIT ?
-        `;
-
-      const rows = options.bias
-        ? db.query(sql).all(options.bias, BIAS_BOOST, options.query, limit)
-        : db.query(sql).all(options.query, limit);
-
-      return (rows as any[]).map((row) => ({
-        chunk_id: row.chunk_id as string,
-        file_id: row.file_id as string,
-        text: row.text as string,
-        source_ref: JSON.parse(row.source_ref as string),
-      }));
+      const limit = options.limit ?? (options.maxTokens === undefined ? DEFAULT_LIMIT : BUDGET_CANDIDATE_LIMIT);
+      const rows = options.diversity
+        ? diversify(
+          rank(options, Math.max(limit, Math.min(limit * DIVERSITY_CANDIDATE_FACTOR, MAX_DIVERSITY_CANDIDATES))),
+          options.diversity,
+          limit,
+        )
+        : rank(options, limit);
+      const ranked = options.neighbors ? expandNeighbors(rows, options.neighbors) : rows.map(rowToChunk);
+      return options.maxTokens === undefined ? ranked : packToBudget(ranked, options.maxTokens).chunks;
     },
 
-    retrieveByTag(tag: FileTag, limit?: number): Chunk[] {
+    retrieveByTag(tag: FileTag, limit?: number, kind?: ChunkKind): Chunk[] {
       const effectiveLimit = limit ?? DEFAULT_LIMIT;
       const rows = db
         .query(
-          `SELECT c.chunk_id, c.file_id, c.text, c.source_ref
+          `SELECT c.chunk_id, c.file_id, c.position, c.text, c.source_ref, c.tag, c.kind, c.language, c.post, c.duplicates
            FROM chunks c
            JOIN files f ON c.file_id = f.file_id
-           WHERE f.tag = ?
-           ORDER BY c.rowid
+           WHERE COALESCE(c.tag, f.tag) = ? AND (? IS NULL OR c.kind = ?)
+           ORDER BY f.authoritative DESC, c.position
            LIMIT ?`,
         )
-        .all(tag, effectiveLimit);
-
-      return (rows as any[]).map((row) => ({
-        chunk_id: row.chunk_id as string,
-        file_id: row.file_id as string,
-        text: row.text as string,
-        source_ref: JSON.parse(row.source_ref as string),
-      }));
+        .all(tag, kind ?? null, kind ?? null, effectiveLimit) as ChunkRow[];
+
+      return rows.map(rowToChunk);
+    },
+
+    authoritativeFiles(): Set<string> {
+      const rows = db
+        .query("SELECT file_id FROM files WHERE authoritative = 1")
+        .all() as { file_id: string }[];
+      return new Set(rows.map((r) => r.file_id));
     },
 
     close(): void {
@@ -0,0 +1,145 @@
+import { gunzipSync } from "node:zlib";
+
+/**
+ * Minimal read-only tar archive reader (.tar, .tar.gz / .tgz).
+ *
+ * Understands ustar headers (with the name prefix field), GNU long names
+ * ("L" entries) and pax "path" records. Only regular files are listed;
+ * directories, links and device entries are skipped.
+ */
+export interface TarArchive {
+  /** File entry names in archive order. */
+  readonly entries: readonly string[];
+  /** Size of an entry in bytes. */
+  size(name: string): number | undefined;
+  /** Read an entry. Returns undefined if it does not exist. */
+  read(name: string): Buffer | undefined;
+}
+
+const BLOCK_SIZE = 512;
+const GZIP_MAGIC = 0x1f8b;
+
+/** Read a NUL-terminated string field from a header. */
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+/**
+ * Read a numeric header field: octal text, or big-endian base-256 when
+ * the high bit of the first byte is set (GNU extension for large sizes).
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset]! & 0x80) {
+    let value = header[offset]! & 0x7f;
+    for (let i = 1; i < length; i++) value = value * 256 + header[offset + i]!;
+    return value;
+  }
+  const text = readString(header, offset, length).trim();
+  return text === "" ? 0 : parseInt(text, 8);
+}
+
+/** Header checksum: byte sum with the checksum field counted as spaces. */
+function checksumMatches(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum === readNumber(header, 148, 8);
+}
+
+/** Extract the "path" value from pax extended header records. */
+function paxPath(records: Buffer): string | undefined {
+  // Each record is "<length> <key>=<value>\n", with length counting bytes
+  let pos = 0;
+  let path: string | undefined;
+  while (pos < records.length) {
+    const space = records.indexOf(0x20, pos);
+    if (space === -1) break;
+    const length = parseInt(records.subarray(pos, space).toString("ascii"), 10);
+    if (!(length > 0)) break;
+    const record = records.subarray(space + 1, pos + length - 1).toString("utf-8");
+    const eq = record.indexOf("=");
+    if (record.slice(0, eq) === "path") path = record.slice(eq + 1);
+    pos += length;
+  }
+  return path;
+}
+
+/**
+ * Parse a tar archive, gunzipping it first if it is gzip-compressed.
+ * Throws if the data is not a readable tar archive, or a RangeError with
+ * code ERR_BUFFER_TOO_LARGE if it gunzips to more than `maxBytes`.
+ */
+export function openTar(data: Buffer, maxBytes = Infinity): TarArchive {
+  const compressed = data.length >= 2 && data.readUInt16BE(0) === GZIP_MAGIC;
+  const raw = compressed
+    ? gunzipSync(data, Number.isFinite(maxBytes) ? { maxOutputLength: Math.max(1, maxBytes) } : {})
+    : data;
+
+  if (raw.length < BLOCK_SIZE) {
+    throw new Error("Not a tar archive (shorter than one header block)");
+  }
+
+  const files = new Map<string, Buffer>();
+  let pos = 0;
+  let longName: string | undefined;
+
+  while (pos + BLOCK_SIZE <= raw.length) {
+    const header = raw.subarray(pos, pos + BLOCK_SIZE);
+    if (header.every((b) => b === 0)) break; // end-of-archive marker
+
+    if (!checksumMatches(header)) {
+      throw new Error(pos === 0
+        ? "Not a tar archive (bad header checksum)"
+        : `Corrupt tar archive (bad header checksum at offset ${pos})`);
+    }
+
+    const size = readNumber(header, 124, 12);
+    const type = String.fromCharCode(header[156]!);
+    const body = raw.subarray(pos + BLOCK_SIZE, pos + BLOCK_SIZE + size);
+    if (body.length < size) {
+      throw new Error("Corrupt tar archive (truncated entry)");
+    }
+    pos += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === "L") {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === "x") {
+      longName = paxPath(body) ?? longName;
+      continue;
+    }
+    if (type === "g") continue; // global pax header
+
+    let name = longName;
+    longName = undefined;
+    if (name === undefined) {
+      // ustar splits long paths into a prefix and a name field
+      name = readString(header, 0, 100);
+      const prefix = readString(header, 257, 6).startsWith("ustar") ? readString(header, 345, 155) : "";
+      if (prefix !== "") name = `${prefix}/${name}`;
+    }
+    name = name.replace(/^\.\//, "");
+
+    // "0" and NUL are regular files; everything else is skipped
+    if ((type === "0" || type === "\0") && name !== "" && !name.endsWith("/")) {
+      files.set(name, body);
+    }
+  }
+
+  return {
+    entries: [...files.keys()],
+
+    size(name: string): number | undefined {
+      return files.get(name)?.length;
+    },
+
+    read(name: string): Buffer | undefined {
+      const body = files.get(name);
+      return body ? Buffer.from(body) : undefined;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Text decoding and cleanup for ingested files.
+ *
+ * Course materials arrive from many editors and operating systems, so the
+ * bytes are not always UTF-8: a BOM or a UTF-16 byte pattern picks the
+ * decoder, invalid UTF-8 falls back to Windows-1252 (a superset of the
+ * printable Latin-1 range), and files that look binary are rejected
+ * before they can become garbage chunks.
+ */
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface DecodedText {
+  readonly text: string;
+  readonly encoding: TextEncoding;
+}
+
+/** Bytes inspected when sniffing for UTF-16 and binary content. */
+const SNIFF_BYTES = 8192;
+
+/** Share of control characters above which a file is treated as binary. */
+const CONTROL_CHAR_THRESHOLD = 0.1;
+
+/** Magic numbers of binary formats that are sometimes misnamed as text. */
+const BINARY_SIGNATURES: readonly { bytes: readonly number[]; name: string }[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], name: "PNG image" },
+  { bytes: [0xff, 0xd8, 0xff], name: "JPEG image" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], name: "GIF image" },
+  { bytes: [0x25, 0x50, 0x44, 0x46], name: "PDF document" },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], name: "ZIP archive" },
+  { bytes: [0x1f, 0x8b], name: "gzip data" },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], name: "ELF executable" },
+  { bytes: [0xca, 0xfe, 0xba, 0xbe], name: "Java class or Mach-O binary" },
+  { bytes: [0xcf, 0xfa, 0xed, 0xfe], name: "Mach-O binary" },
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0], name: "legacy Office document" },
+];
+
+/** Typographic ligatures expanded to their letters. */
+const LIGATURES: Readonly<Record<string, string>> = {
+  "ﬀ": "ff", "ﬁ": "fi", "ﬂ": "fl", "ﬃ": "ffi", "ﬄ": "ffl", "ﬅ": "st", "ﬆ": "st",
+};
+
+/**
+ * Detect the encoding from a byte-order mark, else from the NUL pattern
+ * UTF-16 leaves on ASCII text, else UTF-8 if the bytes are valid UTF-8.
+ * Returns the number of BOM bytes to skip.
+ */
+function detectEncoding(data: Buffer): { encoding: TextEncoding; bomLength: number } {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return { encoding: "utf-8", bomLength: 3 };
+  if (data[0] === 0xff && data[1] === 0xfe) return { encoding: "utf-16le", bomLength: 2 };
+  if (data[0] === 0xfe && data[1] === 0xff) return { encoding: "utf-16be", bomLength: 2 };
+
+  // ASCII-heavy UTF-16 has a NUL in nearly every other byte
+  const sample = data.subarray(0, SNIFF_BYTES - (SNIFF_BYTES % 2));
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs >= 2) {
+    let evenNuls = 0;
+    let oddNuls = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0 && sample[i + 1] !== 0) evenNuls++;
+      if (sample[i] !== 0 && sample[i + 1] === 0) oddNuls++;
+    }
+    if (oddNuls / pairs >= 0.6) return { encoding: "utf-16le", bomLength: 0 };
+    if (evenNuls / pairs >= 0.6) return { encoding: "utf-16be", bomLength: 0 };
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return { encoding: "utf-8", bomLength: 0 };
+  } catch {
+    return { encoding: "windows-1252", bomLength: 0 };
+  }
+}
+
+/**
+ * Return why `data` looks like a binary file rather than text, or
+ * undefined if it looks like text. UTF-16 text is not binary despite
+ * its NUL bytes.
+ */
+export function sniffBinary(data: Buffer): string | undefined {
+  for (const signature of BINARY_SIGNATURES) {
+    if (signature.bytes.every((byte, i) => data[i] === byte)) {
+      return `${signature.name} signature`;
+    }
+  }
+
+  const { encoding } = detectEncoding(data);
+  if (encoding === "utf-16le" || encoding === "utf-16be") return undefined;
+
+  const sample = data.subarray(0, SNIFF_BYTES);
+  if (sample.includes(0)) return "contains NUL bytes";
+
+  let control = 0;
+  for (const byte of sample) {
+    // Tab, newline, form feed, carriage return and escape appear in real text
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b) {
+      control++;
+    }
+  }
+  if (sample.length > 0 && control / sample.length > CONTROL_CHAR_THRESHOLD) {
+    return `${Math.round((control / sample.length) * 100)}% control characters`;
+  }
+  return undefined;
+}
+
+/** Decode file bytes to a string using the detected encoding, without a BOM. */
+export function decodeText(data: Buffer): DecodedText {
+  const { encoding, bomLength } = detectEncoding(data);
+  return { text: new TextDecoder(encoding).decode(data.subarray(bomLength)), encoding };
+}
+
+/**
+ * Clean text for search and prompts without changing its line structure:
+ * NFC composition, ligatures expanded, smart quotes straightened, soft
+ * hyphens and zero-width spaces removed, non-breaking spaces made plain,
+ * and CRLF line endings made LF.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[\uFB00-\uFB06]/g, (ligature) => LIGATURES[ligature] ?? ligature)
+    .replace(/[‘’‚‛]/g, "'")
+    .replace(/[“”„‟]/g, '"')
+    .replace(/[\u00AD\u200B\uFEFF]/g, "")
+    .replace(/[\u00A0\u202F]/g, " ")
+    .replace(/\r\n/g, "\n");
+}
@@ -0,0 +1,49 @@
+import type { Chunk } from "./schemas/chunk.js";
+
+/**
+ * Token estimates for sizing prompt context.
+ *
+ * Stages budget their context in tokens rather than chunk counts, since
+ * chunks range from a one-line heading to a few thousand characters. An
+ * estimate is enough to keep prompts in a predictable range, so no
+ * model-specific tokenizer is needed.
+ */
+
+/** Characters per token for English prose in common LLM tokenizers. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimated token count of a text: a character-based estimate, or one
+ * token per word or symbol run when that is higher, since code and
+ * tables spend more tokens per character than prose does.
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]+/gu)?.length ?? 0;
+  return Math.max(Math.ceil(text.length / CHARS_PER_TOKEN), pieces);
+}
+
+/**
+ * Greedily pack chunks, in the given (ranked) order, into `maxTokens`
+ * estimated tokens. A chunk that no longer fits is skipped so a smaller
+ * one further down can still use the remaining budget.
+ */
+export function packToBudget(
+  chunks: readonly Chunk[],
+  maxTokens: number,
+): { chunks: Chunk[]; tokens: number } {
+  const packed: Chunk[] = [];
+  let tokens = 0;
+  for (const chunk of chunks) {
+    const cost = estimateTokens(chunk.text);
+    if (tokens + cost > maxTokens) continue;
+    packed.push(chunk);
+    tokens += cost;
+  }
+  return { chunks: packed, tokens };
+}
+
+/** "9812 of 12000 tokens (82%) in 27 chunks" for the run log. */
+export function formatBudgetUse(chunks: readonly Chunk[], budget: number): string {
+  const tokens = chunks.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0);
+  return `${tokens} of ${budget} tokens (${Math.round((tokens / budget) * 100)}%) in ${chunks.length} chunks`;
+}
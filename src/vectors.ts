@@ -0,0 +1,360 @@
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { STOP_WORDS } from "./query-builder.js";
+
+/**
+ * Offline semantic index over chunk text (latent semantic analysis).
+ *
+ * Keyword search misses paraphrases: a requirement says "free list"
+ * where the slides say "available blocks". LSA learns which words are
+ * related from the chunks they share in the course's own materials, with
+ * no model download or network access: chunks become TF-IDF vectors, a
+ * truncated SVD of the term-chunk matrix maps them into a few dozen
+ * latent dimensions, and a query is compared to every chunk by cosine
+ * similarity in that space.
+ */
+
+export const VECTORS_FILENAME = "vectors.bin";
+
+/** Bumped when tokenization, weighting or the file layout changes. */
+const VECTOR_VERSION = 1;
+
+/**
+ * Latent dimensions kept from the SVD, at most. Smaller corpora keep
+ * about √chunks: with as many dimensions as chunks the latent space
+ * reproduces plain TF-IDF and relates nothing.
+ */
+const DIMENSIONS = 64;
+
+/** Extra random directions sampled so the top DIMENSIONS come out accurately. */
+const OVERSAMPLING = 10;
+
+/** Power iterations of the randomized SVD; sharpen a slowly decaying spectrum. */
+const POWER_ITERATIONS = 2;
+
+/** A term in fewer chunks than this says nothing about which words co-occur. */
+const MIN_DOCUMENT_FREQUENCY = 2;
+
+/** Vocabulary cap, keeping the terms that appear in the most chunks. */
+const MAX_VOCABULARY = 20_000;
+
+/** Fixed seed so the same chunks always give the same index. */
+const RANDOM_SEED = 0x5eed;
+
+/** Cosine similarity a chunk needs to count as a match at all. */
+const MIN_SIMILARITY = 0.05;
+
+export interface VectorIndex {
+  /** Hash of the indexed chunk ids and texts (see corpusFingerprint). */
+  readonly fingerprint: string;
+  /** Latent dimensions; 0 when the chunks are too few to relate any terms. */
+  readonly dims: number;
+  readonly terms: readonly string[];
+  /** Inverse document frequency per term. */
+  readonly idf: Float32Array;
+  /** Term-to-latent projection, terms × dims, row-major. */
+  readonly projection: Float32Array;
+  readonly chunkIds: readonly string[];
+  /** Unit-length latent vector per chunk (all zero if it has no known terms), chunks × dims. */
+  readonly vectors: Float32Array;
+}
+
+/**
+ * Lowercased words without stop words, with a trailing plural "s"
+ * dropped so "blocks" and "block" are one term.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    if (word.length < 2 || STOP_WORDS.has(word)) continue;
+    tokens.push(word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+  }
+  return tokens;
+}
+
+/** Hash identifying a set of chunks, so an index is rebuilt only when they change. */
+export function corpusFingerprint(chunks: readonly { chunk_id: string; text: string }[]): string {
+  const hash = createHash("sha256").update(`v${VECTOR_VERSION}\n`);
+  for (const chunk of chunks) hash.update(`${chunk.chunk_id}\0${chunk.text}\0`);
+  return hash.digest("hex");
+}
+
+/** Deterministic uniform values in [-1, 1) (mulberry32). */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 31 - 1;
+  };
+}
+
+/** One chunk's TF-IDF weights as parallel arrays of term index and weight. */
+interface SparseVector {
+  readonly terms: number[];
+  readonly weights: number[];
+}
+
+/** Sublinear TF-IDF weights of a token list over the vocabulary, L2-normalized. */
+function tfidf(tokens: readonly string[], vocabulary: ReadonlyMap<string, number>, idf: Float32Array): SparseVector {
+  const counts = new Map<number, number>();
+  for (const token of tokens) {
+    const term = vocabulary.get(token);
+    if (term !== undefined) counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  const terms = [...counts.keys()];
+  const weights = terms.map((term) => (1 + Math.log(counts.get(term)!)) * idf[term]!);
+  const norm = Math.hypot(...weights);
+  return { terms, weights: norm > 0 ? weights.map((w) => w / norm) : weights };
+}
+
+/** Orthonormalize columns in place (modified Gram-Schmidt); dependent columns become zero. */
+function orthonormalize(columns: Float64Array[]): void {
+  for (let j = 0; j < columns.length; j++) {
+    const column = columns[j]!;
+    for (let i = 0; i < j; i++) {
+      const previous = columns[i]!;
+      let dot = 0;
+      for (let k = 0; k < column.length; k++) dot += column[k]! * previous[k]!;
+      for (let k = 0; k < column.length; k++) column[k]! -= dot * previous[k]!;
+    }
+    let norm = 0;
+    for (let k = 0; k < column.length; k++) norm += column[k]! ** 2;
+    norm = Math.sqrt(norm);
+    if (norm < 1e-10) column.fill(0);
+    else for (let k = 0; k < column.length; k++) column[k]! /= norm;
+  }
+}
+
+/**
+ * Eigen-decomposition of a small symmetric matrix by cyclic Jacobi
+ * rotations. Returns eigenvalues and the matching eigenvectors as the
+ * columns of `vectors`, unsorted.
+ */
+function symmetricEigen(matrix: readonly (readonly number[])[]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    let scale = 0;
+    for (let p = 0; p < n; p++) {
+      scale += a[p]![p]! ** 2;
+      for (let q = p + 1; q < n; q++) off += a[p]![q]! ** 2;
+    }
+    if (off <= 1e-24 * scale) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p]![q]!;
+        if (apq === 0) continue;
+        const theta = (a[q]![q]! - a[p]![p]!) / (2 * apq);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k]![p]!;
+          const akq = a[k]![q]!;
+          a[k]![p] = c * akp - s * akq;
+          a[k]![q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p]![k]!;
+          const aqk = a[q]![k]!;
+          a[p]![k] = c * apk - s * aqk;
+          a[q]![k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k]![p]!;
+          const vkq = v[k]![q]!;
+          v[k]![p] = c * vkp - s * vkq;
+          v[k]![q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]!), vectors: v };
+}
+
+/** Sum of a sparse vector's terms' rows of the projection, normalized to unit length. */
+function project(vector: SparseVector, projection: Float32Array, dims: number, out: Float32Array, offset = 0): void {
+  for (let i = 0; i < vector.terms.length; i++) {
+    const row = vector.terms[i]! * dims;
+    const weight = vector.weights[i]!;
+    for (let m = 0; m < dims; m++) out[offset + m]! += weight * projection[row + m]!;
+  }
+  let norm = 0;
+  for (let m = 0; m < dims; m++) norm += out[offset + m]! ** 2;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let m = 0; m < dims; m++) out[offset + m]! /= norm;
+}
+
+/**
+ * Build an LSA index over chunks: TF-IDF over terms found in at least
+ * MIN_DOCUMENT_FREQUENCY chunks, then a randomized truncated SVD
+ * (Halko et al.) of the term-chunk matrix. The left singular vectors
+ * project both chunks and queries into the latent space.
+ */
+export function buildVectorIndex(chunks: readonly { chunk_id: string; text: string }[]): VectorIndex {
+  const tokenized = chunks.map((chunk) => tokenize(chunk.text));
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const token of new Set(tokens)) documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+  }
+  const terms = [...documentFrequency]
+    .filter(([, df]) => df >= MIN_DOCUMENT_FREQUENCY)
+    .sort(([a, dfA], [b, dfB]) => dfB - dfA || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, MAX_VOCABULARY)
+    .map(([term]) => term);
+  const vocabulary = new Map(terms.map((term, i) => [term, i]));
+  const idf = Float32Array.from(terms, (term) =>
+    Math.log((1 + chunks.length) / (1 + documentFrequency.get(term)!)) + 1);
+  const documents = tokenized.map((tokens) => tfidf(tokens, vocabulary, idf));
+
+  const target = Math.min(DIMENSIONS, Math.ceil(Math.sqrt(chunks.length)));
+  const sample = Math.min(target + OVERSAMPLING, terms.length, chunks.length);
+
+  // A × X for columns X over chunks, and Aᵀ × Y for columns Y over terms
+  const timesA = (columns: Float64Array[]) => columns.map((x) => {
+    const y = new Float64Array(terms.length);
+    documents.forEach((doc, d) => {
+      const value = x[d]!;
+      if (value === 0) return;
+      for (let i = 0; i < doc.terms.length; i++) y[doc.terms[i]!]! += doc.weights[i]! * value;
+    });
+    return y;
+  });
+  const timesAt = (columns: Float64Array[]) => columns.map((y) => Float64Array.from(documents, (doc) => {
+    let sum = 0;
+    for (let i = 0; i < doc.terms.length; i++) sum += doc.weights[i]! * y[doc.terms[i]!]!;
+    return sum;
+  }));
+
+  const next = random(RANDOM_SEED);
+  let basis = timesA(Array.from({ length: sample }, () => Float64Array.from(documents, () => next())));
+  orthonormalize(basis);
+  for (let i = 0; i < POWER_ITERATIONS; i++) {
+    const back = timesAt(basis);
+    orthonormalize(back);
+    basis = timesA(back);
+    orthonormalize(basis);
+  }
+
+  // B = Qᵀ A is small (sample × chunks); the eigenvectors of B Bᵀ rotate
+  // the basis Q onto the left singular vectors of A
+  const rows = timesAt(basis);
+  const gram = rows.map((a) => rows.map((b) => a.reduce((sum, value, k) => sum + value * b[k]!, 0)));
+  const { values, vectors } = symmetricEigen(gram);
+  const largest = Math.max(0, ...values);
+  const components = values
+    .map((value, i) => ({ value, i }))
+    .filter(({ value }) => value > 1e-10 * largest && value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, target);
+
+  const dims = components.length;
+  const projection = new Float32Array(terms.length * dims);
+  components.forEach(({ i }, m) => {
+    for (let j = 0; j < sample; j++) {
+      const coefficient = vectors[j]![i]!;
+      const column = basis[j]!;
+      for (let t = 0; t < terms.length; t++) projection[t * dims + m]! += coefficient * column[t]!;
+    }
+  });
+
+  const chunkVectors = new Float32Array(chunks.length * dims);
+  documents.forEach((doc, d) => project(doc, projection, dims, chunkVectors, d * dims));
+
+  return {
+    fingerprint: corpusFingerprint(chunks),
+    dims,
+    terms,
+    idf,
+    projection,
+    chunkIds: chunks.map((chunk) => chunk.chunk_id),
+    vectors: chunkVectors,
+  };
+}
+
+/**
+ * Chunk ids ranked by latent cosine similarity to the query text, most
+ * similar first, at most `limit` of them. Chunks below MIN_SIMILARITY
+ * are left out, so a query with no known terms returns nothing.
+ */
+export function searchVectorIndex(index: VectorIndex, text: string, limit: number): string[] {
+  if (index.dims === 0) return [];
+  const vocabulary = new Map(index.terms.map((term, i) => [term, i]));
+  const query = new Float32Array(index.dims);
+  project(tfidf(tokenize(text), vocabulary, index.idf), index.projection, index.dims, query);
+
+  const scored: { id: string; similarity: number }[] = [];
+  index.chunkIds.forEach((id, d) => {
+    let similarity = 0;
+    for (let m = 0; m < index.dims; m++) similarity += query[m]! * index.vectors[d * index.dims + m]!;
+    if (similarity >= MIN_SIMILARITY) scored.push({ id, similarity });
+  });
+  return scored
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ id }) => id);
+}
+
+/**
+ * Write an index as a 4-byte header length, a JSON header (version,
+ * fingerprint, dims, terms, chunk ids), padding to a 4-byte boundary,
+ * then the idf, projection and chunk vector arrays as float32.
+ */
+export function saveVectorIndex(path: string, index: VectorIndex): void {
+  const header = Buffer.from(JSON.stringify({
+    version: VECTOR_VERSION,
+    fingerprint: index.fingerprint,
+    dims: index.dims,
+    terms: index.terms,
+    chunk_ids: index.chunkIds,
+  }), "utf-8");
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(header.length);
+  const padding = Buffer.alloc((4 - (header.length % 4)) % 4);
+  const floats = (array: Float32Array) => Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+  writeFileSync(path, Buffer.concat([
+    length, header, padding, floats(index.idf), floats(index.projection), floats(index.vectors),
+  ]));
+}
+
+/**
+ * Read an index written by saveVectorIndex. Returns undefined if the
+ * file is missing, truncated or from another index version.
+ */
+export function loadVectorIndex(path: string): VectorIndex | undefined {
+  try {
+    const data = readFileSync(path);
+    const headerLength = data.readUInt32LE(0);
+    const header = JSON.parse(data.subarray(4, 4 + headerLength).toString("utf-8"));
+    if (header.version !== VECTOR_VERSION) return undefined;
+
+    const { dims, terms, chunk_ids: chunkIds } = header as { dims: number; terms: string[]; chunk_ids: string[] };
+    let offset = 4 + headerLength + ((4 - (headerLength % 4)) % 4);
+    const floats = (count: number) => {
+      const bytes = data.subarray(offset, offset + count * 4);
+      if (bytes.length !== count * 4) throw new Error("truncated vector index");
+      offset += count * 4;
+      // Copy so the array is aligned regardless of the Buffer's pool offset
+      return new Float32Array(Uint8Array.from(bytes).buffer);
+    };
+    return {
+      fingerprint: header.fingerprint as string,
+      dims,
+      terms,
+      idf: floats(terms.length),
+      projection: floats(terms.length * dims),
+      chunkIds,
+      vectors: floats(chunkIds.length * dims),
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,138 @@
+import { inflateRawSync } from "node:zlib";
+
+/**
+ * Minimal read-only ZIP archive reader.
+ *
+ * Supports the subset used by OOXML documents (.pptx, .docx) and ordinary
+ * course bundles: stored and deflated entries listed in the central
+ * directory. ZIP64, multi-disk archives, and encrypted entries are rejected.
+ */
+export interface ZipArchive {
+  /** File entry names in central-directory order (directories excluded). */
+  readonly entries: readonly string[];
+  /** Decompressed size of an entry as recorded in the central directory. */
+  size(name: string): number | undefined;
+  /**
+   * Read and decompress an entry. Returns undefined if it does not exist.
+   * Throws if the entry decompresses to more than its recorded size.
+   */
+  read(name: string): Buffer | undefined;
+}
+
+interface CentralEntry {
+  readonly method: number;
+  readonly flags: number;
+  readonly compressedSize: number;
+  readonly size: number;
+  readonly localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+/**
+ * Locate the End Of Central Directory record by scanning backwards
+ * over the (optional) trailing archive comment.
+ */
+function findEndOfCentralDirectory(data: Buffer): number {
+  const stop = Math.max(0, data.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = data.length - EOCD_MIN_SIZE; i >= stop; i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse a ZIP archive's central directory.
+ * Throws if the data is not a readable ZIP archive.
+ */
+export function openZip(data: Buffer): ZipArchive {
+  const eocd = findEndOfCentralDirectory(data);
+  if (eocd === -1) {
+    throw new Error("Not a zip archive (end of central directory not found)");
+  }
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  const directoryOffset = data.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const central = new Map<string, CentralEntry>();
+  const names: string[] = [];
+  let pos = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > data.length || data.readUInt32LE(pos) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt zip archive (bad central directory entry)");
+    }
+    const flags = data.readUInt16LE(pos + 8);
+    const method = data.readUInt16LE(pos + 10);
+    const compressedSize = data.readUInt32LE(pos + 20);
+    const size = data.readUInt32LE(pos + 24);
+    const nameLength = data.readUInt16LE(pos + 28);
+    const extraLength = data.readUInt16LE(pos + 30);
+    const commentLength = data.readUInt16LE(pos + 32);
+    const localHeaderOffset = data.readUInt32LE(pos + 42);
+    const rawName = data.subarray(pos + 46, pos + 46 + nameLength);
+    // Names without the UTF-8 flag are nominally CP437; latin1 is a close
+    // enough approximation for the ASCII names course bundles actually use.
+    const name = rawName.toString(flags & FLAG_UTF8 ? "utf-8" : "latin1");
+
+    if (!name.endsWith("/")) {
+      central.set(name, { method, flags, compressedSize, size, localHeaderOffset });
+      names.push(name);
+    }
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    entries: names,
+
+    size(name: string): number | undefined {
+      return central.get(name)?.size;
+    },
+
+    read(name: string): Buffer | undefined {
+      const entry = central.get(name);
+      if (!entry) return undefined;
+
+      if (entry.flags & FLAG_ENCRYPTED) {
+        throw new Error(`Encrypted zip entries are not supported: ${name}`);
+      }
+
+      const local = entry.localHeaderOffset;
+      if (local + 30 > data.length || data.readUInt32LE(local) !== LOCAL_SIGNATURE) {
+        throw new Error(`Corrupt zip archive (bad local header for ${name})`);
+      }
+      // Local name/extra lengths may differ from the central directory's
+      const start = local + 30 + data.readUInt16LE(local + 26) + data.readUInt16LE(local + 28);
+      const compressed = data.subarray(start, start + entry.compressedSize);
+
+      switch (entry.method) {
+        case METHOD_STORED:
+          return Buffer.from(compressed);
+        case METHOD_DEFLATE:
+          // Bounded so a small entry cannot expand past the size callers budgeted for
+          try {
+            return inflateRawSync(compressed, { maxOutputLength: Math.max(1, entry.size) });
+          } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ERR_BUFFER_TOO_LARGE") throw error;
+            throw new Error(`Corrupt zip archive (${name} is larger than its recorded size)`);
+          }
+        default:
+          throw new Error(
+            `Unsupported zip compression method ${entry.method} for entry: ${name}`,
+          );
+      }
+    },
+  };
+}